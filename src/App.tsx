@@ -2,13 +2,76 @@ import React, { useState, useEffect, useMemo, useRef } from "react";
 import HomePage from "./HomePage";
 import ReportPage from "./ReportPage";
 import ManagePage from "./ManagePage";
-import type { Process, Report } from "./types";
+import UsersPage from "./UsersPage";
+import AuditPage from "./AuditPage";
+import UnitPage from "./UnitPage";
+import OutboxPanel from "./components/OutboxPanel";
+import DuplicateReportModal from "./components/DuplicateReportModal";
+import PhotoAnnotator from "./components/PhotoAnnotator";
+import PhotoLightbox from "./components/PhotoLightbox";
+import type {
+  ExistingPhoto,
+  ExistingPhotoChange,
+  InspectionItem,
+  ItemVerdict,
+  MeasurementSpec,
+  PassFail,
+  PhotoAgePolicy,
+  Process,
+  ProductModel,
+  Report,
+  WatermarkConfig,
+} from "./types";
 import { useSessionAuth } from "./hooks/useSessionAuth";
-import { useDrafts } from "./hooks/useDrafts";
-import { logAudit } from "./services/auditService";
-import { fetchReportsFromDB, saveReportToDB, updateReportInDB } from "./services/reportService";
-import { getSignedImageUrl, runInBatches, uploadImage } from "./services/storageService";
-import { supabase } from "./services/supabaseClient";
+import { useDrafts, type AppPage } from "./hooks/useDrafts";
+import { useOutbox } from "./hooks/useOutbox";
+import {
+  fetchAuditLogs,
+  fetchReportTimeline,
+  logAudit,
+} from "./services/auditService";
+import type { OutboxReport } from "./services/outboxService";
+import { exportReportsPdf } from "./services/pdfExportService";
+import { downloadReportPhotosZip } from "./services/photoArchiveService";
+import {
+  exportReportList,
+  exportReportMatrix,
+} from "./services/sheetExportService";
+import {
+  createProcessInDB,
+  deleteProcessInDB,
+  fetchProcessRevisions,
+  fetchProcessesFromDB,
+  reviseProcessInDB,
+} from "./services/processService";
+import {
+  fetchProductModelsFromDB,
+  saveProductModelInDB,
+} from "./services/productModelService";
+import {
+  fetchReportById,
+  fetchReportsForUnit,
+  fetchReportsForUnits,
+  fetchReportsPage,
+  searchReportsBySerial,
+  updateReportInDB,
+  type ReportCursor,
+} from "./services/reportService";
+import {
+  createManagedUser,
+  fetchManagedUsers,
+  resetManagedUserPassword,
+  setManagedUserDisabled,
+  setManagedUserRole,
+} from "./services/userAdminService";
+import {
+  getSignedImageUrl,
+  removeImages,
+  runInBatches,
+  softDeleteImages,
+  toOriginalPhotoPath,
+  uploadImage,
+} from "./services/storageService";
 import {
   NA_SENTINEL,
   type ImageValue,
@@ -16,6 +79,46 @@ import {
   normalizeImageValue,
   normalizeImagesMap,
 } from "./utils/imageUtils";
+import {
+  collectMeasurements,
+  formatMeasurement,
+  judgeMeasurement,
+  parseMeasurementInput,
+} from "./utils/measurementUtils";
+import { createItemId, getItemName } from "./utils/itemUtils";
+import {
+  DEFAULT_WATERMARK,
+  buildWatermarkSegments,
+  formatCaptureTime,
+} from "./utils/watermarkUtils";
+import {
+  DEFAULT_PHOTO_AGE_POLICY,
+  describeCapturedAt,
+  isStalePhoto,
+  readCaptureTime,
+} from "./utils/photoTimeUtils";
+import {
+  EMPTY_REPORT_QUERY,
+  EMPTY_REPORT_SEARCH,
+  matchesReportQuery,
+  mergeReportPages,
+  type ReportQueryFilters,
+  type ReportSearchFields,
+} from "./utils/reportSearchUtils";
+import {
+  getSerialPattern,
+  normalizeSerial,
+  validateSerial,
+  validateSerialPattern,
+} from "./utils/serialPatternUtils";
+import { toUnitKey } from "./utils/unitUtils";
+import { ROLE_LABEL, can, canEditReport } from "./utils/permissionUtils";
+import { diffProcessContent, isEmptyProcessDiff } from "./utils/processDiff";
+import {
+  VERDICT_COLOR,
+  VERDICT_LABEL,
+  getItemVerdict,
+} from "./utils/verdictUtils";
 
 // =============================
 //  簡易 UI 元件：Button / Input / Card
@@ -79,7 +182,7 @@ const Input: React.FC<InputProps> = ({ className = "", ...props }) => (
 //  小圖示（SVG）- 用於狀態顯示（避免字元 ✔ / ✖ 視覺大小不一致）
 // =============================
 
-type StatusIconKind = "ok" | "ng" | "na";
+type StatusIconKind = ItemVerdict;
 
 const StatusIcon: React.FC<{ kind: StatusIconKind; className?: string; title?: string }> = ({
   kind,
@@ -114,6 +217,14 @@ const StatusIcon: React.FC<{ kind: StatusIconKind; className?: string; title?: s
     );
   }
 
+  if (kind === "pending") {
+    return (
+      <svg {...common} className={className} aria-label={title} role="img">
+        <circle cx="12" cy="12" r="8" strokeDasharray="3 4" />
+      </svg>
+    );
+  }
+
   // na
   return (
     <svg {...common} className={className} aria-label={title} role="img">
@@ -150,6 +261,32 @@ function confirmDiscard(message?: string) {
 
 
 // =============================
+//  項目判定：N/A 與合格 / 不合格分開存放，切換時互斥
+// =============================
+function applyItemVerdict(
+  item: string,
+  verdict: ItemVerdict,
+  setNA: React.Dispatch<React.SetStateAction<Record<string, boolean>>>,
+  setVerdicts: React.Dispatch<React.SetStateAction<Record<string, PassFail>>>
+) {
+  setNA((prev) => {
+    if (verdict === "na") return { ...prev, [item]: true };
+    if (!prev[item]) return prev;
+    const next = { ...prev };
+    delete next[item];
+    return next;
+  });
+
+  setVerdicts((prev) => {
+    if (verdict === "ok" || verdict === "ng") {
+      return { ...prev, [item]: verdict };
+    }
+    if (!prev[item]) return prev;
+    const next = { ...prev };
+    delete next[item];
+    return next;
+  });
+}
 
 // =============================
 //  Login Page（帳號 + 密碼，帳號會轉成 email@local）
@@ -254,7 +391,12 @@ export default function App() {
   });
 
   // ===== 頁面與表單狀態 =====
-  const [page, setPage] = useState<"home" | "reports" | "manage">("home");
+  const [page, setPage] = useState<AppPage>("home");
+  // 機台履歷：從報告列表開啟的機台
+  const [unitTarget, setUnitTarget] = useState<{
+    model: string;
+    serial: string;
+  } | null>(null);
 
   // 新增檢驗資料用
   const [serial, setSerial] = useState("");
@@ -267,6 +409,8 @@ export default function App() {
 
   // 製程 / 報告資料
   const [processes, setProcesses] = useState<Process[]>([]);
+  // 產品型號設定（序號格式），沒有設定的型號不檢查
+  const [modelSettings, setModelSettings] = useState<ProductModel[]>([]);
   const [processStatus, setProcessStatus] = useState<
     "idle" | "loading" | "ready" | "empty" | "error"
   >("idle");
@@ -279,7 +423,13 @@ export default function App() {
   const [newProcModel, setNewProcModel] = useState("");
   const [newItem, setNewItem] = useState("");
   const [insertAfter, setInsertAfter] = useState<string>("last"); // 新增項目插入位置（last 或 index）
-  const [items, setItems] = useState<string[]>([]);
+  const [items, setItems] = useState<InspectionItem[]>([]);
+  const [itemSpecs, setItemSpecs] = useState<Record<string, MeasurementSpec>>({});
+  const [processChangelog, setProcessChangelog] = useState(""); // 更新製程時的變更說明（寫入版本紀錄）
+  const [processWatermark, setProcessWatermark] =
+    useState<WatermarkConfig>(DEFAULT_WATERMARK);
+  const [processPhotoAgePolicy, setProcessPhotoAgePolicy] =
+    useState<PhotoAgePolicy>(DEFAULT_PHOTO_AGE_POLICY);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [expandedProcessIndex, setExpandedProcessIndex] = useState<number | null>(null);
 
@@ -289,17 +439,34 @@ export default function App() {
 
   // 新增檢驗：N/A 標記（不刪照片，可逆）
   const [homeNA, setHomeNA] = useState<Record<string, boolean>>({});
+  // 新增檢驗：開始填寫的時間（第一次拍照 / 選圖），照片時效以此為準
+  const [homeStartedAt, setHomeStartedAt] = useState<number | null>(null);
+  // 新增檢驗：同型號 + 序號 + 製程已有報告時的提示，以及選擇複檢時的原報告 ID
+  const [duplicateReports, setDuplicateReports] = useState<Report[] | null>(null);
+  const [homeReinspectionOf, setHomeReinspectionOf] = useState<string | null>(null);
 
   // 編輯報告：N/A 標記（不刪照片，可逆）
   const [editNA, setEditNA] = useState<Record<string, boolean>>({});
 
+  // 新增檢驗 / 編輯報告：項目判定（合格 / 不合格，N/A 另存於上方）
+  const [homeVerdicts, setHomeVerdicts] = useState<Record<string, PassFail>>({});
+  const [editVerdicts, setEditVerdicts] = useState<Record<string, PassFail>>({});
+
+  // 新增檢驗 / 編輯報告：量測值輸入（保留字串，儲存時才依小數位數換算）
+  const [homeMeasurements, setHomeMeasurements] = useState<Record<string, string>>({});
+  const [editMeasurements, setEditMeasurements] = useState<Record<string, string>>({});
+
   const [editingReportId, setEditingReportId] = useState<string | null>(null);
   const [editImages, setEditImages] = useState<Record<string, string[]>>({});
   const [editImageFiles, setEditImageFiles] = useState<Record<string, File[]>>(
     {}
   );
   const [editSignedUrlMap, setEditSignedUrlMap] = useState<
-    Record<string, string[]>
+    Record<string, ExistingPhoto[]>
+  >({});
+  // 既有照片的刪除 / 替換（儲存時才生效）
+  const [editPhotoChanges, setEditPhotoChanges] = useState<
+    Record<string, ExistingPhotoChange>
   >({});
   const fetchedEditSignedReportIdRef = useRef<string | null>(null);
 
@@ -311,15 +478,26 @@ export default function App() {
   const [selectedProcessFilter, setSelectedProcessFilter] = useState("");
   const [selectedModelFilter, setSelectedModelFilter] = useState("");
   const [selectedStatusFilter, setSelectedStatusFilter] = useState("");
+  const [reportSearch, setReportSearch] =
+    useState<ReportSearchFields>(EMPTY_REPORT_SEARCH);
   const [reportHasQueried, setReportHasQueried] = useState(false);
   const [pcSelectedKey, setPcSelectedKey] = useState<string | null>(null);
 
   // 查詢正式條件（按「查詢」後才生效）
-  const [queryFilters, setQueryFilters] = useState({
-    process: "",
-    model: "",
-    status: "",
-  });
+  const [queryFilters, setQueryFilters] =
+    useState<ReportQueryFilters>(EMPTY_REPORT_QUERY);
+  // 報告列表分頁：下一頁游標（null 表示已全部載入）
+  const [reportCursor, setReportCursor] = useState<ReportCursor | null>(null);
+  const [isLoadingReports, setIsLoadingReports] = useState(false);
+  const reportLoadingRef = useRef(false);
+  // 由資料庫查詢取得的報告 ID：分頁（清單）與機台補齊（型號序號總表）
+  const [pagedReportIds, setPagedReportIds] = useState<Set<string>>(() => new Set());
+  const [unitReportIds, setUnitReportIds] = useState<Set<string>>(() => new Set());
+  // 機台補齊失敗或達上限時，總表可能缺少其他製程的報告
+  const [isUnitDataIncomplete, setIsUnitDataIncomplete] = useState(false);
+  // 每次重新查詢遞增；回應時已不是同一次查詢則捨棄
+  const reportQueryGenRef = useRef(0);
+  const loadedPageCountRef = useRef(0);
 
   // 刪除確認 Modal 用
   const [confirmTarget, setConfirmTarget] = useState<ConfirmTarget>(null);
@@ -327,6 +505,12 @@ export default function App() {
   // 新增檢驗：儲存前預覽
   const [showPreview, setShowPreview] = useState(false);
   const [previewIndex, setPreviewIndex] = useState(0);
+  // 預覽中點開的全螢幕照片（新增 / 編輯預覽共用）
+  const [lightbox, setLightbox] = useState<{
+    source: "home" | "edit";
+    itemIndex: number;
+    photoIndex: number;
+  } | null>(null);
 
   // ===== 防止重複儲存（新增 / 編輯）：UI state + 即時防重入 ref =====
   const [isSavingNew, setIsSavingNew] = useState(false);
@@ -336,6 +520,18 @@ export default function App() {
   const [uploadTotalCount, setUploadTotalCount] = useState(0);
   const savingNewRef = useRef(false);
   const savingEditRef = useRef(false);
+  // 編輯中已上傳成功的照片（File → Storage 路徑）：重試儲存時不重傳
+  const editUploadedRef = useRef<Map<File, string>>(new Map());
+  // 標註後的照片 → 標註前的原圖（上傳時一併保存原圖）
+  const annotationOriginalsRef = useRef<WeakMap<File, File>>(new WeakMap());
+  // 照片 → 拍攝時間（EXIF 優先），拍照 / 選圖時讀取
+  const captureTimesRef = useRef<WeakMap<File, number>>(new WeakMap());
+  // 預覽中正在標註的新照片
+  const [annotating, setAnnotating] = useState<{
+    source: "home" | "edit";
+    itemId: string;
+    index: number;
+  } | null>(null);
 
 useEffect(() => {
   let isActive = true;
@@ -359,26 +555,26 @@ useEffect(() => {
 
   (async () => {
     const entries = await Promise.all(
-      items.map(async (item) => {
-        const existingImages = normalizeImageValue(report.images?.[item]);
+      items.map(async ({ id }) => {
+        const existingImages = normalizeImageValue(report.images?.[id]);
         if (existingImages.length === 0) {
-          return [item, []] as const;
+          return [id, [] as ExistingPhoto[]] as const;
         }
 
         const resolved = await Promise.all(
-          existingImages.map(async (raw) => {
+          existingImages.map(async (raw): Promise<ExistingPhoto> => {
             if (
               raw.startsWith("data:") ||
               raw.startsWith("blob:") ||
               raw.startsWith("http://") ||
               raw.startsWith("https://")
             ) {
-              return raw;
+              return { path: raw, url: raw };
             }
-            return getSignedImageUrl(raw);
+            return { path: raw, url: await getSignedImageUrl(raw) };
           })
         );
-        return [item, resolved.filter(Boolean)] as const;
+        return [id, resolved.filter((photo) => !!photo.url)] as const;
       })
     );
 
@@ -386,9 +582,9 @@ useEffect(() => {
       return;
     }
 
-    const nextMap: Record<string, string[]> = {};
-    for (const [item, urls] of entries) {
-      nextMap[item] = urls;
+    const nextMap: Record<string, ExistingPhoto[]> = {};
+    for (const [id, photos] of entries) {
+      nextMap[id] = photos;
     }
     setEditSignedUrlMap(nextMap);
     fetchedEditSignedReportIdRef.current = editingReportId;
@@ -399,6 +595,36 @@ useEffect(() => {
   };
 }, [editingReportId, reports]);
 
+// 編輯中某項目要顯示的照片：已刪除的不顯示，替換的改顯示新照片，再接上本次新拍的
+const getEditItemPreviews = (itemId: string) => {
+  const existingSigned = (editSignedUrlMap[itemId] || []).flatMap((photo) => {
+    const change = editPhotoChanges[photo.path];
+    if (!change) return [photo.url];
+    return change.action === "replace" ? [change.previewUrl] : [];
+  });
+  return [...existingSigned, ...(editImages[itemId] || [])];
+};
+
+// 與 getEditItemPreviews 對應的拍攝時間說明
+const getEditItemCaptions = (itemId: string) => {
+  const report = reports.find((r) => r.id === editingReportId);
+  const existing = (editSignedUrlMap[itemId] || []).flatMap((photo) => {
+    const change = editPhotoChanges[photo.path];
+    if (!change) {
+      return [describeCapturedAt(report?.photo_meta?.[photo.path]?.captured_at)];
+    }
+    return change.action === "replace"
+      ? [describeCapturedAt(getCaptureTime(change.file))]
+      : [];
+  });
+  return [
+    ...existing,
+    ...(editImageFiles[itemId] || []).map((file) =>
+      describeCapturedAt(getCaptureTime(file))
+    ),
+  ];
+};
+
 const editPreviewImages = useMemo(() => {
   if (!showEditPreview || !editingReportId) {
     return [];
@@ -409,18 +635,16 @@ const editPreviewImages = useMemo(() => {
     return [];
   }
 
-  const item = report.expected_items?.[editPreviewIndex];
-  if (!item) {
+  const itemId = report.expected_items?.[editPreviewIndex]?.id;
+  if (!itemId) {
     return [];
   }
 
-  if (editNA[item] || isNAValue(report.images?.[item])) {
+  if (editNA[itemId] || isNAValue(report.images?.[itemId])) {
     return [];
   }
 
-  const existingSigned = editSignedUrlMap[item] || [];
-  const newPreviews = editImages[item] || [];
-  return [...existingSigned, ...newPreviews];
+  return getEditItemPreviews(itemId);
 }, [
   showEditPreview,
   editingReportId,
@@ -429,6 +653,7 @@ const editPreviewImages = useMemo(() => {
   editImages,
   editNA,
   editSignedUrlMap,
+  editPhotoChanges,
 ]);
 
 
@@ -441,49 +666,200 @@ const editPreviewImages = useMemo(() => {
     ? processes.filter((p) => p.model === selectedModel)
     : processes;
 
+  const serialPattern = getSerialPattern(modelSettings, selectedModel);
+
   const selectedProcObj =
     processes.find(
       (p) => p.name === selectedProcess && p.model === selectedModel
     ) || null;
 
+  // 清單：分頁取得的報告已由資料庫過濾，其他補入的報告（還原草稿、重複檢查）才於前端比對
   const filteredReports = reportHasQueried
-    ? reports.filter((r) => {
-      if (queryFilters.process && r.process !== queryFilters.process) return false;
-      if (queryFilters.model && r.model !== queryFilters.model) return false;
-
-    const expected = r.expected_items || [];
-    const isItemNA = (item: string) => isNAValue(r.images?.[item]);
-    const isItemDone = (item: string) =>
-      isItemNA(item) || normalizeImageValue(r.images?.[item]).length > 0;
-    const hasExpectedItems = expected.length > 0;
-
-    if (queryFilters.status === "done") {
-      // 已完成：所有「非 N/A」項目都有照片（N/A 視為已完成）
-      if (!hasExpectedItems) return false;
-      if (!expected.every((item) => isItemDone(item))) return false;
+    ? reports.filter(
+        (r) =>
+          pagedReportIds.has(r.id) ||
+          (!unitReportIds.has(r.id) && matchesReportQuery(r, queryFilters))
+      )
+    : [];
+
+  // 型號序號總表：清單中機台的所有符合條件報告（含尚未載入的頁面）
+  const listedUnitKeys = new Set(
+    filteredReports.map((r) => toUnitKey(r.model, r.serial))
+  );
+  const unitReports = reportHasQueried
+    ? reports.filter(
+        (r) =>
+          listedUnitKeys.has(toUnitKey(r.model, r.serial)) &&
+          (pagedReportIds.has(r.id) ||
+            unitReportIds.has(r.id) ||
+            matchesReportQuery(r, queryFilters))
+      )
+    : [];
+
+  // ===== 查看報告：分頁載入 =====
+  const addIds = (prev: Set<string>, list: Report[]) =>
+    new Set([...prev, ...list.map((r) => r.id)]);
+
+  // 補齊頁面中機台的其他報告（同一組條件，不分頁）
+  const completeUnitReports = async (
+    filters: ReportQueryFilters,
+    page: Report[],
+    gen: number
+  ) => {
+    if (page.length === 0) return;
+    const res = await fetchReportsForUnits(
+      filters,
+      page.map(({ model, serial }) => ({ model, serial }))
+    );
+    if (gen !== reportQueryGenRef.current) return;
+    if (!res.ok || res.truncated) setIsUnitDataIncomplete(true);
+    if (!res.ok) return;
+    setReports((prev) => mergeReportPages(prev, res.data));
+    setUnitReportIds((prev) => addIds(prev, res.data));
+  };
+
+  // 依條件重新查詢第一頁；失敗時清單清空（已讀取的報告仍保留供編輯使用）
+  const queryReports = async (filters: ReportQueryFilters) => {
+    const gen = ++reportQueryGenRef.current;
+    setQueryFilters(filters);
+    setReportHasQueried(true);
+    setPagedReportIds(new Set());
+    setUnitReportIds(new Set());
+    setIsUnitDataIncomplete(false);
+    setReportCursor(null);
+    loadedPageCountRef.current = 0;
+    reportLoadingRef.current = true;
+    setIsLoadingReports(true);
+    try {
+      const res = await fetchReportsPage(filters, null);
+      if (gen !== reportQueryGenRef.current) return false;
+      if (!res.ok) {
+        alert("查詢報告失敗，請稍後再試");
+        return false;
+      }
+      setReports(res.data.reports);
+      setPagedReportIds(addIds(new Set(), res.data.reports));
+      setReportCursor(res.data.nextCursor);
+      loadedPageCountRef.current = 1;
+      await completeUnitReports(filters, res.data.reports, gen);
+      return gen === reportQueryGenRef.current;
+    } finally {
+      if (gen === reportQueryGenRef.current) {
+        reportLoadingRef.current = false;
+        setIsLoadingReports(false);
+      }
     }
+  };
 
-    if (queryFilters.status === "not") {
-      // 未完成：存在「非 N/A」但尚未拍照的項目
-      if (!hasExpectedItems) return true;
-      if (!expected.some((item) => !isItemDone(item))) return false;
+  // 載入下一頁（捲動到底或按「載入更多」）
+  const loadMoreReports = async () => {
+    if (!reportCursor || reportLoadingRef.current) return;
+    const gen = reportQueryGenRef.current;
+    reportLoadingRef.current = true;
+    setIsLoadingReports(true);
+    try {
+      const res = await fetchReportsPage(queryFilters, reportCursor);
+      if (gen !== reportQueryGenRef.current) return;
+      if (!res.ok) {
+        alert("載入更多報告失敗，請稍後再試");
+        return;
+      }
+      setReports((prev) => mergeReportPages(prev, res.data.reports));
+      setPagedReportIds((prev) => addIds(prev, res.data.reports));
+      setReportCursor(res.data.nextCursor);
+      loadedPageCountRef.current++;
+      await completeUnitReports(queryFilters, res.data.reports, gen);
+    } finally {
+      if (gen === reportQueryGenRef.current) {
+        reportLoadingRef.current = false;
+        setIsLoadingReports(false);
+      }
     }
+  };
 
-    // 其他狀態：不過濾
-    return true;
-  })
-    : [];
+  // 背景上傳完成：重新讀取第一頁併入列表，不影響已載入的頁面
+  const refreshLatestReports = async () => {
+    if (!reportHasQueried) return;
+    const gen = reportQueryGenRef.current;
+    const res = await fetchReportsPage(queryFilters, null);
+    if (gen !== reportQueryGenRef.current || !res.ok) return;
+    setReports((prev) => mergeReportPages(prev, res.data.reports));
+    setPagedReportIds((prev) => addIds(prev, res.data.reports));
+    // 尚未載入任何頁面（如先前查詢失敗）時，由這一頁接續分頁
+    if (loadedPageCountRef.current === 0) {
+      loadedPageCountRef.current = 1;
+      setReportCursor(res.data.nextCursor);
+    }
+    await completeUnitReports(queryFilters, res.data.reports, gen);
+  };
+
+  // 還原編輯草稿時，報告可能不在已載入的頁面中
+  const loadReport = async (id: string) => {
+    const report = await fetchReportById(id);
+    if (report) setReports((prev) => mergeReportPages(prev, [report]));
+    return report;
+  };
 
 
 
+  // ===== 照片拍攝時間 / 時效 =====
+  // 標註照片以原圖為準；尚未讀取（如草稿還原）則用檔案修改時間
+  const getCaptureTime = (file: File) => {
+    const source = annotationOriginalsRef.current.get(file) ?? file;
+    return (
+      captureTimesRef.current.get(source) ?? (source.lastModified || Date.now())
+    );
+  };
+
+  // 讀取拍攝時間並依製程的照片時效檢查：提醒只告知，禁止則剔除過舊的照片
+  const screenPhotoAge = async (
+    files: File[],
+    policy: PhotoAgePolicy | undefined,
+    startedAt: number
+  ) => {
+    await Promise.all(
+      files.map(async (file) => {
+        captureTimesRef.current.set(file, await readCaptureTime(file));
+      })
+    );
+    const stale = files.filter((file) =>
+      isStalePhoto(getCaptureTime(file), startedAt, policy)
+    );
+    if (!policy || stale.length === 0) return files;
+
+    const detail = stale
+      .map(
+        (file) =>
+          `${file.name || "未命名"}（${formatCaptureTime(getCaptureTime(file))}）`
+      )
+      .join("\n");
+    if (policy.mode === "block") {
+      alert(
+        `以下照片的拍攝時間早於開始填寫超過 ${policy.maxHours} 小時，不可使用：\n${detail}`
+      );
+      return files.filter((file) => !stale.includes(file));
+    }
+    alert(
+      `提醒：以下照片的拍攝時間早於開始填寫超過 ${policy.maxHours} 小時，請確認是否為本次拍攝：\n${detail}`
+    );
+    return files;
+  };
+
   // ===== 拍照 / 上傳：新增頁（Home） =====
-  const handleCapture = (
+  const handleCapture = async (
     item: string,
     files: FileList | File[] | undefined
   ) => {
     if (!files || files.length === 0) return;
 
-    const incoming = Array.from(files);
+    const startedAt = homeStartedAt ?? Date.now();
+    if (homeStartedAt === null) setHomeStartedAt(startedAt);
+    const incoming = await screenPhotoAge(
+      Array.from(files),
+      selectedProcObj?.photo_age_policy,
+      startedAt
+    );
+    if (incoming.length === 0) return;
     const previewUrls = incoming
       .map((file) => {
         try {
@@ -538,13 +914,28 @@ const editPreviewImages = useMemo(() => {
   };
 
   // ===== 拍照 / 上傳：報告編輯（Reports - Edit mode） =====
-  const handleEditCapture = (
+  // 編輯時以報告建立時間為開始填寫時間（新拍與替換照片相同）
+  const screenEditPhotoAge = (files: File[]) => {
+    const report = reports.find((r) => r.id === editingReportId);
+    const reportProcess = report?.process_id
+      ? processes.find((p) => p.id === report.process_id)
+      : processes.find((p) => p.name === report?.process);
+    const createdAt = Date.parse(report?.created_at ?? "");
+    return screenPhotoAge(
+      files,
+      reportProcess?.photo_age_policy,
+      Number.isFinite(createdAt) ? createdAt : Date.now()
+    );
+  };
+
+  const handleEditCapture = async (
     item: string,
     files: FileList | File[] | undefined
   ) => {
     if (!files || files.length === 0) return;
 
-    const incoming = Array.from(files);
+    const incoming = await screenEditPhotoAge(Array.from(files));
+    if (incoming.length === 0) return;
     const previewUrls = incoming
       .map((file) => {
         try {
@@ -598,7 +989,150 @@ const editPreviewImages = useMemo(() => {
     });
   };
 
-  // ===== 新增表單：確認儲存（上傳到 Storage + 寫 DB） =====
+  // ===== 既有照片：刪除 / 替換 / 復原（儲存時才生效） =====
+  const revokePhotoChange = (change: ExistingPhotoChange | undefined) => {
+    if (change?.action !== "replace") return;
+    try {
+      URL.revokeObjectURL(change.previewUrl);
+    } catch {
+      // ignore
+    }
+  };
+
+  const deleteEditPhoto = (itemId: string, path: string) => {
+    setEditPhotoChanges((prev) => {
+      revokePhotoChange(prev[path]);
+      return { ...prev, [path]: { itemId, action: "delete" } };
+    });
+  };
+
+  const replaceEditPhoto = async (itemId: string, path: string, file: File) => {
+    // 替換照片同樣讀取拍攝時間並檢查時效，避免以舊照片繞過禁止
+    const [accepted] = await screenEditPhotoAge([file]);
+    if (!accepted) return;
+    let previewUrl = "";
+    try {
+      previewUrl = URL.createObjectURL(file);
+    } catch {
+      return;
+    }
+    setEditPhotoChanges((prev) => {
+      revokePhotoChange(prev[path]);
+      return { ...prev, [path]: { itemId, action: "replace", file, previewUrl } };
+    });
+  };
+
+  const restoreEditPhoto = (path: string) => {
+    setEditPhotoChanges((prev) => {
+      if (!prev[path]) return prev;
+      revokePhotoChange(prev[path]);
+      const next = { ...prev };
+      delete next[path];
+      return next;
+    });
+  };
+
+  const clearEditPhotoChanges = () => {
+    setEditPhotoChanges((prev) => {
+      Object.values(prev).forEach(revokePhotoChange);
+      return {};
+    });
+  };
+
+  // ===== 照片標註：以標註後的照片取代本次新拍的照片，原圖另外保存 =====
+  const annotatingFile = annotating
+    ? (annotating.source === "home" ? newImageFiles : editImageFiles)[
+        annotating.itemId
+      ]?.[annotating.index]
+    : undefined;
+
+  const applyAnnotation = (annotated: File) => {
+    if (!annotating || !annotatingFile) return;
+    const { source, itemId, index } = annotating;
+    const originals = annotationOriginalsRef.current;
+    // 重複標註時仍指向最初的原圖
+    originals.set(annotated, originals.get(annotatingFile) ?? annotatingFile);
+
+    let previewUrl = "";
+    try {
+      previewUrl = URL.createObjectURL(annotated);
+    } catch {
+      // ignore
+    }
+    const setFiles = source === "home" ? setNewImageFiles : setEditImageFiles;
+    const setPreviews = source === "home" ? setImages : setEditImages;
+    setFiles((prev) => ({
+      ...prev,
+      [itemId]: (prev[itemId] || []).map((file, idx) =>
+        idx === index ? annotated : file
+      ),
+    }));
+    setPreviews((prev) => {
+      const list = [...(prev[itemId] || [])];
+      const old = list[index];
+      if (typeof old === "string" && old.startsWith("blob:")) {
+        try {
+          URL.revokeObjectURL(old);
+        } catch {
+          // ignore
+        }
+      }
+      list[index] = previewUrl;
+      return { ...prev, [itemId]: list };
+    });
+    setAnnotating(null);
+  };
+
+  const setHomeItemVerdict = (item: string, verdict: ItemVerdict) => {
+    if (verdict === "na" && !canMarkNA) return;
+    applyItemVerdict(item, verdict, setHomeNA, setHomeVerdicts);
+  };
+
+  const setEditItemVerdict = (item: string, verdict: ItemVerdict) => {
+    if (verdict === "na" && !canMarkNA) return;
+    applyItemVerdict(item, verdict, setEditNA, setEditVerdicts);
+  };
+
+  // 量測值變更：依規格自動判定合格 / 不合格，清空則回到未判定
+  const applyMeasurementInput = (
+    item: string,
+    raw: string,
+    spec: MeasurementSpec | undefined,
+    setInputs: React.Dispatch<React.SetStateAction<Record<string, string>>>,
+    setVerdict: (item: string, verdict: ItemVerdict) => void
+  ) => {
+    setInputs((prev) => {
+      const next = { ...prev };
+      if (raw) next[item] = raw;
+      else delete next[item];
+      return next;
+    });
+    if (!spec) return;
+    const value = parseMeasurementInput(raw, spec);
+    setVerdict(item, value === null ? "pending" : judgeMeasurement(value, spec));
+  };
+
+  const handleHomeMeasurementChange = (item: string, raw: string) =>
+    applyMeasurementInput(
+      item,
+      raw,
+      selectedProcObj?.specs?.[item],
+      setHomeMeasurements,
+      setHomeItemVerdict
+    );
+
+  const handleEditMeasurementChange = (item: string, raw: string) => {
+    const report = reports.find((r) => r.id === editingReportId);
+    applyMeasurementInput(
+      item,
+      raw,
+      report?.expected_specs?.[item],
+      setEditMeasurements,
+      setEditItemVerdict
+    );
+  };
+
+  // ===== 新增表單：確認儲存（寫入本機上傳佇列，背景上傳到 Storage + 寫 DB） =====
   const saveReport = async (): Promise<boolean> => {
     if (processStatus !== "ready") {
       const message =
@@ -610,7 +1144,11 @@ const editPreviewImages = useMemo(() => {
       alert(message);
       return false;
     }
-    const sn = serial.trim();
+    if (!canCreateReport) {
+      alert("目前帳號沒有建立報告的權限");
+      return false;
+    }
+    const sn = normalizeSerial(serial);
     if (!sn) {
       alert("請先輸入序號");
       return false;
@@ -619,147 +1157,149 @@ const editPreviewImages = useMemo(() => {
       alert("請先選擇型號與製程");
       return false;
     }
+    const serialError = validateSerial(sn, serialPattern);
+    if (serialError) {
+      alert(serialError);
+      return false;
+    }
 
     const expectedItems = selectedProcObj.items || [];
     if (expectedItems.length === 0) {
       alert("此製程尚未設定檢驗項目，無法建立檢驗紀錄");
       return false;
     }
-    const photoEntries = Object.entries(newImageFiles).filter(
-      ([, files]) => files.length > 0
+    const expectedIds = expectedItems.map((item) => item.id);
+    const expectedSpecs = Object.fromEntries(
+      expectedIds
+        .filter((itemId) => selectedProcObj.specs?.[itemId])
+        .map((itemId) => [itemId, selectedProcObj.specs![itemId]])
     );
-    const photoItemSet = new Set(photoEntries.map(([item]) => item));
-    const uploadItems = expectedItems.filter(
-      (item) => homeNA[item] || photoItemSet.has(item)
+    const { measurements, judged, invalidItems } = collectMeasurements(
+      expectedIds,
+      expectedSpecs,
+      homeMeasurements,
+      homeNA
     );
-    const uploadedImages: Record<string, ImageValue> = {};
-
-    // 產生表單 ID：製程代號-YYYYMMDDNNN（同日遞增）
-    const d = new Date();
-    const ymd = `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
-    const procCode = selectedProcObj.code;
-    const prefix = `${procCode}-${ymd}`;
-    const todaySeqs = reports
-      .map((r) => r.id)
-      .filter((rid): rid is string => !!rid && rid.startsWith(prefix))
-      .map((rid) => Number(rid.slice(-3)))
-      .filter((n) => Number.isFinite(n));
-    const next = todaySeqs.length > 0 ? Math.max(...todaySeqs) + 1 : 1;
-    const seq = String(next).padStart(3, "0");
-    const id = `${procCode}-${ymd}${seq}`;
-
-    pauseSingleLoginValidation();
-    try {
-      // --- 新增：初始化進度 ---
-      setUploadProgress(0);
-      let completedCount = 0;
-      const totalTasks =
-        photoEntries.reduce((total, [, files]) => total + files.length, 0) +
-        Object.keys(homeNA).filter((item) => homeNA[item]).length;
-      setUploadDoneCount(0);
-      setUploadTotalCount(totalTasks);
-
-      const failedUploads: { item: string; name: string }[] = [];
-      let addedCount = 0;
-      const uploadTasks = uploadItems.flatMap((item) => {
-        if (homeNA[item]) {
-          return [
-            async () => {
-              uploadedImages[item] = NA_SENTINEL;
-              completedCount++;
-              setUploadDoneCount(completedCount);
-              setUploadProgress(
-                Math.round((completedCount / Math.max(totalTasks, 1)) * 100)
-              );
-            },
-          ];
-        }
-
-        const files = newImageFiles[item] || [];
-        if (files.length === 0) return [];
+    if (invalidItems.length > 0) {
+      const names = invalidItems.map((itemId) =>
+        getItemName(expectedItems, itemId)
+      );
+      alert(`以下量測值格式錯誤，請重新輸入：\n${names.join("\n")}`);
+      return false;
+    }
+    const report: OutboxReport = {
+      serial: sn,
+      model: selectedModel,
+      process: selectedProcess,
+      edited_by: authUsername || "",
+      created_by: authUsername || "",
+      expected_items: expectedItems,
+      verdicts: Object.fromEntries(
+        expectedIds
+          .filter(
+            (itemId) =>
+              !homeNA[itemId] && (judged[itemId] || homeVerdicts[itemId])
+          )
+          .map((itemId) => [itemId, judged[itemId] || homeVerdicts[itemId]])
+      ),
+      expected_specs: expectedSpecs,
+      measurements,
+      process_id: selectedProcObj.id ?? null,
+      process_rev: selectedProcObj.rev ?? null,
+      reinspection_of: homeReinspectionOf,
+    };
 
-        uploadedImages[item] = [];
-        return files.map((file, fileIndex) => async () => {
-          try {
-            const path = await uploadImage(
-              selectedProcObj.code,
-              selectedModel,
-              sn,
-              id,
-              { item, procItems: expectedItems, photoIndex: fileIndex + 1 },
-              file
-            );
-            if (path) {
-              (uploadedImages[item] as string[]).push(path);
-              addedCount++;
-            } else {
-              failedUploads.push({ item, name: file.name });
-            }
-          } finally {
-            completedCount++;
-            setUploadDoneCount(completedCount);
-            setUploadProgress(
-              Math.round((completedCount / Math.max(totalTasks, 1)) * 100)
-            );
-          }
-        });
+    // 先寫入本機上傳佇列（離線也能儲存），表單編號與照片於背景上傳時決定
+    try {
+      await enqueueReport({
+        processCode: selectedProcObj.code,
+        report,
+        naItems: expectedIds.filter((itemId) => homeNA[itemId]),
+        files: newImageFiles,
+        originals: annotationOriginalsRef.current,
+        capturedAt: getCaptureTime,
+        watermark: selectedProcObj.watermark,
       });
+    } catch (e) {
+      console.error("寫入上傳佇列失敗：", e);
+      alert("無法儲存至本機，請確認瀏覽器儲存空間後再試。");
+      return false;
+    }
 
-      // 同時最多 6 張，其餘排隊
-      await runInBatches(uploadTasks, 6);
-      if (failedUploads.length > 0) {
-        const detail = failedUploads
-          .map(({ item, name }) => `${item} (${name || "未命名"})`)
-          .join("\n");
-        alert(`以下照片上傳失敗，請重新嘗試：\n${detail}`);
-        return false;
-      }
-
-      const report: Report = {
-        id,
-        serial: sn,
-        model: selectedModel,
-        process: selectedProcess,
-        edited_by: authUsername || "",
-        images: normalizeImagesMap(uploadedImages),
-        expected_items: expectedItems,
-      };
-
-      const res = await saveReportToDB(report);
-      if (!res.ok) {
-        console.error("saveReportToDB failed:", res);
-        alert(`寫入雲端失敗，請稍後再試。
+    alert(
+      isOnline
+        ? "已儲存至本機，正在背景上傳（可於上方上傳佇列查看進度）"
+        : "目前離線：已儲存至本機，恢復連線後將自動上傳"
+    );
+    await resetNewReportState();
+    await clearDraft();
+    return true;
+  };
 
-(${res.message})`);
-        return false;
-      }
-      await logAudit("upload_photo_batch", report.id, { addedCount });
+  // ===== 新增檢驗：重複報告檢查 =====
+  // 序號 / 型號 / 製程變更後，先前選擇的複檢連結不再適用
+  useEffect(() => {
+    setHomeReinspectionOf(null);
+  }, [serial, selectedModel, selectedProcess]);
+
+  const checkDuplicateReport = async () => {
+    if (homeReinspectionOf) return true;
+    const res = await fetchReportsForUnit(
+      selectedModel,
+      normalizeSerial(serial),
+      selectedProcess
+    );
+    // 查詢失敗（如離線）不阻擋建立報告
+    if (!res.ok || res.data.length === 0) return true;
+    setDuplicateReports(res.data);
+    return false;
+  };
 
-      // 寫入成功後：不做 optimistic append，改為重新從 DB 讀取（DB-only）
-      alert("儲存成功");
-      const freshReports = await fetchReportsFromDB();
-      setReports(freshReports);
-      await resetNewReportState();
-      await clearDraft();
-      return true;
-    } finally {
-      resumeSingleLoginValidation();
+  // 改為編輯既有報告：清除目前的新增資料，切到查看報告並展開該報告
+  const openDuplicateForEdit = async (report: Report) => {
+    const hasPhotos = Object.values(newImageFiles).some(
+      (files) => files.length > 0
+    );
+    if (
+      hasPhotos &&
+      !confirmDiscard("開啟既有報告後，目前新增的照片將會清除。\n確定要繼續嗎？")
+    ) {
+      return;
     }
+    setDuplicateReports(null);
+    await resetNewReportState();
+    await clearDraft();
+
+    const filters = {
+      ...EMPTY_REPORT_QUERY,
+      process: report.process,
+      model: report.model,
+    };
+    setSelectedProcessFilter(filters.process);
+    setSelectedModelFilter(filters.model);
+    setSelectedStatusFilter(filters.status);
+    setReportSearch(EMPTY_REPORT_SEARCH);
+    setPcSelectedKey(toUnitKey(report.model, report.serial));
+    setPage("reports");
+    await queryReports(filters);
+    setReports((prev) => mergeReportPages(prev, [report]));
+    beginEditReport(report.id, report);
   };
 
   const isReportEditDirty = (reportId: string | null) => {
     if (!reportId) return false;
     if (Object.values(editImageFiles).some((files) => files.length > 0))
       return true;
+    if (Object.keys(editPhotoChanges).length > 0) return true;
 
     const report = reports.find((rr) => rr.id === reportId);
     if (!report) {
       return Object.keys(editNA).length > 0;
     }
 
-    const expected = report.expected_items || [];
+    const expected = (report.expected_items || []).map((it) => it.id);
     const originalNA = new Set(
-      expected.filter((it) => isNAValue(report.images?.[it]))
+      expected.filter((id) => isNAValue(report.images?.[id]))
     );
     const currentNA = new Set(
       Object.keys(editNA).filter((key) => editNA[key])
@@ -770,7 +1310,19 @@ const editPreviewImages = useMemo(() => {
       if (!currentNA.has(item)) return true;
     }
 
-    return false;
+    return expected.some((item) => {
+      const original = getItemVerdict(report, item);
+      const current = editNA[item] ? "na" : editVerdicts[item] ?? "pending";
+      if (original !== current) return true;
+
+      const spec = report.expected_specs?.[item];
+      const originalValue = report.measurements?.[item];
+      const originalRaw =
+        spec && originalValue !== undefined
+          ? formatMeasurement(originalValue, spec)
+          : "";
+      return (editMeasurements[item] || "") !== originalRaw;
+    });
   };
 
   // ===== 查看報告：列表列點擊展開（只檢視，不等於編輯）=====
@@ -782,10 +1334,14 @@ const editPreviewImages = useMemo(() => {
         if (isReportEditDirty(id) && !confirmDiscard()) return prev;
 
         revokePreviewUrls(editImages);
+        void discardEditUploads();
+        clearEditPhotoChanges();
         setEditingReportId(null);
         setEditImages({});
         setEditImageFiles({});
         setEditNA({});
+        setEditVerdicts({});
+        setEditMeasurements({});
         setShowEditPreview(false);
         setEditPreviewIndex(0);
       }
@@ -793,8 +1349,17 @@ const editPreviewImages = useMemo(() => {
     });
   };
 
-  const beginEditReport = (id: string) => {
-    const report = reports.find((rr) => rr.id === id);
+  // report：尚未載入列表的報告（如從重複提示開啟）由呼叫端直接傳入
+  const beginEditReport = (
+    id: string,
+    report = reports.find((rr) => rr.id === id)
+  ) => {
+    if (report && !canEditReport(role, authUsername, report)) {
+      alert("目前帳號沒有編輯此報告的權限");
+      return;
+    }
+    void discardEditUploads();
+    clearEditPhotoChanges();
     setExpandedReportId(id);
     setEditingReportId(id);
     setEditImages({});
@@ -802,12 +1367,23 @@ const editPreviewImages = useMemo(() => {
     setShowEditPreview(false);
     setEditPreviewIndex(0);
 
-    // 初始化 N/A（從既有資料帶入）
+    // 初始化 N/A 與判定（從既有資料帶入）
     const nextNA: Record<string, boolean> = {};
-    (report?.expected_items || []).forEach((it) => {
-      if (isNAValue(report?.images?.[it])) nextNA[it] = true;
+    const nextVerdicts: Record<string, PassFail> = {};
+    (report?.expected_items || []).forEach(({ id: itemId }) => {
+      const verdict = getItemVerdict(report!, itemId);
+      if (verdict === "na") nextNA[itemId] = true;
+      if (verdict === "ok" || verdict === "ng") nextVerdicts[itemId] = verdict;
     });
     setEditNA(nextNA);
+    setEditVerdicts(nextVerdicts);
+
+    const nextMeasurements: Record<string, string> = {};
+    Object.entries(report?.measurements || {}).forEach(([it, value]) => {
+      const spec = report?.expected_specs?.[it];
+      if (spec) nextMeasurements[it] = formatMeasurement(value, spec);
+    });
+    setEditMeasurements(nextMeasurements);
   };
 
   const toggleEditReport = (id: string) => {
@@ -816,10 +1392,14 @@ const editPreviewImages = useMemo(() => {
 
       // 取消編輯：保留展開（回到檢視模式）
       revokePreviewUrls(editImages);
+      void discardEditUploads();
+      clearEditPhotoChanges();
       setEditingReportId(null);
       setEditImages({});
       setEditImageFiles({});
       setEditNA({});
+      setEditVerdicts({});
+      setEditMeasurements({});
       setShowEditPreview(false);
       setEditPreviewIndex(0);
       setExpandedReportId(id);
@@ -848,6 +1428,19 @@ const editPreviewImages = useMemo(() => {
     }
   };
 
+  // 放棄編輯：刪除已上傳但未寫入報告的照片，避免 Storage 殘留
+  const discardEditUploads = async () => {
+    const paths = [...editUploadedRef.current].flatMap(([file, path]) =>
+      annotationOriginalsRef.current.has(file)
+        ? [path, toOriginalPhotoPath(path)]
+        : [path]
+    );
+    editUploadedRef.current = new Map();
+    if (!(await removeImages(paths))) {
+      console.error("刪除未儲存的照片失敗：", paths);
+    }
+  };
+
   const resetNewReportState = async (alsoClearDraft = false) => {
     revokePreviewUrls(images);
     setSerial("");
@@ -856,6 +1449,10 @@ const editPreviewImages = useMemo(() => {
     setImages({});
     setNewImageFiles({});
     setHomeNA({});
+    setHomeStartedAt(null);
+    setHomeReinspectionOf(null);
+    setHomeVerdicts({});
+    setHomeMeasurements({});
     setPreviewIndex(0);
     setShowPreview(false);
     if (alsoClearDraft) {
@@ -865,10 +1462,14 @@ const editPreviewImages = useMemo(() => {
 
   const resetEditState = async (alsoClearDraft = false) => {
     revokePreviewUrls(editImages);
+    await discardEditUploads();
+    clearEditPhotoChanges();
     setEditingReportId(null);
     setEditImages({});
     setEditImageFiles({});
     setEditNA({});
+    setEditVerdicts({});
+    setEditMeasurements({});
     setShowEditPreview(false);
     setEditPreviewIndex(0);
     if (alsoClearDraft) {
@@ -879,6 +1480,10 @@ const editPreviewImages = useMemo(() => {
   const resetManageState = async (alsoClearDraft = false) => {
     setEditingIndex(null);
     setItems([]);
+    setItemSpecs({});
+    setProcessChangelog("");
+    setProcessWatermark(DEFAULT_WATERMARK);
+    setProcessPhotoAgePolicy(DEFAULT_PHOTO_AGE_POLICY);
     setNewProcName("");
     setNewProcCode("");
     setNewProcModel("");
@@ -893,7 +1498,7 @@ const editPreviewImages = useMemo(() => {
     sessionChecked,
     isLoggedIn,
     authUsername,
-    isAdmin,
+    role,
     idleLogoutMessage,
     login,
     handleLogout,
@@ -932,6 +1537,9 @@ const editPreviewImages = useMemo(() => {
     resetDraftTracking,
   } = useDrafts({
     isLoggedIn,
+    processes,
+    queryReports,
+    loadReport,
     authUsername,
     page,
     serial,
@@ -939,9 +1547,13 @@ const editPreviewImages = useMemo(() => {
     selectedProcess,
     newImageFiles,
     homeNA,
+    homeVerdicts,
+    homeMeasurements,
+    homeStartedAt,
     selectedProcessFilter,
     selectedModelFilter,
     selectedStatusFilter,
+    reportSearch,
     reportHasQueried,
     expandedReportId,
     pcSelectedKey,
@@ -949,6 +1561,8 @@ const editPreviewImages = useMemo(() => {
     editingReportId,
     editImageFiles,
     editNA,
+    editVerdicts,
+    editMeasurements,
     newProcName,
     newProcCode,
     newProcModel,
@@ -956,6 +1570,10 @@ const editPreviewImages = useMemo(() => {
     insertAfter,
     editingIndex,
     items,
+    itemSpecs,
+    processChangelog,
+    processWatermark,
+    processPhotoAgePolicy,
     setPage,
     setSerial,
     setSelectedModel,
@@ -963,15 +1581,21 @@ const editPreviewImages = useMemo(() => {
     setImages,
     setNewImageFiles,
     setHomeNA,
+    setHomeVerdicts,
+    setHomeMeasurements,
+    setHomeStartedAt,
     setSelectedProcessFilter,
     setSelectedModelFilter,
     setSelectedStatusFilter,
+    setReportSearch,
     setReportHasQueried,
     setPcSelectedKey,
     setQueryFilters,
     setEditImageFiles,
     setEditImages,
     setEditNA,
+    setEditVerdicts,
+    setEditMeasurements,
     setEditingReportId,
     setExpandedReportId,
     setNewProcName,
@@ -981,18 +1605,41 @@ const editPreviewImages = useMemo(() => {
     setInsertAfter,
     setEditingIndex,
     setItems,
+    setItemSpecs,
+    setProcessChangelog,
+    setProcessWatermark,
+    setProcessPhotoAgePolicy,
     resetNewReportState,
     resetEditState,
     resetManageState,
   });
 
+  const canCreateReport = can(role, "report.create");
+  const canMarkNA = can(role, "report.mark_na");
+  const canManageProcesses = can(role, "process.manage");
+  const canManageUsers = can(role, "user.manage");
+  const canViewAudit = can(role, "audit.view");
+
   draftCleanupRef.current = {
     clearDraft,
     clearPrompt: clearDraftPrompt,
     resetTracking: resetDraftTracking,
   };
 
-  // ===== 一進 APP：載入 processes + reports（登入後才執行） =====
+  const {
+    outboxEntries,
+    isOnline,
+    enqueueReport,
+    retryOutboxEntry,
+    discardOutbox,
+  } = useOutbox({
+    isLoggedIn,
+    authUsername,
+    // 背景上傳完成後重新從 DB 讀取最新報告
+    onUploaded: refreshLatestReports,
+  });
+
+  // ===== 一進 APP：載入 processes + 型號設定（登入後才執行） =====
   useEffect(() => {
     if (!isLoggedIn) return;
 
@@ -1000,34 +1647,25 @@ const editPreviewImages = useMemo(() => {
       // 1) 先載製程
       setProcessStatus("loading");
       setProcessError("");
-      const { data: procData, error: procErr } = await supabase
-        .from("processes")
-        .select("*")
-        .order("id", { ascending: true });
+      const procRes = await fetchProcessesFromDB();
 
-      if (procErr) {
-        console.error("讀取 processes 失敗：", procErr.message);
+      if (!procRes.ok) {
         setProcesses([]);
         setProcessStatus("error");
-        setProcessError(procErr.message);
-      } else if (procData && procData.length > 0) {
-        setProcesses(
-          procData.map((p: any) => ({
-            name: p.name,
-            code: p.code,
-            model: p.model,
-            items: p.items ? JSON.parse(p.items) : [],
-          }))
-        );
+        setProcessError(procRes.message);
+      } else if (procRes.data.length > 0) {
+        setProcesses(procRes.data);
         setProcessStatus("ready");
       } else {
         setProcesses([]);
         setProcessStatus("empty");
       }
 
-      // 2) 再載報告
-      const data = await fetchReportsFromDB();
-      setReports(data);
+      // 2) 型號設定（序號格式）：讀取失敗時不檢查序號格式
+      const modelRes = await fetchProductModelsFromDB();
+      setModelSettings(modelRes.ok ? modelRes.data : []);
+
+      // 報告改於「查看報告」查詢時分頁載入
     };
 
     init();
@@ -1035,8 +1673,10 @@ const editPreviewImages = useMemo(() => {
 
   // 管理製程：新增 / 移除項目
   const addItem = () => {
-    const val = newItem.trim();
-    if (!val) return;
+    const name = newItem.trim();
+    if (!name) return;
+    // 新項目配發固定 id：之後改名、調整順序都不影響既有照片與判定
+    const val: InspectionItem = { id: createItemId(), name };
 
     setItems((prev) => {
       const next = [...prev];
@@ -1076,37 +1716,54 @@ const editPreviewImages = useMemo(() => {
   };
 
   const removeItem = (index: number) => {
+    const removed = items[index];
     setItems((prev) => prev.filter((_, i) => i !== index));
+    if (removed !== undefined) {
+      setItemSpecs((prev) => {
+        if (!prev[removed.id]) return prev;
+        const next = { ...prev };
+        delete next[removed.id];
+        return next;
+      });
+    }
   };
 
+  // 改名只動顯示名稱，id 不變
   const updateItemName = (index: number, nextValue: string) => {
-    setItems((prev) => prev.map((item, i) => (i === index ? nextValue : item)));
+    setItems((prev) =>
+      prev.map((item, i) => (i === index ? { ...item, name: nextValue } : item))
+    );
+  };
+
+  // 設定 / 取消項目的量測規格（null 代表改回一般拍照項目）
+  const setItemSpec = (itemId: string, spec: MeasurementSpec | null) => {
+    setItemSpecs((prev) => {
+      const next = { ...prev };
+      if (spec) next[itemId] = spec;
+      else delete next[itemId];
+      return next;
+    });
   };
 
 
   const addProcess = async (proc: Process) => {
-    const { error } = await supabase.from("processes").insert({
-      name: proc.name,
-      code: proc.code,
-      model: proc.model,
-      items: JSON.stringify(proc.items),
-    });
-    if (error) {
-      console.error("新增製程失敗：", error.message);
+    const res = await createProcessInDB(
+      proc,
+      processChangelog.trim() || "初版建立"
+    );
+    if (!res.ok) {
       alert("新增製程失敗，請稍後再試");
-      return;
+      return false;
     }
-    setProcesses((prev) => [...prev, proc]);
+    setProcesses((prev) => [...prev, res.data]);
+    setProcessStatus("ready");
+    return true;
   };
 
   const removeProcess = async (proc: Process) => {
-    const { error } = await supabase
-      .from("processes")
-      .delete()
-      .match({ name: proc.name, code: proc.code, model: proc.model });
+    const { error } = await deleteProcessInDB(proc);
 
     if (error) {
-      console.error("刪除製程失敗：", error.message);
       alert("刪除製程失敗，請稍後再試");
       return;
     }
@@ -1115,13 +1772,38 @@ const editPreviewImages = useMemo(() => {
   };
 
 
+  // 管理製程：儲存型號的序號格式
+  const saveModelSerialPattern = async (model: string, pattern: string) => {
+    const trimmed = pattern.trim();
+    const patternError = validateSerialPattern(trimmed);
+    if (patternError) {
+      alert(patternError);
+      return false;
+    }
+    const res = await saveProductModelInDB(
+      { model, serial_pattern: trimmed },
+      authUsername || ""
+    );
+    if (!res.ok) {
+      alert(`儲存序號格式失敗：${res.message}`);
+      return false;
+    }
+    setModelSettings((prev) => [
+      ...prev.filter((m) => m.model !== model),
+      res.data,
+    ]);
+    return true;
+  };
+
   const cancelManageCreate = async () => {
     const hasDirty =
       newProcName.trim() ||
       newProcCode.trim() ||
       newProcModel.trim() ||
       newItem.trim() ||
-      items.length > 0;
+      items.length > 0 ||
+      processWatermark.enabled ||
+      processPhotoAgePolicy.mode !== "off";
     if (hasDirty && !confirmDiscard("確定要取消新增製程嗎？\n（已輸入的資料將會清除）")) return;
     await resetManageState();
     await clearDraft();
@@ -1132,54 +1814,101 @@ const editPreviewImages = useMemo(() => {
       alert("請輸入製程名稱、代號與產品型號");
       return;
     }
-    if (items.filter((item) => item.trim()).length === 0) {
+    if (items.filter((item) => item.name.trim()).length === 0) {
       alert("製程必須至少包含一個檢驗項目");
       return;
     }
+    const invalidSpecItems = items.filter((item) => {
+      const spec = itemSpecs[item.id];
+      return (
+        !!spec &&
+        spec.lower !== null &&
+        spec.upper !== null &&
+        spec.lower > spec.upper
+      );
+    });
+    if (invalidSpecItems.length > 0) {
+      alert(
+        `以下量測項目的下限大於上限：\n${invalidSpecItems
+          .map((item) => item.name)
+          .join("\n")}`
+      );
+      return;
+    }
+
+    if (processWatermark.enabled && processWatermark.fields.length === 0) {
+      alert("請至少勾選一個浮水印欄位，或取消浮水印");
+      return;
+    }
+
+    if (
+      processPhotoAgePolicy.mode !== "off" &&
+      !(processPhotoAgePolicy.maxHours > 0)
+    ) {
+      alert("照片時效的小時數必須大於 0");
+      return;
+    }
 
     const updatedProcess: Process = {
       name: newProcName.trim(),
       code: newProcCode.trim(),
       model: newProcModel.trim(),
       items: [...items],
+      specs: Object.fromEntries(
+        items
+          .filter((item) => itemSpecs[item.id])
+          .map((item) => [item.id, itemSpecs[item.id]])
+      ),
+      watermark: processWatermark,
+      photo_age_policy: processPhotoAgePolicy,
     };
 
     if (editingIndex !== null) {
       const original = processes[editingIndex];
-      const { error } = await supabase
-        .from("processes")
-        .update({
-          name: updatedProcess.name,
-          code: updatedProcess.code,
-          model: updatedProcess.model,
-          items: JSON.stringify(updatedProcess.items),
-        })
-        .match({
-          name: original.name,
-          code: original.code,
-          model: original.model,
-        });
+      // 既有版本不修改：內容有變動才建立新版本
+      if (isEmptyProcessDiff(diffProcessContent(original, updatedProcess))) {
+        alert("製程內容沒有變更");
+        return;
+      }
+      if (!processChangelog.trim()) {
+        alert("請輸入變更說明");
+        return;
+      }
 
-      if (error) {
-        console.error("更新製程失敗：", error.message);
-        alert("更新製程失敗，請稍後再試");
+      const res = await reviseProcessInDB(
+        original,
+        updatedProcess,
+        processChangelog.trim()
+      );
+
+      if (!res.ok) {
+        alert(
+          res.code === "stale"
+            ? "製程已被其他人更新，請重新整理後再編輯"
+            : "更新製程失敗，請稍後再試"
+        );
         return;
       }
 
       setProcesses((prev) => {
         const copy = [...prev];
-        copy[editingIndex] = updatedProcess;
+        copy[editingIndex] = res.data;
         return copy;
       });
       setEditingIndex(null);
     } else {
-      await addProcess(updatedProcess);
+      const ok = await addProcess(updatedProcess);
+      if (!ok) return;
     }
 
     setNewProcName("");
     setNewProcCode("");
     setNewProcModel("");
     setItems([]);
+    setItemSpecs({});
+    setProcessChangelog("");
+    setProcessWatermark(DEFAULT_WATERMARK);
+    setProcessPhotoAgePolicy(DEFAULT_PHOTO_AGE_POLICY);
   };
 
   const startEditingProcess = (index: number) => {
@@ -1188,6 +1917,10 @@ const editPreviewImages = useMemo(() => {
     setNewProcCode(proc.code);
     setNewProcModel(proc.model || "");
     setItems(proc.items || []);
+    setItemSpecs({ ...(proc.specs || {}) });
+    setProcessChangelog("");
+    setProcessWatermark(proc.watermark ?? DEFAULT_WATERMARK);
+    setProcessPhotoAgePolicy(proc.photo_age_policy ?? DEFAULT_PHOTO_AGE_POLICY);
     setEditingIndex(index);
   };
 
@@ -1222,7 +1955,7 @@ const editPreviewImages = useMemo(() => {
       >
       {/* 上方主選單 + 登出 */}
       <div className="flex justify-between items-center space-x-2">
-        <div className="flex space-x-2">
+        <div className="flex flex-wrap gap-2">
           <Button
             onClick={async () => {
               if (
@@ -1270,8 +2003,8 @@ const editPreviewImages = useMemo(() => {
 
           <Button
             onClick={() => setPage("manage")}
-            disabled={!isAdmin}
-            title={!isAdmin ? "僅限管理員帳號使用" : ""}
+            disabled={!canManageProcesses}
+            title={!canManageProcesses ? "僅限管理員帳號使用" : ""}
             className="h-14 px-3"
           >
 
@@ -1285,18 +2018,73 @@ const editPreviewImages = useMemo(() => {
 
 
           </Button>
+
+          <Button
+            onClick={() => {
+              setUnitTarget(null);
+              setPage("unit");
+            }}
+            className="h-14 px-3"
+          >
+            <div className="flex flex-col sm:flex-row items-center justify-center sm:justify-start gap-1 sm:gap-2">
+              <span className="text-xs sm:text-sm text-center sm:text-left leading-tight whitespace-nowrap">
+                機台履歷
+              </span>
+            </div>
+          </Button>
+
+          {canViewAudit && (
+            <Button onClick={() => setPage("audit")} className="h-14 px-3">
+              <div className="flex flex-col sm:flex-row items-center justify-center sm:justify-start gap-1 sm:gap-2">
+                <span className="text-xs sm:text-sm text-center sm:text-left leading-tight whitespace-nowrap">
+                  稽核紀錄
+                </span>
+              </div>
+            </Button>
+          )}
+
+          {canManageUsers && (
+            <Button onClick={() => setPage("users")} className="h-14 px-3">
+              <div className="flex flex-col sm:flex-row items-center justify-center sm:justify-start gap-1 sm:gap-2">
+                <span className="text-xs sm:text-sm text-center sm:text-left leading-tight whitespace-nowrap">
+                  帳號管理
+                </span>
+              </div>
+            </Button>
+          )}
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={async () => {
+              await handleLogout();
+            }}
+          >
+            登出
+          </Button>
+          <span className="text-xs text-slate-600 whitespace-nowrap">
+            {authUsername}（{role ? ROLE_LABEL[role] : "未設定角色"}）
+          </span>
         </div>
-        <Button
-          variant="secondary"
-          size="sm"
-          onClick={async () => {
-            await handleLogout();
-          }}
-        >
-          登出
-        </Button>
       </div>
 
+      {/* 上傳佇列：所有頁面皆顯示，直到報告寫入雲端 */}
+      <OutboxPanel
+        entries={outboxEntries}
+        isOnline={isOnline}
+        onRetry={(localId) => void retryOutboxEntry(localId)}
+        onDiscard={async (localId) => {
+          try {
+            await discardOutbox(localId);
+          } catch (e) {
+            console.error("捨棄上傳佇列失敗：", e);
+            alert("捨棄失敗，請稍後再試");
+          }
+        }}
+        Button={Button}
+      />
+
       {page === "home" && (
         <HomePage
           serial={serial}
@@ -1306,6 +2094,9 @@ const editPreviewImages = useMemo(() => {
           selectedProcess={selectedProcess}
           setSelectedProcess={setSelectedProcess}
           productModels={productModels}
+          serialPattern={serialPattern}
+          checkDuplicateReport={checkDuplicateReport}
+          reinspectionOf={homeReinspectionOf}
           filteredProcesses={filteredProcesses}
           selectedProcObj={selectedProcObj}
           processStatus={processStatus}
@@ -1316,6 +2107,12 @@ const editPreviewImages = useMemo(() => {
           setNewImageFiles={setNewImageFiles}
           homeNA={homeNA}
           setHomeNA={setHomeNA}
+          homeVerdicts={homeVerdicts}
+          setHomeVerdicts={setHomeVerdicts}
+          setHomeItemVerdict={setHomeItemVerdict}
+          homeMeasurements={homeMeasurements}
+          setHomeMeasurements={setHomeMeasurements}
+          handleHomeMeasurementChange={handleHomeMeasurementChange}
           handleCapture={handleCapture}
           clearNewItemPhotos={clearNewItemPhotos}
           resetNewReportState={resetNewReportState}
@@ -1325,6 +2122,8 @@ const editPreviewImages = useMemo(() => {
           Button={Button}
           Input={Input}
           StatusIcon={StatusIcon}
+          canCreate={canCreateReport}
+          canMarkNA={canMarkNA}
         />
       )}
 
@@ -1338,43 +2137,107 @@ const editPreviewImages = useMemo(() => {
           processError={processError}
           reports={reports}
           filteredReports={filteredReports}
+          unitReports={unitReports}
+          isUnitDataIncomplete={isUnitDataIncomplete}
           selectedProcessFilter={selectedProcessFilter}
           setSelectedProcessFilter={setSelectedProcessFilter}
           selectedModelFilter={selectedModelFilter}
           setSelectedModelFilter={setSelectedModelFilter}
           selectedStatusFilter={selectedStatusFilter}
           setSelectedStatusFilter={setSelectedStatusFilter}
+          reportSearch={reportSearch}
+          setReportSearch={setReportSearch}
           reportHasQueried={reportHasQueried}
-          setReportHasQueried={setReportHasQueried}
           pcSelectedKey={pcSelectedKey}
           setPcSelectedKey={setPcSelectedKey}
-          fetchReportsFromDB={fetchReportsFromDB}
-          setReports={setReports}
-          setQueryFilters={setQueryFilters}
+          queryReports={queryReports}
+          loadMoreReports={loadMoreReports}
+          hasMoreReports={reportCursor !== null}
+          isLoadingReports={isLoadingReports}
+          exportReportsPdf={exportReportsPdf}
+          downloadReportPhotosZip={downloadReportPhotosZip}
+          exportReportList={exportReportList}
+          exportReportMatrix={exportReportMatrix}
           expandedReportId={expandedReportId}
           toggleExpandReport={toggleExpandReport}
           editingReportId={editingReportId}
           toggleEditReport={toggleEditReport}
           editImages={editImages}
           editNA={editNA}
-          setEditNA={setEditNA}
+          editVerdicts={editVerdicts}
+          setEditItemVerdict={setEditItemVerdict}
+          editMeasurements={editMeasurements}
+          handleEditMeasurementChange={handleEditMeasurementChange}
           handleEditCapture={handleEditCapture}
           clearEditItemPhotos={clearEditItemPhotos}
+          editExistingPhotos={editSignedUrlMap}
+          editPhotoChanges={editPhotoChanges}
+          deleteEditPhoto={deleteEditPhoto}
+          replaceEditPhoto={replaceEditPhoto}
+          restoreEditPhoto={restoreEditPhoto}
+          getSignedImageUrl={getSignedImageUrl}
           setEditPreviewIndex={setEditPreviewIndex}
           setShowEditPreview={setShowEditPreview}
+          canEditReport={(report) => canEditReport(role, authUsername, report)}
+          canMarkNA={canMarkNA}
+          fetchReportTimeline={canViewAudit ? fetchReportTimeline : undefined}
+          openUnitPage={(model, serial) => {
+            setUnitTarget({ model, serial });
+            setPage("unit");
+          }}
           NA_SENTINEL={NA_SENTINEL}
         />
       )}
 
+      {page === "unit" && (
+        <UnitPage
+          Card={Card}
+          Button={Button}
+          Input={Input}
+          processes={processes}
+          initialUnit={unitTarget}
+          searchReportsBySerial={searchReportsBySerial}
+          getSignedImageUrl={getSignedImageUrl}
+        />
+      )}
+
+      {page === "audit" && (
+        <AuditPage
+          Card={Card}
+          Button={Button}
+          Input={Input}
+          canView={canViewAudit}
+          authUsername={authUsername}
+          fetchAuditLogs={fetchAuditLogs}
+        />
+      )}
+
+      {page === "users" && (
+        <UsersPage
+          Card={Card}
+          Button={Button}
+          Input={Input}
+          canManage={canManageUsers}
+          authUsername={authUsername}
+          fetchManagedUsers={fetchManagedUsers}
+          createManagedUser={createManagedUser}
+          setManagedUserRole={setManagedUserRole}
+          setManagedUserDisabled={setManagedUserDisabled}
+          resetManagedUserPassword={resetManagedUserPassword}
+        />
+      )}
+
       {page === "manage" && (
         <ManagePage
           Card={Card}
           Button={Button}
           Input={Input}
-          isAdmin={isAdmin}
+          canManage={canManageProcesses}
           authUsername={authUsername}
       
           processes={processes}
+          modelSettings={modelSettings}
+          saveModelSerialPattern={saveModelSerialPattern}
           processStatus={processStatus}
           processError={processError}
           newProcName={newProcName}
@@ -1391,6 +2254,15 @@ const editPreviewImages = useMemo(() => {
           insertAfter={insertAfter}
           setInsertAfter={setInsertAfter}
           items={items}
+          itemSpecs={itemSpecs}
+          setItemSpec={setItemSpec}
+          processWatermark={processWatermark}
+          setProcessWatermark={setProcessWatermark}
+          processPhotoAgePolicy={processPhotoAgePolicy}
+          setProcessPhotoAgePolicy={setProcessPhotoAgePolicy}
+          processChangelog={processChangelog}
+          setProcessChangelog={setProcessChangelog}
+          fetchProcessRevisions={fetchProcessRevisions}
       
           expandedProcessIndex={expandedProcessIndex}
           setExpandedProcessIndex={setExpandedProcessIndex}
@@ -1464,24 +2336,64 @@ const editPreviewImages = useMemo(() => {
 
               const safeIndex = Math.min(previewIndex, itemsList.length - 1);
               const currentItem = itemsList[safeIndex];
-              const currentImgs = currentItem ? images[currentItem] || [] : [];
-              const isNA = currentItem ? !!homeNA[currentItem] : false;
+              const currentId = currentItem?.id ?? "";
+              const currentImgs = currentId ? images[currentId] || [] : [];
+              const isNA = currentId ? !!homeNA[currentId] : false;
+              const verdict: ItemVerdict = isNA
+                ? "na"
+                : homeVerdicts[currentId] ?? "pending";
 
               return (
                 <div className="space-y-2 text-center">
-                  <p className="font-medium">{currentItem}</p>
+                  <p className="font-medium">{currentItem?.name}</p>
+                  <p
+                    className={`text-sm flex items-center justify-center gap-1 ${VERDICT_COLOR[verdict]}`}
+                  >
+                    <StatusIcon kind={verdict} className="w-4 h-4" />
+                    {VERDICT_LABEL[verdict]}
+                    {!isNA &&
+                      selectedProcObj?.specs?.[currentId] &&
+                      homeMeasurements[currentId] &&
+                      `｜量測值 ${homeMeasurements[currentId]} ${
+                        selectedProcObj.specs[currentId].unit
+                      }`}
+                  </p>
 
                   <div className="min-h-[50vh] flex items-center justify-center">
-                    {homeNA[currentItem] ? (
+                    {homeNA[currentId] ? (
                       <p className="text-slate-600 text-sm">N/A（不適用）</p>
                     ) : currentImgs.length > 0 ? (
                       <div className="grid gap-2 w-full max-h-[50vh] overflow-y-auto">
                         {currentImgs.map((img, imgIndex) => (
-                          <img
-                            key={`${currentItem}-${imgIndex}`}
-                            src={img}
-                            className="w-full max-h-[50vh] object-contain rounded border"
-                          />
+                          <div key={`${currentId}-${imgIndex}`} className="relative">
+                            <img
+                              src={img}
+                              className="w-full max-h-[50vh] object-contain rounded border cursor-zoom-in"
+                              onClick={() =>
+                                setLightbox({
+                                  source: "home",
+                                  itemIndex: safeIndex,
+                                  photoIndex: imgIndex,
+                                })
+                              }
+                            />
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="secondary"
+                              className="absolute right-1 top-1"
+                              disabled={isSavingNew}
+                              onClick={() =>
+                                setAnnotating({
+                                  source: "home",
+                                  itemId: currentId,
+                                  index: imgIndex,
+                                })
+                              }
+                            >
+                              ✏️ 標註
+                            </Button>
+                          </div>
                         ))}
                       </div>
                     ) : (
@@ -1525,22 +2437,6 @@ const editPreviewImages = useMemo(() => {
             {/* --- 這是替換後的內容，請確保包含最後的兩個 </div> --- */}
             <div className="pt-3 mt-3 border-t border-slate-200 bg-white pb-[env(safe-area-inset-bottom)]">
               
-              {/* ✨ 進度條顯示區 */}
-              {isSavingNew && (
-                <div className="mb-3 px-1">
-                  <div className="flex justify-between text-[10px] font-bold text-blue-600 mb-1">
-                    <span>圖片上傳中...</span>
-                    <span>{uploadDoneCount}/{uploadTotalCount}</span>
-                  </div>
-                  <div className="w-full bg-slate-100 rounded-full h-1.5 overflow-hidden border border-slate-200">
-                    <div 
-                      className="bg-blue-600 h-full transition-all duration-300 ease-out" 
-                      style={{ width: `${uploadProgress}%` }}
-                    ></div>
-                  </div>
-                </div>
-              )}
-
               <div className="flex gap-2">
                 <Button
                   className="flex-1"
@@ -1563,11 +2459,10 @@ const editPreviewImages = useMemo(() => {
                     } finally {
                       savingNewRef.current = false;
                       setIsSavingNew(false);
-                      setUploadProgress(0);
                     }
                   }}
                 >
-                  {isSavingNew ? `儲存中 ${uploadDoneCount}/${uploadTotalCount}` : "確認儲存"}
+                  {isSavingNew ? "儲存中..." : "確認儲存"}
                 </Button>
               </div>
             </div>
@@ -1590,23 +2485,70 @@ const editPreviewImages = useMemo(() => {
                 );
               }
               const safeIndex = Math.min(editPreviewIndex, itemsList.length - 1);
-              const item = itemsList[safeIndex];
+              const { id: itemId, name: itemName } = itemsList[safeIndex];
+              const verdict: ItemVerdict = editNA[itemId]
+                ? "na"
+                : editVerdicts[itemId] ?? "pending";
           
               return (
                 <div className="space-y-2 text-center">
-                  <p className="font-medium">{item}</p>
+                  <p className="font-medium">{itemName}</p>
+                  <p
+                    className={`text-sm flex items-center justify-center gap-1 ${VERDICT_COLOR[verdict]}`}
+                  >
+                    <StatusIcon kind={verdict} className="w-4 h-4" />
+                    {VERDICT_LABEL[verdict]}
+                    {!editNA[itemId] &&
+                      report.expected_specs?.[itemId] &&
+                      editMeasurements[itemId] &&
+                      `｜量測值 ${editMeasurements[itemId]} ${
+                        report.expected_specs[itemId].unit
+                      }`}
+                  </p>
                   <div className="min-h-[50vh] flex items-center justify-center">
-                    {editNA[item] ? (
+                    {editNA[itemId] ? (
                       <p className="text-slate-600 text-sm">N/A（不適用）</p>
                     ) : editPreviewImages.length > 0 ? (
                       <div className="grid gap-2 w-full max-h-[50vh] overflow-y-auto">
-                        {editPreviewImages.map((img, imgIndex) => (
-                          <img
-                            key={`${item}-${imgIndex}`}
-                            src={img}
-                            className="w-full max-h-[50vh] object-contain rounded border"
-                          />
-                        ))}
+                        {editPreviewImages.map((img, imgIndex) => {
+                          // 本次新拍的照片排在既有照片之後，只有新照片可標註
+                          const newIndex =
+                            imgIndex -
+                            (editPreviewImages.length -
+                              (editImages[itemId] || []).length);
+                          return (
+                            <div key={`${itemId}-${imgIndex}`} className="relative">
+                              <img
+                                src={img}
+                                className="w-full max-h-[50vh] object-contain rounded border cursor-zoom-in"
+                                onClick={() =>
+                                  setLightbox({
+                                    source: "edit",
+                                    itemIndex: safeIndex,
+                                    photoIndex: imgIndex,
+                                  })
+                                }
+                              />
+                              {newIndex >= 0 && !isSavingEdit && (
+                                <Button
+                                  type="button"
+                                  size="sm"
+                                  variant="secondary"
+                                  className="absolute right-1 top-1"
+                                  onClick={() =>
+                                    setAnnotating({
+                                      source: "edit",
+                                      itemId,
+                                      index: newIndex,
+                                    })
+                                  }
+                                >
+                                  ✏️ 標註
+                                </Button>
+                              )}
+                            </div>
+                          );
+                        })}
                       </div>
                     ) : (
                       <p className="text-red-500">尚未拍攝</p>
@@ -1684,51 +2626,94 @@ const editPreviewImages = useMemo(() => {
                     setEditingReportId(null);
                     return;
                   }
+                  if (!canEditReport(role, authUsername, report)) {
+                    alert("目前帳號沒有編輯此報告的權限");
+                    return;
+                  }
 
                   const expectedItems = report.expected_items || [];
+                  const expectedIds = expectedItems.map((item) => item.id);
+                  const { measurements, judged, invalidItems } =
+                    collectMeasurements(
+                      expectedIds,
+                      report.expected_specs || {},
+                      editMeasurements,
+                      editNA
+                    );
+                  if (invalidItems.length > 0) {
+                    const names = invalidItems.map((itemId) =>
+                      getItemName(expectedItems, itemId)
+                    );
+                    alert(`以下量測值格式錯誤，請重新輸入：\n${names.join("\n")}`);
+                    return;
+                  }
                   const normalizedReportImages = normalizeImagesMap(
                     report.images
                   );
-                  const uploadItems = expectedItems.filter((item) => {
-                    const wasNA = isNAValue(normalizedReportImages[item]);
-                    const isNA = !!editNA[item];
+                  const reportProcess = report.process_id
+                    ? processes.find((p) => p.id === report.process_id)
+                    : processes.find((p) => p.name === report.process);
+                  // 既有照片的刪除 / 替換（標成 N/A 的項目不處理，保留原圖）
+                  const photoChanges = Object.entries(editPhotoChanges).filter(
+                    ([path, change]) =>
+                      !editNA[change.itemId] &&
+                      normalizeImageValue(
+                        normalizedReportImages[change.itemId]
+                      ).includes(path)
+                  );
+                  const replaceCount = (itemId: string) =>
+                    photoChanges.filter(
+                      ([, change]) =>
+                        change.itemId === itemId && change.action === "replace"
+                    ).length;
+                  const uploadItems = expectedIds.filter((itemId) => {
+                    const wasNA = isNAValue(normalizedReportImages[itemId]);
+                    const isNA = !!editNA[itemId];
                     const hasNewFile =
-                      (editImageFiles[item] || []).length > 0;
+                      (editImageFiles[itemId] || []).length > 0;
+                    const hasPhotoChange = photoChanges.some(
+                      ([, change]) => change.itemId === itemId
+                    );
                     // 只計算「有變動」的項目：
                     // 1) 新拍照
                     // 2) NA 狀態有變（原本不是 NA，現在是 NA）
-                    return hasNewFile || (!wasNA && isNA);
+                    // 3) 刪除 / 替換既有照片
+                    return hasNewFile || hasPhotoChange || (!wasNA && isNA);
                   });
                   const uploadedImages: Record<string, ImageValue> = {};
-                  const failedUploads: { item: string; name: string }[] = [];
-                  expectedItems.forEach((item) => {
-                    if (editNA[item]) {
-                      uploadedImages[item] = NA_SENTINEL;
+                  const failedUploads: { itemId: string; name: string }[] = [];
+                  expectedIds.forEach((itemId) => {
+                    if (editNA[itemId]) {
+                      uploadedImages[itemId] = NA_SENTINEL;
                       return;
                     }
                     const existing = normalizeImageValue(
-                      normalizedReportImages[item]
+                      normalizedReportImages[itemId]
                     );
                     if (existing.length > 0) {
-                      uploadedImages[item] = [...existing];
+                      uploadedImages[itemId] = [...existing];
                     }
                   });
 
                   setUploadProgress(0);
                   let completedCount = 0;
-                  const totalTasks = uploadItems.reduce((total, item) => {
-                    if (editNA[item]) return total + 1;
-                    return total + (editImageFiles[item]?.length || 0);
+                  const totalTasks = uploadItems.reduce((total, itemId) => {
+                    if (editNA[itemId]) return total + 1;
+                    return (
+                      total +
+                      (editImageFiles[itemId]?.length || 0) +
+                      replaceCount(itemId)
+                    );
                   }, 0);
                   setUploadDoneCount(0);
                   setUploadTotalCount(totalTasks);
                   
                   let addedCount = 0;
-                  const uploadTasks = uploadItems.flatMap((item) => {
-                    if (editNA[item]) {
+                  const uploadTasks = uploadItems.flatMap((itemId) => {
+                    if (editNA[itemId]) {
                       return [
                         async () => {
-                          uploadedImages[item] = NA_SENTINEL;
+                          uploadedImages[itemId] = NA_SENTINEL;
                           completedCount++;
                           setUploadDoneCount(completedCount);
                           setUploadProgress(
@@ -1740,34 +2725,79 @@ const editPreviewImages = useMemo(() => {
                       ];
                     }
 
-                    const files = editImageFiles[item] || [];
-                    if (files.length === 0) return [];
-
-                    const existing = normalizeImageValue(uploadedImages[item]);
+                    const files = editImageFiles[itemId] || [];
+                    const existing = normalizeImageValue(uploadedImages[itemId]);
+                    // 刪除的照片先清成空字串（上傳完成後濾掉），替換的照片留在原位置等新路徑
+                    const replacements: { slot: number; file: File }[] = [];
+                    uploadedImages[itemId] = existing.map((path, slot) => {
+                      const change = editPhotoChanges[path];
+                      if (!change) return path;
+                      if (change.action === "replace") {
+                        replacements.push({ slot, file: change.file });
+                      }
+                      return "";
+                    });
+                    const uploads = [
+                      ...replacements,
+                      ...files.map((file) => ({ slot: -1, file })),
+                    ];
+                    if (uploads.length === 0) return [];
                     const baseIndex = existing.length;
-                    uploadedImages[item] = [...existing];
 
-                    return files.map((file, fileIndex) => async () => {
+                    const placePhoto = (slot: number, path: string) => {
+                      const list = uploadedImages[itemId] as string[];
+                      if (slot >= 0) list[slot] = path;
+                      else list.push(path);
+                    };
+
+                    return uploads.map(({ slot, file }, fileIndex) => async () => {
+                      // 上次儲存已上傳成功：沿用路徑，不重傳
+                      const uploadedPath = editUploadedRef.current.get(file);
+                      if (uploadedPath) {
+                        placePhoto(slot, uploadedPath);
+                        addedCount++;
+                        completedCount++;
+                        setUploadDoneCount(completedCount);
+                        setUploadProgress(
+                          Math.round(
+                            (completedCount / Math.max(totalTasks, 1)) * 100
+                          )
+                        );
+                        return;
+                      }
                       try {
+                        const original = annotationOriginalsRef.current.get(file);
+                        const watermark = buildWatermarkSegments(
+                          reportProcess?.watermark,
+                          {
+                            report_id: report.id,
+                            serial: report.serial,
+                            model: report.model,
+                            item: getItemName(expectedItems, itemId),
+                            inspector: authUsername || "",
+                            captured_at: formatCaptureTime(getCaptureTime(file)),
+                          }
+                        );
                         const url = await uploadImage(
-                          processes.find((p) => p.name === report.process)
-                            ?.code || report.process,
+                          reportProcess?.code || report.process,
                           report.model,
                           report.serial,
                           report.id,
                           {
-                            item,
-                            procItems: expectedItems,
+                            itemId,
                             photoIndex: baseIndex + fileIndex + 1,
+                            watermark,
                           },
-                          file
+                          file,
+                          original
                         );
 
                         if (url) {
-                          (uploadedImages[item] as string[]).push(url);
+                          editUploadedRef.current.set(file, url);
+                          placePhoto(slot, url);
                           addedCount++;
                         } else {
-                          failedUploads.push({ item, name: file.name });
+                          failedUploads.push({ itemId, name: file.name });
                         }
                       } finally {
                         completedCount++;
@@ -1784,37 +2814,88 @@ const editPreviewImages = useMemo(() => {
                   await runInBatches(uploadTasks, 6);
                   if (failedUploads.length > 0) {
                     const detail = failedUploads
-                      .map(({ item, name }) => `${item} (${name || "未命名"})`)
+                      .map(
+                        ({ itemId, name }) =>
+                          `${getItemName(expectedItems, itemId)} (${name || "未命名"})`
+                      )
                       .join("\n");
-                    alert(`以下照片上傳失敗，請重新嘗試：\n${detail}`);
+                    alert(
+                      `以下照片上傳失敗：\n${detail}\n\n已上傳的照片會保留，再按一次「確認儲存」只會重傳失敗的照片。`
+                    );
                     return;
                   }
 
                   // N/A：寫入 sentinel；若從 N/A 切回一般且未重新拍照，則保留原圖（若原本是 N/A 則變回未拍）
-                  expectedItems.forEach((it) => {
-                    if (editNA[it]) {
-                      uploadedImages[it] = NA_SENTINEL;
+                  expectedIds.forEach((itemId) => {
+                    if (editNA[itemId]) {
+                      uploadedImages[itemId] = NA_SENTINEL;
                       return;
                     }
                     // 若原本是 N/A，且現在已取消 N/A 但沒有新圖，視為未拍
-                    if (uploadedImages[it] === NA_SENTINEL) {
-                      delete uploadedImages[it];
+                    if (uploadedImages[itemId] === NA_SENTINEL) {
+                      delete uploadedImages[itemId];
+                      return;
                     }
+                    // 濾掉已刪除的照片；全部刪光則視為未拍
+                    const kept = normalizeImageValue(uploadedImages[itemId]).filter(
+                      Boolean
+                    );
+                    if (kept.length > 0) uploadedImages[itemId] = kept;
+                    else delete uploadedImages[itemId];
+                  });
+
+                  // 照片附加資訊：只保留報告仍引用的照片，加入本次上傳照片的拍攝時間與標註原圖
+                  const finalImages = normalizeImagesMap(uploadedImages);
+                  const finalPaths = new Set(
+                    Object.values(finalImages).flatMap(normalizeImageValue)
+                  );
+                  const photoMeta = Object.fromEntries(
+                    Object.entries(report.photo_meta || {}).filter(([path]) =>
+                      finalPaths.has(path)
+                    )
+                  );
+                  editUploadedRef.current.forEach((path, file) => {
+                    if (!finalPaths.has(path)) return;
+                    photoMeta[path] = {
+                      ...(annotationOriginalsRef.current.has(file)
+                        ? { original: toOriginalPhotoPath(path) }
+                        : {}),
+                      captured_at: new Date(getCaptureTime(file)).toISOString(),
+                    };
                   });
 
                   const updated: Report = {
                     ...report,
-                    images: normalizeImagesMap(uploadedImages),
+                    images: finalImages,
+                    photo_meta: photoMeta,
                     expected_items: expectedItems,
                     edited_by: authUsername || "",
+                    verdicts: Object.fromEntries(
+                      expectedIds
+                        .filter(
+                          (itemId) =>
+                            !editNA[itemId] &&
+                            (judged[itemId] || editVerdicts[itemId])
+                        )
+                        .map((itemId) => [
+                          itemId,
+                          judged[itemId] || editVerdicts[itemId],
+                        ])
+                    ),
+                    measurements,
                   };
 
-                  const { error: updateErr } = await updateReportInDB(updated);
+                  const { error: updateErr } = await updateReportInDB(
+                    updated,
+                    report
+                  );
 
                   if (updateErr) {
                     console.error("更新 reports 失敗：", updateErr.message);
                     alert(
-                      "更新雲端失敗，請稍後再試。\n\n（為避免資料不一致，本次變更未寫入雲端）"
+                      updateErr.code === "no_rows"
+                        ? "無法更新此報告（沒有編輯權限或報告已被刪除），本次變更未寫入雲端。"
+                        : "更新雲端失敗，請稍後再試。\n\n（為避免資料不一致，本次變更未寫入雲端）"
                     );
                     return;
                   }
@@ -1823,6 +2904,47 @@ const editPreviewImages = useMemo(() => {
                       addedCount,
                     });
                   }
+                  if (photoChanges.length > 0) {
+                    // 報告已不再引用：移到垃圾桶（軟刪除）並留下紀錄
+                    // 標註照片的原圖一併移除
+                    const moved = await softDeleteImages(
+                      photoChanges.flatMap(([path]) => {
+                        const original = report.photo_meta?.[path]?.original;
+                        return original ? [path, original] : [path];
+                      })
+                    );
+                    const failedMoves = moved.filter(({ to }) => !to);
+                    if (failedMoves.length > 0) {
+                      console.error(
+                        "移除照片失敗：",
+                        failedMoves.map(({ from }) => from)
+                      );
+                    }
+                    await logAudit("photo_delete", updated.id, {
+                      photos: moved
+                        .filter(({ from }) => editPhotoChanges[from])
+                        .map(({ from, to }) => ({
+                          itemId: editPhotoChanges[from].itemId,
+                          from,
+                          to,
+                        })),
+                      replaced: photoChanges.filter(
+                        ([, change]) => change.action === "replace"
+                      ).length,
+                    });
+                  }
+                  clearEditPhotoChanges();
+
+                  // 已寫入報告的照片不再視為殘留；其餘（如重試前被移除的照片）一併刪除
+                  const savedPaths = new Set(
+                    Object.values(updated.images || {}).flatMap(normalizeImageValue)
+                  );
+                  editUploadedRef.current = new Map(
+                    [...editUploadedRef.current].filter(
+                      ([, path]) => !savedPaths.has(path)
+                    )
+                  );
+                  await discardEditUploads();
 
                   // 更新成功後再更新前端
                   setReports((prev) =>
@@ -1849,6 +2971,63 @@ const editPreviewImages = useMemo(() => {
         </div>
       )}
 
+      {/* 預覽照片全螢幕檢視 */}
+      {lightbox && (lightbox.source === "home" ? showPreview : showEditPreview) && (
+        <PhotoLightbox
+          items={
+            lightbox.source === "home"
+              ? (selectedProcObj?.items || []).map(({ id, name }) => ({
+                  id,
+                  name,
+                  photos: homeNA[id] ? [] : images[id] || [],
+                  captions: (newImageFiles[id] || []).map((file) =>
+                    describeCapturedAt(getCaptureTime(file))
+                  ),
+                  emptyText: homeNA[id] ? "N/A（不適用）" : undefined,
+                }))
+              : (
+                  reports.find((rr) => rr.id === editingReportId)
+                    ?.expected_items || []
+                ).map(({ id, name }) => ({
+                  id,
+                  name,
+                  photos: editNA[id] ? [] : getEditItemPreviews(id),
+                  captions: editNA[id] ? [] : getEditItemCaptions(id),
+                  emptyText: editNA[id] ? "N/A（不適用）" : undefined,
+                }))
+          }
+          initialItemIndex={lightbox.itemIndex}
+          initialPhotoIndex={lightbox.photoIndex}
+          onClose={() => setLightbox(null)}
+        />
+      )}
+
+      {/* 預覽照片標註 */}
+      {annotatingFile && (
+        <PhotoAnnotator
+          file={annotatingFile}
+          onSave={applyAnnotation}
+          onCancel={() => setAnnotating(null)}
+        />
+      )}
+
+      {/* 新增檢驗：重複報告提示 */}
+      {duplicateReports && (
+        <DuplicateReportModal
+          reports={duplicateReports}
+          canEdit={(report) => canEditReport(role, authUsername, report)}
+          onEdit={openDuplicateForEdit}
+          onReinspect={(report) => {
+            setDuplicateReports(null);
+            setHomeReinspectionOf(report.id);
+            setPreviewIndex(0);
+            setShowPreview(true);
+          }}
+          onCancel={() => setDuplicateReports(null)}
+          Button={Button}
+        />
+      )}
+
       {/* 刪除確認 Modal */}
       {confirmTarget && (
         <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
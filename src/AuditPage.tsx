@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from "react";
+import {
+  AUDIT_LOG_LIMIT,
+  type AuditAction,
+  type AuditLogEntry,
+  type AuditLogFilters,
+} from "./services/auditService";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABEL,
+  describeAuditMeta,
+} from "./utils/auditUtils";
+
+type ButtonComponent = React.ComponentType<
+  React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    variant?: string;
+    size?: string;
+    className?: string;
+  }
+>;
+
+type InputComponent = React.ComponentType<
+  React.InputHTMLAttributes<HTMLInputElement> & { className?: string }
+>;
+
+type CardComponent = React.ComponentType<
+  React.HTMLAttributes<HTMLDivElement> & { className?: string }
+>;
+
+type AuditPageProps = {
+  Card: CardComponent;
+  Button: ButtonComponent;
+  Input: InputComponent;
+  canView: boolean;
+  authUsername: string;
+  fetchAuditLogs: (filters: AuditLogFilters) => Promise<AuditLogEntry[] | null>;
+};
+
+// 本機日期 YYYY-MM-DD（input type="date" 的格式）
+const toDateInput = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+// 預設查詢最近 7 天
+const defaultFilters = (): AuditLogFilters => {
+  const today = new Date();
+  const from = new Date(today);
+  from.setDate(from.getDate() - 6);
+  return {
+    username: "",
+    action: "",
+    reportId: "",
+    dateFrom: toDateInput(from),
+    dateTo: toDateInput(today),
+  };
+};
+
+export default function AuditPage({
+  Card,
+  Button,
+  Input,
+  canView,
+  authUsername,
+  fetchAuditLogs,
+}: AuditPageProps) {
+  const [filters, setFilters] = useState<AuditLogFilters>(defaultFilters);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [status, setStatus] = useState<"idle" | "loading" | "ready" | "error">(
+    "idle"
+  );
+
+  const runQuery = async (next: AuditLogFilters) => {
+    if (next.dateFrom && next.dateTo && next.dateFrom > next.dateTo) {
+      alert("起始日期不可晚於結束日期");
+      return;
+    }
+    setStatus("loading");
+    const list = await fetchAuditLogs(next);
+    if (!list) {
+      setStatus("error");
+      return;
+    }
+    setEntries(list);
+    setStatus("ready");
+  };
+
+  useEffect(() => {
+    if (!canView) return;
+    void runQuery(filters);
+  }, [canView]);
+
+  if (!canView) {
+    return (
+      <Card className="p-4 space-y-3">
+        <h2 className="text-xl font-bold text-slate-900">稽核紀錄</h2>
+        <p className="text-red-600">此頁僅限組長、品保與管理員使用。</p>
+        <p className="text-sm text-slate-600">
+          目前登入：{authUsername || "未知"}
+        </p>
+      </Card>
+    );
+  }
+
+  const updateFilter = <K extends keyof AuditLogFilters>(
+    key: K,
+    value: AuditLogFilters[K]
+  ) => setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const inputClass =
+    "border-slate-200 text-slate-900 placeholder:text-slate-400 focus-visible:border-blue-500";
+  const selectClass =
+    "w-full border border-slate-200 bg-white text-slate-900 p-2 rounded h-9 focus-visible:outline-none focus-visible:border-blue-500";
+
+  return (
+    <Card className="p-4 space-y-4">
+      <h2 className="text-xl font-bold text-slate-900">稽核紀錄</h2>
+
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          void runQuery(filters);
+        }}
+      >
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            className={inputClass}
+            placeholder="帳號"
+            value={filters.username ?? ""}
+            autoCapitalize="none"
+            onChange={(e) => updateFilter("username", e.target.value)}
+          />
+          <select
+            className={selectClass}
+            value={filters.action ?? ""}
+            onChange={(e) =>
+              updateFilter("action", e.target.value as AuditAction | "")
+            }
+          >
+            <option value="">全部動作</option>
+            {AUDIT_ACTIONS.map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTION_LABEL[action]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Input
+          className={inputClass}
+          placeholder="表單編號（可輸入部分）"
+          value={filters.reportId ?? ""}
+          onChange={(e) => updateFilter("reportId", e.target.value)}
+        />
+        <div className="flex items-center gap-2 text-sm">
+          <Input
+            type="date"
+            className={inputClass}
+            value={filters.dateFrom ?? ""}
+            onChange={(e) => updateFilter("dateFrom", e.target.value)}
+          />
+          <span className="text-slate-500">至</span>
+          <Input
+            type="date"
+            className={inputClass}
+            value={filters.dateTo ?? ""}
+            onChange={(e) => updateFilter("dateTo", e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" className="flex-1" disabled={status === "loading"}>
+            {status === "loading" ? "查詢中..." : "查詢"}
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => {
+              const next = defaultFilters();
+              setFilters(next);
+              void runQuery(next);
+            }}
+          >
+            清除條件
+          </Button>
+        </div>
+      </form>
+
+      {status === "error" && (
+        <div className="rounded border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          稽核紀錄載入失敗，請稍後再試。
+        </div>
+      )}
+
+      {status === "ready" && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-500">
+            共 {entries.length} 筆
+            {entries.length >= AUDIT_LOG_LIMIT &&
+              `（僅顯示最新 ${AUDIT_LOG_LIMIT} 筆，請縮小查詢條件）`}
+          </p>
+          {entries.length === 0 && (
+            <p className="text-sm text-slate-500">查無符合條件的紀錄</p>
+          )}
+          {entries.map((entry) => {
+            const detail = describeAuditMeta(entry);
+            return (
+              <div
+                key={entry.id}
+                className="rounded border border-slate-200 bg-white px-3 py-2 text-sm"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-slate-800">
+                    {AUDIT_ACTION_LABEL[entry.action] ?? entry.action}
+                  </span>
+                  <span className="text-xs tabular-nums text-slate-500">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <div className="text-xs text-slate-600">
+                  {entry.username || "未知帳號"}
+                  {entry.report_id && `｜${entry.report_id}`}
+                  {detail && `｜${detail}`}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,6 +1,9 @@
-import React from "react";
-import type { Process } from "./types";
+import React, { useState } from "react";
+import type { ItemVerdict, PassFail, Process } from "./types";
 import InspectionItemsEditor from "./components/InspectionItemsEditor";
+import BarcodeScanner from "./components/BarcodeScanner";
+import { parseSerialLabel } from "./utils/serialLabelUtils";
+import { normalizeSerial, validateSerial } from "./utils/serialPatternUtils";
 
 type ButtonComponent = React.ComponentType<
   React.ButtonHTMLAttributes<HTMLButtonElement> & {
@@ -19,7 +22,7 @@ type CardComponent = React.ComponentType<
 >;
 
 type StatusIconComponent = React.ComponentType<{
-  kind: "ok" | "ng" | "na";
+  kind: ItemVerdict;
   className?: string;
   title?: string;
 }>;
@@ -32,6 +35,12 @@ type HomePageProps = {
   selectedProcess: string;
   setSelectedProcess: React.Dispatch<React.SetStateAction<string>>;
   productModels: string[];
+  // 目前型號的序號格式（空字串表示不檢查）
+  serialPattern: string;
+  // 開啟預覽前檢查同型號 + 序號 + 製程是否已有報告；回傳 false 表示已改由重複提示處理
+  checkDuplicateReport: () => Promise<boolean>;
+  // 已選擇建立複檢時的原報告 ID
+  reinspectionOf: string | null;
   filteredProcesses: Process[];
   selectedProcObj: Process | null;
   processStatus: "idle" | "loading" | "ready" | "empty" | "error";
@@ -44,8 +53,18 @@ type HomePageProps = {
   >;
   homeNA: Record<string, boolean>;
   setHomeNA: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
-  handleCapture: (item: string, files: FileList | File[] | undefined) => void;
-  clearNewItemPhotos: (item: string) => void;
+  homeVerdicts: Record<string, PassFail>;
+  setHomeVerdicts: React.Dispatch<
+    React.SetStateAction<Record<string, PassFail>>
+  >;
+  setHomeItemVerdict: (itemId: string, verdict: ItemVerdict) => void;
+  homeMeasurements: Record<string, string>;
+  setHomeMeasurements: React.Dispatch<
+    React.SetStateAction<Record<string, string>>
+  >;
+  handleHomeMeasurementChange: (itemId: string, raw: string) => void;
+  handleCapture: (itemId: string, files: FileList | File[] | undefined) => void;
+  clearNewItemPhotos: (itemId: string) => void;
   resetNewReportState: (shouldResetSerial?: boolean) => Promise<void>;
   setPreviewIndex: React.Dispatch<React.SetStateAction<number>>;
   setShowPreview: React.Dispatch<React.SetStateAction<boolean>>;
@@ -53,6 +72,9 @@ type HomePageProps = {
   Button: ButtonComponent;
   Input: InputComponent;
   StatusIcon: StatusIconComponent;
+  // 角色權限：可否建立報告、可否標記 N/A
+  canCreate: boolean;
+  canMarkNA: boolean;
 };
 
 export default function HomePage({
@@ -63,6 +85,9 @@ export default function HomePage({
   selectedProcess,
   setSelectedProcess,
   productModels,
+  serialPattern,
+  checkDuplicateReport,
+  reinspectionOf,
   filteredProcesses,
   selectedProcObj,
   processStatus,
@@ -73,6 +98,12 @@ export default function HomePage({
   setNewImageFiles,
   homeNA,
   setHomeNA,
+  homeVerdicts,
+  setHomeVerdicts,
+  setHomeItemVerdict,
+  homeMeasurements,
+  setHomeMeasurements,
+  handleHomeMeasurementChange,
   handleCapture,
   clearNewItemPhotos,
   resetNewReportState,
@@ -82,6 +113,8 @@ export default function HomePage({
   Button,
   Input,
   StatusIcon,
+  canCreate,
+  canMarkNA,
 }: HomePageProps) {
 
   const baseInputClass =
@@ -89,6 +122,8 @@ export default function HomePage({
   const errorInputClass = "border-rose-400";
   const baseSelectClass =
     "w-full border border-slate-200 bg-white text-slate-900 p-2 rounded focus-visible:outline-none focus-visible:border-blue-500";
+  const [isScanning, setIsScanning] = useState(false);
+  const serialError = validateSerial(normalizeSerial(serial), serialPattern);
   const isProcessReady = processStatus === "ready";
   const isProcessLoading = processStatus === "loading";
   const isProcessEmpty = processStatus === "empty";
@@ -101,6 +136,53 @@ export default function HomePage({
     ? "製程載入中，請稍候。"
     : "";
 
+  // 切換型號：製程與已填內容都屬於原型號，一併清除
+  const changeModel = (model: string) => {
+    setSelectedModel(model);
+    setSelectedProcess("");
+    setImages({});
+    setNewImageFiles({});
+    setHomeNA({});
+    setHomeVerdicts({});
+    setHomeMeasurements({});
+  };
+
+  // 掃描結果：填入序號；標籤帶有已知型號時一併選取
+  const handleScanResult = (text: string) => {
+    setIsScanning(false);
+    const label = parseSerialLabel(text, productModels);
+    if (!label) return;
+    setSerial(normalizeSerial(label.serial));
+    if (!label.model || label.model === selectedModel) return;
+
+    const hasFilled =
+      Object.values(newImageFiles).some((files) => files.length > 0) ||
+      Object.keys(homeNA).length > 0 ||
+      Object.keys(homeVerdicts).length > 0 ||
+      Object.keys(homeMeasurements).length > 0;
+    if (
+      hasFilled &&
+      !window.confirm(
+        `標籤型號為 ${label.model}，切換型號會清除目前已填的照片與判定。\n確定要切換嗎？`
+      )
+    ) {
+      return;
+    }
+    changeModel(label.model);
+  };
+
+  if (!canCreate) {
+    return (
+      <Card className="p-4 space-y-3">
+        <h2 className="text-xl font-bold text-slate-900">新增檢驗資料</h2>
+        <p className="text-red-600">目前帳號沒有建立報告的權限。</p>
+        <p className="text-sm text-slate-600">
+          如需建立報告，請洽管理員調整角色。
+        </p>
+      </Card>
+    );
+  }
+
   return (
     <Card className="p-4 space-y-4">
       <h2 className="text-xl font-bold text-slate-900">新增檢驗資料</h2>
@@ -116,8 +198,14 @@ export default function HomePage({
         </div>
       )}
 
+      {reinspectionOf && (
+        <div className="rounded border border-sky-200 bg-sky-50 px-3 py-2 text-sm text-sky-800">
+          複檢：將連結至原報告 {reinspectionOf}
+        </div>
+      )}
+
       <form
-        onSubmit={(e) => {
+        onSubmit={async (e) => {
           e.preventDefault();
           if (!isProcessReady) {
             alert(processMessage || "製程尚未就緒，請稍後再試。");
@@ -127,6 +215,11 @@ export default function HomePage({
             alert("請先輸入序號、選擇型號與製程");
             return;
           }
+          if (serialError) {
+            alert(serialError);
+            return;
+          }
+          if (!(await checkDuplicateReport())) return;
           setPreviewIndex(0);
           setShowPreview(true);
         }}
@@ -134,29 +227,35 @@ export default function HomePage({
       >
         <div className="space-y-1">
           <label className="text-sm font-medium text-slate-600">序號</label>
-          <Input
-            placeholder="輸入序號"
-            value={serial}
-            onChange={(e) => setSerial(e.target.value)}
-            disabled={!isProcessReady}
-            className={`${baseInputClass} ${
-              serial ? "" : errorInputClass
-            }`}
-          />
+          <div className="flex gap-2">
+            <Input
+              placeholder={serialPattern ? `輸入序號（${serialPattern}）` : "輸入序號"}
+              value={serial}
+              onChange={(e) => setSerial(e.target.value)}
+              disabled={!isProcessReady}
+              className={`flex-1 ${baseInputClass} ${
+                serial && !serialError ? "" : errorInputClass
+              }`}
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              className="shrink-0"
+              disabled={!isProcessReady}
+              onClick={() => setIsScanning(true)}
+            >
+              📷 掃描
+            </Button>
+          </div>
           {!serial && <p className="text-rose-600 text-sm">此欄位為必填</p>}
+          {serialError && <p className="text-rose-600 text-sm">{serialError}</p>}
         </div>
 
         <div className="space-y-1">
           <label className="text-sm font-medium text-slate-600">產品型號</label>
           <select
             value={selectedModel}
-            onChange={(e) => {
-              setSelectedModel(e.target.value);
-              setSelectedProcess("");
-              setImages({});
-              setNewImageFiles({});
-              setHomeNA({});
-            }}
+            onChange={(e) => changeModel(e.target.value)}
             disabled={!isProcessReady}
             className={`${baseSelectClass} ${
               selectedModel ? "" : errorInputClass
@@ -183,6 +282,8 @@ export default function HomePage({
               setImages({});
               setNewImageFiles({});
               setHomeNA({});
+              setHomeVerdicts({});
+              setHomeMeasurements({});
             }}
             disabled={!isProcessReady}
             className={`${baseSelectClass} ${
@@ -206,19 +307,17 @@ export default function HomePage({
             items={selectedProcObj.items}
             images={images}
             naState={homeNA}
-            onSetNA={(item) => setHomeNA((prev) => ({ ...prev, [item]: true }))}
-            onClearNA={(item) =>
-              setHomeNA((prev) => {
-                const next = { ...prev };
-                delete next[item];
-                return next;
-              })
-            }
+            verdicts={homeVerdicts}
+            onSetVerdict={setHomeItemVerdict}
+            specs={selectedProcObj.specs}
+            measurementInputs={homeMeasurements}
+            onMeasurementChange={handleHomeMeasurementChange}
             onCapture={handleCapture}
             onClearNewPhotos={clearNewItemPhotos}
             inputIdPrefix="home"
             Button={Button}
             StatusIcon={StatusIcon}
+            allowNA={canMarkNA}
           />
         )}
 
@@ -237,7 +336,9 @@ export default function HomePage({
                 selectedModel ||
                 selectedProcess ||
                 Object.values(newImageFiles).some((files) => files.length > 0) ||
-                Object.keys(homeNA).length > 0;
+                Object.keys(homeNA).length > 0 ||
+                Object.keys(homeVerdicts).length > 0 ||
+                Object.keys(homeMeasurements).length > 0;
               if (
                 hasDirty &&
                 !window.confirm(
@@ -253,6 +354,13 @@ export default function HomePage({
           </Button>
         </div>
       </form>
+
+      {isScanning && (
+        <BarcodeScanner
+          onResult={handleScanResult}
+          onCancel={() => setIsScanning(false)}
+        />
+      )}
     </Card>
   );
 }
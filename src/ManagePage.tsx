@@ -1,5 +1,26 @@
-import React from "react";
-import type { Process } from "./types";
+import React, { useEffect, useState } from "react";
+import type {
+  InspectionItem,
+  MeasurementSpec,
+  PhotoAgePolicy,
+  Process,
+  ProcessRevision,
+  ProductModel,
+  WatermarkConfig,
+} from "./types";
+import { describeSpec } from "./utils/measurementUtils";
+import {
+  WATERMARK_FIELDS,
+  WATERMARK_FIELD_LABEL,
+  describeWatermark,
+} from "./utils/watermarkUtils";
+import {
+  PHOTO_AGE_MODES,
+  PHOTO_AGE_MODE_LABEL,
+  describePhotoAgePolicy,
+} from "./utils/photoTimeUtils";
+import ModelSerialPatterns from "./components/ModelSerialPatterns";
+import { diffProcessContent, isEmptyProcessDiff } from "./utils/processDiff";
 
 type ButtonComponent = React.ComponentType<
   React.ButtonHTMLAttributes<HTMLButtonElement> & {
@@ -26,7 +47,7 @@ type ManagePageProps = {
   Card: CardComponent;
   Button: ButtonComponent;
   Input: InputComponent;
-  isAdmin: boolean;
+  canManage: boolean;
   authUsername: string;
   newProcName: string;
   setNewProcName: React.Dispatch<React.SetStateAction<string>>;
@@ -39,8 +60,20 @@ type ManagePageProps = {
   setNewItem: React.Dispatch<React.SetStateAction<string>>;
   insertAfter: string;
   setInsertAfter: React.Dispatch<React.SetStateAction<string>>;
-  items: string[];
+  items: InspectionItem[];
+  itemSpecs: Record<string, MeasurementSpec>;
+  setItemSpec: (itemId: string, spec: MeasurementSpec | null) => void;
+  processWatermark: WatermarkConfig;
+  setProcessWatermark: React.Dispatch<React.SetStateAction<WatermarkConfig>>;
+  processPhotoAgePolicy: PhotoAgePolicy;
+  setProcessPhotoAgePolicy: React.Dispatch<React.SetStateAction<PhotoAgePolicy>>;
+  processChangelog: string;
+  setProcessChangelog: React.Dispatch<React.SetStateAction<string>>;
+  fetchProcessRevisions: (processId: number) => Promise<ProcessRevision[]>;
   processes: Process[];
+  // 產品型號設定（序號格式）
+  modelSettings: ProductModel[];
+  saveModelSerialPattern: (model: string, pattern: string) => Promise<boolean>;
   processStatus: "idle" | "loading" | "ready" | "empty" | "error";
   processError: string;
   expandedProcessIndex: number | null;
@@ -57,11 +90,90 @@ type ManagePageProps = {
   resetManageState: (shouldResetFields?: boolean) => Promise<void>;
 };
 
+// 版本歷史：每個版本與前一版的差異
+function RevisionHistory({
+  revisions,
+}: {
+  revisions?: ProcessRevision[] | "loading";
+}) {
+  if (!revisions || revisions === "loading") {
+    return <div className="text-sm text-slate-500 mt-3">版本歷史載入中…</div>;
+  }
+  if (revisions.length === 0) {
+    return <div className="text-sm text-slate-500 mt-3">尚無版本紀錄</div>;
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="font-semibold">版本歷史</div>
+      {revisions.map((rev, idx) => {
+        const previous = revisions[idx + 1];
+        const diff = previous ? diffProcessContent(previous, rev) : null;
+        return (
+          <div
+            key={rev.rev}
+            className="bg-white border border-slate-200 rounded px-3 py-2 text-sm space-y-1"
+          >
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-medium">Rev {rev.rev}</span>
+              <span className="text-xs text-slate-500">
+                {new Date(rev.effective_at).toLocaleString()}
+                {rev.author ? `｜${rev.author}` : ""}
+              </span>
+            </div>
+            {rev.changelog && (
+              <div className="text-slate-700">{rev.changelog}</div>
+            )}
+            {!diff ? (
+              <div className="text-xs text-slate-500">
+                初始版本，共 {rev.items.length} 個項目
+              </div>
+            ) : isEmptyProcessDiff(diff) ? (
+              <div className="text-xs text-slate-500">內容與前一版相同</div>
+            ) : (
+              <ul className="text-xs space-y-0.5">
+                {diff.fields.map((f) => (
+                  <li key={f.label} className="text-slate-600">
+                    {f.label}：{f.from} → {f.to}
+                  </li>
+                ))}
+                {diff.added.map((item) => (
+                  <li key={`add-${item}`} className="text-green-700">
+                    ＋ {item}
+                  </li>
+                ))}
+                {diff.removed.map((item) => (
+                  <li key={`del-${item}`} className="text-rose-600 line-through">
+                    － {item}
+                  </li>
+                ))}
+                {diff.renamed.map((r) => (
+                  <li key={`ren-${r.from}-${r.to}`} className="text-slate-600">
+                    改名：{r.from} → {r.to}
+                  </li>
+                ))}
+                {diff.specChanged.map((c) => (
+                  <li key={`spec-${c.item}`} className="text-amber-700">
+                    {c.item}：{c.from} → {c.to}
+                  </li>
+                ))}
+                {diff.reordered && (
+                  <li className="text-slate-600">項目順序調整</li>
+                )}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function ManagePage({
   Card,
   Button,
   Input,
-  isAdmin,
+  canManage,
   authUsername,
   newProcName,
   setNewProcName,
@@ -75,7 +187,18 @@ export default function ManagePage({
   insertAfter,
   setInsertAfter,
   items,
+  itemSpecs,
+  setItemSpec,
+  processWatermark,
+  setProcessWatermark,
+  processPhotoAgePolicy,
+  setProcessPhotoAgePolicy,
+  processChangelog,
+  setProcessChangelog,
+  fetchProcessRevisions,
   processes,
+  modelSettings,
+  saveModelSerialPattern,
   processStatus,
   processError,
   expandedProcessIndex,
@@ -91,8 +214,30 @@ export default function ManagePage({
   confirmDiscard,
   resetManageState,
 }: ManagePageProps) {
+  // 展開製程時載入版本歷史（key 為 process id）
+  const [revisionsById, setRevisionsById] = useState<
+    Record<number, ProcessRevision[] | "loading">
+  >({});
 
-  if (!isAdmin) {
+  const expandedProcess =
+    expandedProcessIndex !== null ? processes[expandedProcessIndex] : null;
+  const expandedProcessId = expandedProcess?.id;
+  const expandedProcessRev = expandedProcess?.rev;
+
+  useEffect(() => {
+    if (!expandedProcessId) return;
+    let active = true;
+    setRevisionsById((prev) => ({ ...prev, [expandedProcessId]: "loading" }));
+    fetchProcessRevisions(expandedProcessId).then((list) => {
+      if (!active) return;
+      setRevisionsById((prev) => ({ ...prev, [expandedProcessId]: list }));
+    });
+    return () => {
+      active = false;
+    };
+  }, [expandedProcessId, expandedProcessRev]);
+
+  if (!canManage) {
     return (
       <Card className="p-4 space-y-3">
         <h2 className="text-xl font-bold text-slate-900">管理製程</h2>
@@ -127,13 +272,56 @@ export default function ManagePage({
 
     const originalItems = original.items || [];
     if (items.length !== originalItems.length) return true;
-    if (items.some((item, idx) => item !== originalItems[idx])) return true;
+    if (
+      items.some(
+        (item, idx) =>
+          item.id !== originalItems[idx].id ||
+          item.name !== originalItems[idx].name
+      )
+    ) {
+      return true;
+    }
+
+    const originalSpecs = original.specs || {};
+    if (
+      items.some(
+        (item) =>
+          JSON.stringify(itemSpecs[item.id] ?? null) !==
+          JSON.stringify(originalSpecs[item.id] ?? null)
+      )
+    ) {
+      return true;
+    }
+
+    if (
+      describeWatermark(processWatermark) !==
+      describeWatermark(original.watermark)
+    ) {
+      return true;
+    }
+
+    if (
+      describePhotoAgePolicy(processPhotoAgePolicy) !==
+      describePhotoAgePolicy(original.photo_age_policy)
+    ) {
+      return true;
+    }
 
     if (newItem.trim()) return true;
+    if (processChangelog.trim()) return true;
 
     return false;
   };
 
+  const parseLimit = (raw: string) => {
+    if (raw.trim() === "") return null;
+    const n = Number(raw);
+    return Number.isFinite(n) ? n : null;
+  };
+
+  const specInputClass =
+    "h-8 border-slate-200 text-slate-900 placeholder:text-slate-400 focus-visible:border-blue-500";
+
   return (
     <Card className="p-4 space-y-4">
       <h2 className="text-xl font-bold text-slate-900">管理製程</h2>
@@ -175,12 +363,106 @@ export default function ManagePage({
             className="border-slate-200 text-slate-900 placeholder:text-slate-400 focus-visible:border-blue-500"
           />
           {editingIndex !== null && (
-            <div className="text-xs text-slate-500">
-              ※ 目前為「編輯製程」模式，修改後請按「更新製程」
+            <>
+              <div className="text-xs text-slate-500">
+                ※ 目前為「編輯製程」模式（Rev {processes[editingIndex]?.rev ?? 1}
+                ），更新後會建立新版本，既有報告仍保留原版本項目
+              </div>
+              <Input
+                value={processChangelog}
+                placeholder="變更說明（必填，如：新增洩漏測試項目）"
+                onChange={(e) => setProcessChangelog(e.target.value)}
+                disabled={isProcessLocked}
+                className="border-slate-200 text-slate-900 placeholder:text-slate-400 focus-visible:border-blue-500"
+              />
+            </>
+          )}
+        </div>
+
+        <div className="border border-slate-200 rounded p-2 space-y-2 text-sm">
+          <label className="flex items-center gap-2 text-slate-700">
+            <input
+              type="checkbox"
+              checked={processWatermark.enabled}
+              disabled={isProcessLocked}
+              onChange={(e) =>
+                setProcessWatermark((prev) => ({
+                  ...prev,
+                  enabled: e.target.checked,
+                }))
+              }
+            />
+            照片浮水印（上傳時於照片下方加上資訊列）
+          </label>
+          {processWatermark.enabled && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-1 pl-6 text-slate-600">
+              {WATERMARK_FIELDS.map((field) => (
+                <label key={field} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={processWatermark.fields.includes(field)}
+                    disabled={isProcessLocked}
+                    onChange={(e) =>
+                      setProcessWatermark((prev) => ({
+                        ...prev,
+                        // 維持固定順序
+                        fields: WATERMARK_FIELDS.filter((f) =>
+                          f === field ? e.target.checked : prev.fields.includes(f)
+                        ),
+                      }))
+                    }
+                  />
+                  {WATERMARK_FIELD_LABEL[field]}
+                </label>
+              ))}
             </div>
           )}
         </div>
 
+        <div className="border border-slate-200 rounded p-2 space-y-2 text-sm">
+          <div className="text-slate-700">
+            照片時效（依 EXIF 拍攝時間，檢查是否為相簿中的舊照片）
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-slate-600">
+            <select
+              value={processPhotoAgePolicy.mode}
+              onChange={(e) =>
+                setProcessPhotoAgePolicy((prev) => ({
+                  ...prev,
+                  mode: e.target.value as PhotoAgePolicy["mode"],
+                }))
+              }
+              disabled={isProcessLocked}
+              className="border border-slate-200 bg-white text-slate-900 px-2 rounded h-8 text-sm focus-visible:outline-none focus-visible:border-blue-500"
+            >
+              {PHOTO_AGE_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {PHOTO_AGE_MODE_LABEL[mode]}
+                </option>
+              ))}
+            </select>
+            {processPhotoAgePolicy.mode !== "off" && (
+              <>
+                <span>早於開始填寫超過</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={processPhotoAgePolicy.maxHours || ""}
+                  onChange={(e) =>
+                    setProcessPhotoAgePolicy((prev) => ({
+                      ...prev,
+                      maxHours: Number(e.target.value),
+                    }))
+                  }
+                  disabled={isProcessLocked}
+                  className="w-20 h-8 border-slate-200 text-slate-900 focus-visible:border-blue-500"
+                />
+                <span>小時</span>
+              </>
+            )}
+          </div>
+        </div>
+
         <div className="space-y-2">
           <div className="flex w-full items-center gap-2">
             <Input
@@ -213,61 +495,136 @@ export default function ManagePage({
             >
               <option value="last">最後</option>
               {items.map((it, idx) => (
-                <option key={`${it}-${idx}`} value={String(idx)}>
-                  在「{it}」後
+                <option key={it.id} value={String(idx)}>
+                  在「{it.name}」後
                 </option>
               ))}
             </select>
           </div>
         </div>
 
-        {items.map((i, idx) => (
-          <div
-            key={idx}
-            className="border border-slate-200 p-2 rounded flex justify-between items-center"
-          >
-            <Input
-              value={i}
-              onChange={(e) => updateItemName(idx, e.target.value)}
-              disabled={isProcessLocked}
-              className="flex-1 h-9 border-slate-200 text-slate-900 placeholder:text-slate-400 focus-visible:border-blue-500"
-            />
+        {items.map((i, idx) => {
+          const spec = itemSpecs[i.id];
+          return (
+            <div
+              key={i.id}
+              className="border border-slate-200 p-2 rounded space-y-2"
+            >
+              <div className="flex justify-between items-center">
+                <Input
+                  value={i.name}
+                  onChange={(e) => updateItemName(idx, e.target.value)}
+                  disabled={isProcessLocked}
+                  className="flex-1 h-9 border-slate-200 text-slate-900 placeholder:text-slate-400 focus-visible:border-blue-500"
+                />
 
-            <div className="flex gap-2 ml-2">
-              <Button
-                type="button"
-                size="sm"
-                variant="secondary"
-                onClick={() => moveItemUp(idx)}
-                disabled={isProcessLocked || idx === 0}
-                title="上移"
-              >
-                ↑
-              </Button>
-
-              <Button
-                type="button"
-                size="sm"
-                variant="secondary"
-                onClick={() => moveItemDown(idx)}
-                disabled={isProcessLocked || idx === items.length - 1}
-                title="下移"
-              >
-                ↓
-              </Button>
-
-              <Button
-                variant="destructive"
-                size="sm"
-                type="button"
-                onClick={() => setConfirmTarget({ type: "item", index: idx })}
-                disabled={isProcessLocked}
-              >
-                刪除
-              </Button>
+                <div className="flex gap-2 ml-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => moveItemUp(idx)}
+                    disabled={isProcessLocked || idx === 0}
+                    title="上移"
+                  >
+                    ↑
+                  </Button>
+
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => moveItemDown(idx)}
+                    disabled={isProcessLocked || idx === items.length - 1}
+                    title="下移"
+                  >
+                    ↓
+                  </Button>
+
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    type="button"
+                    onClick={() => setConfirmTarget({ type: "item", index: idx })}
+                    disabled={isProcessLocked}
+                  >
+                    刪除
+                  </Button>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={!!spec}
+                  disabled={isProcessLocked || !i.name.trim()}
+                  onChange={(e) =>
+                    setItemSpec(
+                      i.id,
+                      e.target.checked
+                        ? { unit: "", lower: null, upper: null, precision: 1 }
+                        : null
+                    )
+                  }
+                />
+                量測項目（需輸入數值並自動判定）
+              </label>
+
+              {spec && (
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <Input
+                    value={spec.unit}
+                    placeholder="單位（如 bar）"
+                    onChange={(e) => setItemSpec(i.id, { ...spec, unit: e.target.value })}
+                    disabled={isProcessLocked}
+                    className={specInputClass}
+                  />
+                  <Input
+                    type="number"
+                    value={spec.lower ?? ""}
+                    placeholder="下限"
+                    onChange={(e) =>
+                      setItemSpec(i.id, { ...spec, lower: parseLimit(e.target.value) })
+                    }
+                    disabled={isProcessLocked}
+                    className={specInputClass}
+                  />
+                  <Input
+                    type="number"
+                    value={spec.upper ?? ""}
+                    placeholder="上限"
+                    onChange={(e) =>
+                      setItemSpec(i.id, { ...spec, upper: parseLimit(e.target.value) })
+                    }
+                    disabled={isProcessLocked}
+                    className={specInputClass}
+                  />
+                  <select
+                    value={spec.precision}
+                    onChange={(e) =>
+                      setItemSpec(i.id, { ...spec, precision: Number(e.target.value) })
+                    }
+                    disabled={isProcessLocked}
+                    className="border border-slate-200 bg-white text-slate-900 px-2 rounded h-8 text-sm focus-visible:outline-none focus-visible:border-blue-500"
+                  >
+                    {[0, 1, 2, 3, 4].map((n) => (
+                      <option key={n} value={n}>
+                        小數 {n} 位
+                      </option>
+                    ))}
+                  </select>
+                  {spec.lower !== null &&
+                    spec.upper !== null &&
+                    spec.lower > spec.upper && (
+                      <p className="col-span-2 sm:col-span-4 text-xs text-rose-600">
+                        下限不可大於上限
+                      </p>
+                    )}
+                </div>
+              )}
             </div>
-          </div>
-        ))}
+          );
+        })}
 
         <div className="flex gap-2">
           <Button
@@ -317,13 +674,14 @@ export default function ManagePage({
                 <th className="p-2">製程名稱</th>
                 <th className="p-2">製程代號</th>
                 <th className="p-2">產品型號</th>
+                <th className="p-2">版本</th>
                 <th className="p-2 w-24 sm:w-32">操作</th>
               </tr>
             </thead>
             <tbody>
               {processes.length === 0 ? (
                 <tr className="border-t border-slate-200">
-                  <td className="p-3 text-center text-slate-500" colSpan={4}>
+                  <td className="p-3 text-center text-slate-500" colSpan={5}>
                     {isProcessError
                       ? "無法讀取製程資料"
                       : "目前尚無製程資料"}
@@ -349,6 +707,7 @@ export default function ManagePage({
                         <td className="p-2 max-w-[10rem] truncate whitespace-nowrap sm:max-w-none">
                           {p.model || "—"}
                         </td>
+                        <td className="p-2 whitespace-nowrap">Rev {p.rev ?? 1}</td>
                         <td
                           className="p-2 w-24 sm:w-32"
                           onClick={(e) => e.stopPropagation()}
@@ -381,19 +740,24 @@ export default function ManagePage({
 
                       {isOpen && (
                         <tr className="border-t border-slate-200">
-                          <td className="p-0" colSpan={4}>
+                          <td className="p-0" colSpan={5}>
                             <div className="p-3 bg-slate-50">
                               <div className="font-semibold mb-2">
                                 檢驗項目
                               </div>
                               {p.items.length > 0 ? (
                                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
-                                  {p.items.map((item, iidx) => (
+                                  {p.items.map((item) => (
                                     <div
-                                      key={iidx}
+                                      key={item.id}
                                       className="bg-white border border-slate-200 rounded px-3 py-2"
                                     >
-                                      {item}
+                                      {item.name}
+                                      {p.specs?.[item.id] && (
+                                        <div className="text-xs text-slate-500">
+                                          量測：{describeSpec(p.specs[item.id])}
+                                        </div>
+                                      )}
                                     </div>
                                   ))}
                                 </div>
@@ -402,9 +766,20 @@ export default function ManagePage({
                                   尚未建立檢驗項目
                                 </div>
                               )}
+                              <div className="text-xs text-slate-500 mt-2">
+                                照片浮水印：{describeWatermark(p.watermark)}
+                              </div>
+                              <div className="text-xs text-slate-500">
+                                照片時效：{describePhotoAgePolicy(p.photo_age_policy)}
+                              </div>
                               <div className="text-xs text-slate-500 mt-2">
                                 ※ 若要修改此製程內容，請按上方「編輯」並於上方區塊更新後按「更新製程」
                               </div>
+                              {p.id !== undefined && (
+                                <RevisionHistory
+                                  revisions={revisionsById[p.id]}
+                                />
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -416,6 +791,17 @@ export default function ManagePage({
             </tbody>
           </table>
         </div>
+
+        <ModelSerialPatterns
+          models={Array.from(
+            new Set(processes.map((p) => p.model).filter(Boolean))
+          )}
+          modelSettings={modelSettings}
+          onSave={saveModelSerialPattern}
+          disabled={isProcessLocked}
+          Button={Button}
+          Input={Input}
+        />
       </div>
     </Card>
   );
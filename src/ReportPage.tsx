@@ -1,6 +1,39 @@
-import React, { useMemo } from "react";
-import type { Process, Report } from "./types";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  ExistingPhoto,
+  ExistingPhotoChange,
+  ItemVerdict,
+  PassFail,
+  Process,
+  Report,
+} from "./types";
+import type { ReportGroup, SheetFormat } from "./services/sheetExportService";
+import type { AuditLogEntry } from "./services/auditService";
 import InspectionItemsEditor from "./components/InspectionItemsEditor";
+import ReportTimeline from "./components/ReportTimeline";
+import PhotoLightbox from "./components/PhotoLightbox";
+import {
+  describeSpec,
+  formatMeasurement,
+  getOutOfSpecItems,
+  isWithinSpec,
+} from "./utils/measurementUtils";
+import { formatReportDate, pickLatestReport } from "./utils/dateUtils";
+import { isNAValue, normalizeImageValue } from "./utils/imageUtils";
+import { describeCapturedAt } from "./utils/photoTimeUtils";
+import {
+  EMPTY_REPORT_SEARCH,
+  type ReportQueryFilters,
+  type ReportSearchFields,
+} from "./utils/reportSearchUtils";
+import { toUnitKey } from "./utils/unitUtils";
+import {
+  REPORT_STATUS_LABEL,
+  VERDICT_COLOR,
+  getItemVerdict,
+  getReportStatus,
+  type ReportStatus,
+} from "./utils/verdictUtils";
 
 type Props = {
   Card: React.ComponentType<
@@ -14,7 +47,7 @@ type Props = {
     }
   >;
   StatusIcon: React.ComponentType<{
-    kind: "ok" | "ng" | "na";
+    kind: ItemVerdict;
     className?: string;
     title?: string;
   }>;
@@ -24,22 +57,43 @@ type Props = {
   processError: string;
   reports: Report[];
   filteredReports?: Report[];
+  // 型號序號總表用：清單中機台的所有符合條件報告（未傳入時同 filteredReports）
+  unitReports?: Report[];
+  // 補齊機台報告失敗或達上限，總表可能缺少部分製程
+  isUnitDataIncomplete?: boolean;
   selectedProcessFilter?: string;
   setSelectedProcessFilter?: React.Dispatch<React.SetStateAction<string>>;
   selectedModelFilter?: string;
   setSelectedModelFilter?: React.Dispatch<React.SetStateAction<string>>;
   selectedStatusFilter?: string;
   setSelectedStatusFilter?: React.Dispatch<React.SetStateAction<string>>;
-  setQueryFilters?: React.Dispatch<
-    React.SetStateAction<{ process: string; model: string; status: string }>
-  >;
+  reportSearch?: ReportSearchFields;
+  setReportSearch?: React.Dispatch<React.SetStateAction<ReportSearchFields>>;
   reportHasQueried?: boolean;
-  setReportHasQueried?: React.Dispatch<React.SetStateAction<boolean>>;
   pcSelectedKey?: string | null;
   setPcSelectedKey?: React.Dispatch<React.SetStateAction<string | null>>;
 
-  fetchReportsFromDB: () => Promise<Report[]>;
-  setReports: React.Dispatch<React.SetStateAction<Report[]>>;
+  // 報告由資料庫分頁載入：查詢重新載入第一頁，捲動到底再載入下一頁
+  queryReports: (filters: ReportQueryFilters) => Promise<boolean>;
+  loadMoreReports: () => Promise<void>;
+  hasMoreReports: boolean;
+  isLoadingReports: boolean;
+  exportReportsPdf: (reports: Report[], fileName: string) => Promise<boolean>;
+  downloadReportPhotosZip: (
+    reports: Report[],
+    zipName: string
+  ) => Promise<number>;
+  exportReportList: (
+    reports: Report[],
+    fileName: string,
+    format: SheetFormat
+  ) => Promise<boolean>;
+  exportReportMatrix: (
+    groups: ReportGroup[],
+    processOrder: string[],
+    fileName: string,
+    format: SheetFormat
+  ) => Promise<boolean>;
 
   expandedReportId: string | null;
   toggleExpandReport: (id: string) => void;
@@ -48,41 +102,117 @@ type Props = {
 
   editImages: Record<string, string[]>;
   editNA: Record<string, boolean>;
-  setEditNA: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
-  handleEditCapture: (item: string, files?: FileList | File[]) => void;
-  clearEditItemPhotos: (item: string) => void;
+  editVerdicts: Record<string, PassFail>;
+  setEditItemVerdict: (itemId: string, verdict: ItemVerdict) => void;
+  editMeasurements: Record<string, string>;
+  handleEditMeasurementChange: (itemId: string, raw: string) => void;
+  handleEditCapture: (itemId: string, files?: FileList | File[]) => void;
+  clearEditItemPhotos: (itemId: string) => void;
+  // 既有照片的刪除 / 替換（以 Storage 路徑為 key）
+  editExistingPhotos: Record<string, ExistingPhoto[]>;
+  editPhotoChanges: Record<string, ExistingPhotoChange>;
+  deleteEditPhoto: (itemId: string, path: string) => void;
+  replaceEditPhoto: (itemId: string, path: string, file: File) => void;
+  restoreEditPhoto: (path: string) => void;
 
   setEditPreviewIndex: React.Dispatch<React.SetStateAction<number>>;
   setShowEditPreview: React.Dispatch<React.SetStateAction<boolean>>;
 
+  // 角色權限：可否編輯該報告、可否標記 N/A
+  canEditReport: (report: Report) => boolean;
+  canMarkNA: boolean;
+  // 可查看稽核紀錄時才提供，用於報告歷程
+  fetchReportTimeline?: (reportId: string) => Promise<AuditLogEntry[] | null>;
+  // 檢視照片：Storage 路徑 → signed URL
+  getSignedImageUrl: (path: string) => Promise<string>;
+  // 開啟機台履歷（該機台所有報告）
+  openUnitPage?: (model: string, serial: string) => void;
+
   NA_SENTINEL: string;
 };
 
 const PROCESS_ORDER = ["水壓檢驗", "性能測試", "成品檢驗"];
 const PC_TABLE_PROCESS_ORDER = ["水壓檢驗", "安規測試", "性能測試", "成品檢驗"];
 
-const formatReportDate = (reportId?: string) => {
-  if (!reportId) return null;
-  const match = reportId.match(/-(\d{8})/);
-  if (!match) return null;
-  const raw = match[1];
-  const year = raw.slice(0, 4);
-  const month = raw.slice(4, 6);
-  const day = raw.slice(6, 8);
-  if (!year || !month || !day) return null;
-  return `${year}-${month}-${day}`;
+const REPORT_STATUS_COLOR: Record<ReportStatus, string> = {
+  done: "text-green-600",
+  not: "text-slate-600",
+  ng: "text-rose-600",
 };
 
-const isReportDone = (report: Report, naSentinel: string) => {
-  const expected = report.expected_items || [];
-  if (expected.length === 0) return false;
-  const hasItemImage = (item: string) => {
-    const value = report.images?.[item];
-    if (!value || value === naSentinel) return false;
-    return Array.isArray(value) ? value.length > 0 : true;
-  };
-  return expected.every(
-    (item: string) => report.images?.[item] === naSentinel || hasItemImage(item)
+// 檢視模式：量測值與規格（超出規格以紅字標示）
+const MeasurementValue: React.FC<{ report: Report; itemId: string }> = ({
+  report,
+  itemId,
+}) => {
+  const spec = report.expected_specs?.[itemId];
+  const value = report.measurements?.[itemId];
+  if (!spec) return null;
+  if (value === undefined) {
+    return <span className="ml-2 text-xs text-slate-400">（未量測）</span>;
+  }
+  const inSpec = isWithinSpec(value, spec);
+  return (
+    <span
+      className={`ml-2 text-sm ${
+        inSpec ? "text-slate-600" : "font-semibold text-rose-600"
+      }`}
+      title={`規格：${describeSpec(spec)}`}
+    >
+      {formatMeasurement(value, spec)} {spec.unit}
+      {!inSpec && `（超出規格 ${describeSpec(spec)}）`}
+    </span>
+  );
+};
+
+// 報告依據的製程版本；若製程已有新版本，編輯時提示仍沿用原版本項目
+const RevisionNotice: React.FC<{
+  report: Report;
+  processes: Process[];
+  isEditing: boolean;
+}> = ({ report, processes, isEditing }) => {
+  const current = report.process_id
+    ? processes.find((p) => p.id === report.process_id)
+    : undefined;
+  if (!report.process_rev) {
+    return isEditing ? (
+      <p className="text-xs text-slate-500">
+        此報告未記錄製程版本，編輯時僅使用報告建立時的項目。
+      </p>
+    ) : null;
+  }
+  const isOutdated = !!current?.rev && current.rev !== report.process_rev;
+  if (!isEditing) {
+    return (
+      <span className="text-xs text-slate-500">
+        Rev {report.process_rev}
+        {isOutdated && `（目前 Rev ${current?.rev}）`}
+      </span>
+    );
+  }
+  return isOutdated ? (
+    <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded px-2 py-1">
+      此報告依據製程 Rev {report.process_rev} 建立，製程目前為 Rev{" "}
+      {current?.rev}；編輯時仍使用 Rev {report.process_rev} 的項目。
+    </p>
+  ) : null;
+};
+
+// 複檢關係：此報告為哪份報告的複檢、之後又有哪些複檢
+const ReinspectionNotice: React.FC<{ report: Report; reports: Report[] }> = ({
+  report,
+  reports,
+}) => {
+  const followUps = reports
+    .filter((r) => r.reinspection_of === report.id)
+    .map((r) => r.id);
+  if (!report.reinspection_of && followUps.length === 0) return null;
+  return (
+    <div className="text-xs text-sky-700">
+      {report.reinspection_of && `複檢，原報告：${report.reinspection_of}`}
+      {report.reinspection_of && followUps.length > 0 && "｜"}
+      {followUps.length > 0 && `已有複檢：${followUps.join("、")}`}
+    </div>
   );
 };
 
@@ -96,20 +226,28 @@ const ReportPage: React.FC<Props> = ({
   processError,
   reports,
   filteredReports = [],
+  unitReports,
+  isUnitDataIncomplete = false,
   selectedProcessFilter = "",
   setSelectedProcessFilter,
   selectedModelFilter = "",
   setSelectedModelFilter,
   selectedStatusFilter = "",
   setSelectedStatusFilter,
-  setQueryFilters,
+  reportSearch = EMPTY_REPORT_SEARCH,
+  setReportSearch,
   reportHasQueried = false,
-  setReportHasQueried,
   pcSelectedKey = null,
   setPcSelectedKey,
 
-  fetchReportsFromDB,
-  setReports,
+  queryReports,
+  loadMoreReports,
+  hasMoreReports,
+  isLoadingReports,
+  exportReportsPdf,
+  downloadReportPhotosZip,
+  exportReportList,
+  exportReportMatrix,
 
   expandedReportId,
   toggleExpandReport,
@@ -118,12 +256,25 @@ const ReportPage: React.FC<Props> = ({
 
   editImages,
   editNA,
-  setEditNA,
+  editVerdicts,
+  setEditItemVerdict,
+  editMeasurements,
+  handleEditMeasurementChange,
   handleEditCapture,
   clearEditItemPhotos,
+  editExistingPhotos,
+  editPhotoChanges,
+  deleteEditPhoto,
+  replaceEditPhoto,
+  restoreEditPhoto,
 
   setEditPreviewIndex,
   setShowEditPreview,
+  canEditReport,
+  canMarkNA,
+  fetchReportTimeline,
+  getSignedImageUrl,
+  openUnitPage,
 
   NA_SENTINEL,
 }) => {
@@ -140,6 +291,148 @@ const ReportPage: React.FC<Props> = ({
     : "";
 
   const activeReports = reportHasQueried ? filteredReports : [];
+  const matrixReports = reportHasQueried ? unitReports ?? filteredReports : [];
+
+  const updateSearch = (key: keyof ReportSearchFields, value: string) =>
+    setReportSearch?.((prev) => ({ ...prev, [key]: value }));
+
+  // 查詢：條件交由資料庫過濾
+  const handleQuery = async () => {
+    if (!isProcessReady) {
+      alert(processMessage || "製程尚未就緒，請稍後再試。");
+      return;
+    }
+    if (
+      reportSearch.dateFrom &&
+      reportSearch.dateTo &&
+      reportSearch.dateFrom > reportSearch.dateTo
+    ) {
+      alert("起始日期不可晚於結束日期");
+      return;
+    }
+    await queryReports({
+      ...reportSearch,
+      process: selectedProcessFilter,
+      model: selectedModelFilter,
+      status: selectedStatusFilter,
+    });
+  };
+
+  // 列表底部進入畫面時自動載入下一頁
+  const loadMoreRef = useRef<HTMLDivElement | null>(null);
+  useEffect(() => {
+    const target = loadMoreRef.current;
+    if (!target || !hasMoreReports || isLoadingReports) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) loadMoreReports();
+    });
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [hasMoreReports, isLoadingReports, loadMoreReports]);
+
+  // 編輯中項目的照片數：既有照片扣掉標記刪除的
+  const countExistingPhotos = (r: Report, item: string) =>
+    Array.isArray(r.images[item])
+      ? r.images[item].length
+      : r.images[item] && r.images[item] !== NA_SENTINEL
+      ? 1
+      : 0;
+  // 檢視模式點開的照片（報告 + 項目 / 照片位置）
+  const [photoViewer, setPhotoViewer] = useState<{
+    report: Report;
+    itemIndex: number;
+  } | null>(null);
+
+  const countDeletedPhotos = (item: string) =>
+    (Object.values(editPhotoChanges) as ExistingPhotoChange[]).filter(
+      (change) => change.itemId === item && change.action === "delete"
+    ).length;
+
+  // 匯出中的項目（如 "pdf:報告ID"、"zip:群組key"），同時只允許一項
+  const [exportingKey, setExportingKey] = useState<string | null>(null);
+
+  const handleExportPdf = async (
+    key: string,
+    targets: Report[],
+    fileName: string
+  ) => {
+    if (exportingKey || targets.length === 0) return;
+    setExportingKey(`pdf:${key}`);
+    try {
+      const ok = await exportReportsPdf(targets, fileName);
+      if (!ok) alert("匯出 PDF 失敗，請稍後再試");
+    } finally {
+      setExportingKey(null);
+    }
+  };
+
+  const handleDownloadZip = async (
+    key: string,
+    targets: Report[],
+    zipName: string
+  ) => {
+    if (exportingKey || targets.length === 0) return;
+    setExportingKey(`zip:${key}`);
+    try {
+      const missing = await downloadReportPhotosZip(targets, zipName);
+      if (missing < 0) alert("打包照片失敗，請稍後再試");
+      else if (missing > 0)
+        alert(`有 ${missing} 張照片無法下載，已列於 manifest.json 的 missing_photos`);
+    } finally {
+      setExportingKey(null);
+    }
+  };
+
+  const renderExportButtons = (r: Report) => (
+    <div className="flex justify-end gap-2 pt-2">
+      <Button
+        type="button"
+        size="sm"
+        variant="secondary"
+        disabled={exportingKey !== null}
+        onClick={() => handleDownloadZip(r.id, [r], r.id)}
+      >
+        {exportingKey === `zip:${r.id}` ? "打包中…" : "下載照片 ZIP"}
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant="secondary"
+        disabled={exportingKey !== null}
+        onClick={() => handleExportPdf(r.id, [r], r.id)}
+      >
+        {exportingKey === `pdf:${r.id}` ? "PDF 產生中…" : "匯出 PDF"}
+      </Button>
+    </div>
+  );
+
+  const renderPhotoViewer = () =>
+    photoViewer && (
+      <PhotoLightbox
+        items={(photoViewer.report.expected_items || []).map(({ id, name }) => {
+          const photos = normalizeImageValue(photoViewer.report.images?.[id]);
+          return {
+            id,
+            name,
+            photos,
+            captions: photos.map((path) =>
+              describeCapturedAt(photoViewer.report.photo_meta?.[path]?.captured_at)
+            ),
+            emptyText: isNAValue(photoViewer.report.images?.[id])
+              ? "N/A（不適用）"
+              : undefined,
+          };
+        })}
+        initialItemIndex={photoViewer.itemIndex}
+        onClose={() => setPhotoViewer(null)}
+        resolveUrl={getSignedImageUrl}
+      />
+    );
+
+  const renderTimeline = (r: Report) =>
+    fetchReportTimeline ? (
+      <ReportTimeline report={r} fetchReportTimeline={fetchReportTimeline} />
+    ) : null;
 
   const groupedReports = useMemo(() => {
     const map = new Map<
@@ -151,8 +444,8 @@ const ReportPage: React.FC<Props> = ({
         processMap: Map<string, Report[]>;
       }
     >();
-    activeReports.forEach((report) => {
-      const key = `${report.model}__${report.serial}`;
+    matrixReports.forEach((report) => {
+      const key = toUnitKey(report.model, report.serial);
       if (!map.has(key)) {
         map.set(key, {
           model: report.model,
@@ -184,27 +477,48 @@ const ReportPage: React.FC<Props> = ({
         if (modelCompare !== 0) return modelCompare;
         return serialCollator.compare(a.serial, b.serial);
       });
-  }, [activeReports]);
+  }, [matrixReports]);
+
+  const selectedGroup = pcSelectedKey
+    ? groupedReports.find((group) => group.key === pcSelectedKey)
+    : undefined;
 
   const selectedGroupReports = useMemo(() => {
-    if (!pcSelectedKey) return [];
-    const entry = groupedReports.find((group) => group.key === pcSelectedKey);
+    const entry = selectedGroup;
     if (!entry) return [];
     const reportByProcess = new Map<string, Report>();
     PROCESS_ORDER.forEach((processName) => {
-      const reportsForProcess = entry.processMap.get(processName) ?? [];
-      if (reportsForProcess.length === 0) return;
-      const latest = reportsForProcess.reduce((current, next) => {
-        const currentDate = formatReportDate(current.id) ?? "";
-        const nextDate = formatReportDate(next.id) ?? "";
-        return nextDate > currentDate ? next : current;
-      }, reportsForProcess[0]);
-      reportByProcess.set(processName, latest);
+      const latest = pickLatestReport(entry.processMap.get(processName) ?? []);
+      if (latest) reportByProcess.set(processName, latest);
     });
     return PROCESS_ORDER
       .map((processName) => reportByProcess.get(processName))
       .filter((report): report is Report => Boolean(report));
-  }, [pcSelectedKey, groupedReports]);
+  }, [selectedGroup]);
+
+  const [sheetFormat, setSheetFormat] = useState<SheetFormat>("xlsx");
+  const [isExportingSheet, setIsExportingSheet] = useState(false);
+
+  const handleExportSheet = async (kind: "list" | "matrix") => {
+    if (isExportingSheet || activeReports.length === 0) return;
+    const d = new Date();
+    const ymd = `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, "0")}${String(d.getDate()).padStart(2, "0")}`;
+    setIsExportingSheet(true);
+    try {
+      const ok =
+        kind === "list"
+          ? await exportReportList(activeReports, `報告清單_${ymd}`, sheetFormat)
+          : await exportReportMatrix(
+              groupedReports,
+              PC_TABLE_PROCESS_ORDER,
+              `型號序號總表_${ymd}`,
+              sheetFormat
+            );
+      if (!ok) alert("匯出失敗，請稍後再試");
+    } finally {
+      setIsExportingSheet(false);
+    }
+  };
 
   return (
     <Card className="p-4 space-y-4">
@@ -213,23 +527,10 @@ const ReportPage: React.FC<Props> = ({
         <Button
           type="button"
           size="sm"
-          disabled={!isProcessReady}
-          onClick={async () => {
-            if (!isProcessReady) {
-              alert(processMessage || "製程尚未就緒，請稍後再試。");
-              return;
-            }
-            const fresh = await fetchReportsFromDB();
-            setReports(fresh);
-            setQueryFilters?.({
-              process: selectedProcessFilter,
-              model: selectedModelFilter,
-              status: selectedStatusFilter,
-            });
-            setReportHasQueried?.(true);
-          }}
+          disabled={!isProcessReady || isLoadingReports}
+          onClick={handleQuery}
         >
-          查詢
+          {isLoadingReports ? "查詢中..." : "查詢"}
         </Button>
       </h2>
       {!isProcessReady && (
@@ -278,17 +579,111 @@ const ReportPage: React.FC<Props> = ({
           className="border border-slate-200 bg-white text-slate-900 p-2 rounded w-full sm:flex-1 min-w-0 focus-visible:outline-none focus-visible:border-blue-500"
           value={selectedStatusFilter}
           onChange={(e) =>
-            setSelectedStatusFilter?.(e.target.value as "" | "done" | "not")
+            setSelectedStatusFilter?.(
+              e.target.value as "" | "done" | "not" | "ng"
+            )
           }
           disabled={!isProcessReady}
         >
           <option value="">全部狀態</option>
           <option value="done">已完成</option>
           <option value="not">未完成</option>
+          <option value="ng">不合格</option>
         </select>
       </div>
 
-      {reportHasQueried && activeReports.length === 0 && <p>尚無報告</p>}
+      {/* ===== 搜尋列（Enter 直接查詢）===== */}
+      <div
+        className="flex flex-col gap-2 sm:flex-row sm:items-center"
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.target as HTMLElement).tagName === "INPUT") {
+            e.preventDefault();
+            handleQuery();
+          }
+        }}
+      >
+        <input
+          type="search"
+          className="border border-slate-200 bg-white text-slate-900 p-2 rounded w-full sm:flex-[2] min-w-0 placeholder:text-slate-400 focus-visible:outline-none focus-visible:border-blue-500"
+          value={reportSearch.text}
+          placeholder="序號 / 表單 ID / 型號（可輸入部分）"
+          onChange={(e) => updateSearch("text", e.target.value)}
+          disabled={!isProcessReady}
+        />
+        <input
+          type="search"
+          className="border border-slate-200 bg-white text-slate-900 p-2 rounded w-full sm:flex-1 min-w-0 placeholder:text-slate-400 focus-visible:outline-none focus-visible:border-blue-500"
+          value={reportSearch.inspector}
+          placeholder="檢驗人員"
+          onChange={(e) => updateSearch("inspector", e.target.value)}
+          disabled={!isProcessReady}
+        />
+        <div className="flex items-center gap-2 sm:flex-[2] min-w-0">
+          <input
+            type="date"
+            className="border border-slate-200 bg-white text-slate-900 p-2 rounded w-full min-w-0 focus-visible:outline-none focus-visible:border-blue-500"
+            value={reportSearch.dateFrom}
+            title="建立日期（起）"
+            onChange={(e) => updateSearch("dateFrom", e.target.value)}
+            disabled={!isProcessReady}
+          />
+          <span className="text-slate-500 shrink-0">至</span>
+          <input
+            type="date"
+            className="border border-slate-200 bg-white text-slate-900 p-2 rounded w-full min-w-0 focus-visible:outline-none focus-visible:border-blue-500"
+            value={reportSearch.dateTo}
+            title="建立日期（迄）"
+            onChange={(e) => updateSearch("dateTo", e.target.value)}
+            disabled={!isProcessReady}
+          />
+        </div>
+      </div>
+
+      {activeReports.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-600">
+            {hasMoreReports
+              ? `已載入 ${activeReports.length} 份報告（尚有更多，匯出僅含已載入），匯出：`
+              : `共 ${activeReports.length} 份報告，匯出：`}
+          </span>
+          {isUnitDataIncomplete && (
+            <span className="text-amber-600">
+              部分機台的其他製程報告未能完整讀取，總表可能不完整
+            </span>
+          )}
+          <select
+            className="border border-slate-200 bg-white text-slate-900 px-2 rounded h-8 focus-visible:outline-none focus-visible:border-blue-500"
+            value={sheetFormat}
+            onChange={(e) => setSheetFormat(e.target.value as SheetFormat)}
+            disabled={isExportingSheet}
+          >
+            <option value="xlsx">Excel（.xlsx）</option>
+            <option value="csv">CSV</option>
+          </select>
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            disabled={isExportingSheet}
+            onClick={() => handleExportSheet("list")}
+          >
+            報告清單
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            disabled={isExportingSheet}
+            onClick={() => handleExportSheet("matrix")}
+          >
+            型號 / 序號總表
+          </Button>
+        </div>
+      )}
+
+      {reportHasQueried && activeReports.length === 0 && !isLoadingReports && (
+        <p>尚無報告</p>
+      )}
 
       {activeReports.length > 0 && (
         <div className="hidden md:block space-y-3">
@@ -333,22 +728,15 @@ const ReportPage: React.FC<Props> = ({
                         {group.serial}
                       </td>
                       {PC_TABLE_PROCESS_ORDER.map((processName) => {
-                        const reportsForProcess =
-                          group.processMap.get(processName) ?? [];
-                        const latestReport = reportsForProcess.reduce<
-                          Report | null
-                        >((current, next) => {
-                          if (!current) return next;
-                          const currentDate = formatReportDate(current.id) ?? "";
-                          const nextDate = formatReportDate(next.id) ?? "";
-                          return nextDate > currentDate ? next : current;
-                        }, null);
+                        const latestReport = pickLatestReport(
+                          group.processMap.get(processName) ?? []
+                        );
                         const formattedDate = latestReport
                           ? formatReportDate(latestReport.id)
                           : null;
-                        const reportDone = latestReport
-                          ? isReportDone(latestReport, NA_SENTINEL)
-                          : false;
+                        const reportStatus = latestReport
+                          ? getReportStatus(latestReport)
+                          : "not";
                         return (
                           <td
                             key={processName}
@@ -356,8 +744,11 @@ const ReportPage: React.FC<Props> = ({
                           >
                             {formattedDate ? (
                               <>
-                                <span className="text-xs align-middle mr-2">
-                                  {reportDone ? "●" : "○"}
+                                <span
+                                  className={`text-xs align-middle mr-2 ${REPORT_STATUS_COLOR[reportStatus]}`}
+                                  title={REPORT_STATUS_LABEL[reportStatus]}
+                                >
+                                  {reportStatus === "not" ? "○" : "●"}
                                 </span>
                                 {formattedDate}
                               </>
@@ -375,6 +766,15 @@ const ReportPage: React.FC<Props> = ({
                         >
                           查看 / 編輯
                         </button>
+                        {openUnitPage && (
+                          <button
+                            type="button"
+                            className="ml-3 text-blue-600 hover:text-blue-700 hover:underline"
+                            onClick={() => openUnitPage(group.model, group.serial)}
+                          >
+                            履歷
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -389,30 +789,70 @@ const ReportPage: React.FC<Props> = ({
                   {" ｜ "}序號：
                   {groupedReports.find((g) => g.key === pcSelectedKey)?.serial}
                 </p>
-                <button
-                  type="button"
-                  className="text-blue-600 hover:text-blue-700 hover:underline text-sm"
-                  onClick={() => setPcSelectedKey?.(null)}
-                >
-                  返回列表
-                </button>
+                <div className="flex items-center gap-3">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    disabled={exportingKey !== null || !selectedGroup}
+                    onClick={() =>
+                      selectedGroup &&
+                      handleDownloadZip(
+                        selectedGroup.key,
+                        selectedGroup.reports,
+                        `${selectedGroup.model}_${selectedGroup.serial}`
+                      )
+                    }
+                  >
+                    {exportingKey === `zip:${pcSelectedKey}`
+                      ? "打包中…"
+                      : "下載全部照片"}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    disabled={
+                      exportingKey !== null || selectedGroupReports.length === 0
+                    }
+                    onClick={() =>
+                      handleExportPdf(
+                        pcSelectedKey,
+                        selectedGroupReports,
+                        `${selectedGroup?.model ?? ""}_${selectedGroup?.serial ?? ""}`
+                      )
+                    }
+                  >
+                    {exportingKey === `pdf:${pcSelectedKey}`
+                      ? "PDF 產生中…"
+                      : "匯出 PDF（全部製程）"}
+                  </Button>
+                  {openUnitPage && selectedGroup && (
+                    <button
+                      type="button"
+                      className="text-blue-600 hover:text-blue-700 hover:underline text-sm"
+                      onClick={() =>
+                        openUnitPage(selectedGroup.model, selectedGroup.serial)
+                      }
+                    >
+                      機台履歷
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="text-blue-600 hover:text-blue-700 hover:underline text-sm"
+                    onClick={() => setPcSelectedKey?.(null)}
+                  >
+                    返回列表
+                  </button>
+                </div>
               </div>
               {selectedGroupReports.length === 0 && (
                 <p className="text-sm text-slate-500">尚無報告</p>
               )}
               {selectedGroupReports.map((r) => {
-                const expected = r.expected_items || [];
-                const hasItemImage = (item: string) => {
-                  const value = r.images?.[item];
-                  if (!value || value === NA_SENTINEL) return false;
-                  return Array.isArray(value) ? value.length > 0 : true;
-                };
-                const isDone =
-                  expected.length > 0 &&
-                  expected.every(
-                    (item: string) =>
-                      r.images?.[item] === NA_SENTINEL || hasItemImage(item)
-                  );
+                const status = getReportStatus(r);
+                const outOfSpecCount = getOutOfSpecItems(r).length;
                 const isOpen = expandedReportId === r.id;
                 const isEditing = editingReportId === r.id;
                 const cardWrapperClass = isEditing
@@ -436,6 +876,8 @@ const ReportPage: React.FC<Props> = ({
                         <Button
                           size="sm"
                           type="button"
+                          disabled={!canEditReport(r)}
+                          title={canEditReport(r) ? "" : "目前帳號沒有編輯此報告的權限"}
                           onClick={(
                             e: React.MouseEvent<HTMLButtonElement>
                           ) => {
@@ -449,17 +891,25 @@ const ReportPage: React.FC<Props> = ({
 
                       <div className="mt-2 space-y-1 text-sm text-slate-700">
                         <div className="flex items-center justify-between gap-2">
-                          <div className="truncate">製程名稱：{r.process}</div>
-                          {isDone ? (
-                            <span className="text-green-600">已完成</span>
-                          ) : (
-                            <span className="text-slate-600">未完成</span>
-                          )}
+                          <div className="truncate">
+                            製程名稱：{r.process}{" "}
+                            <RevisionNotice
+                              report={r}
+                              processes={processes}
+                              isEditing={false}
+                            />
+                          </div>
+                          <span className={REPORT_STATUS_COLOR[status]}>
+                            {REPORT_STATUS_LABEL[status]}
+                            {outOfSpecCount > 0 &&
+                              `（量測超規 ${outOfSpecCount} 項）`}
+                          </span>
                         </div>
                         <div className="flex items-center justify-between gap-2 text-sm text-slate-600">
                           <div className="truncate">型號：{r.model}</div>
                           <div className="truncate">序號：{r.serial}</div>
                         </div>
+                        <ReinspectionNotice report={r} reports={reports} />
                       </div>
                     </div>
 
@@ -467,35 +917,36 @@ const ReportPage: React.FC<Props> = ({
                       <div className={contentClass}>
                         {isEditing ? (
                           <div className="space-y-2">
+                            <RevisionNotice
+                              report={r}
+                              processes={processes}
+                              isEditing
+                            />
                             <InspectionItemsEditor
                               items={r.expected_items || []}
                               images={editImages}
                               naState={editNA}
-                              onSetNA={(item) =>
-                                setEditNA((prev) => ({ ...prev, [item]: true }))
-                              }
-                              onClearNA={(item) =>
-                                setEditNA((prev) => {
-                                  const next = { ...prev };
-                                  delete next[item];
-                                  return next;
-                                })
-                              }
+                              verdicts={editVerdicts}
+                              onSetVerdict={setEditItemVerdict}
+                              specs={r.expected_specs}
+                              measurementInputs={editMeasurements}
+                              onMeasurementChange={handleEditMeasurementChange}
                               onCapture={handleEditCapture}
                               onClearNewPhotos={clearEditItemPhotos}
                               inputIdPrefix={`edit-${r.id}`}
                               getExistingCount={(item) =>
-                                Array.isArray(r.images[item])
-                                  ? r.images[item].length
-                                  : r.images[item] &&
-                                    r.images[item] !== NA_SENTINEL
-                                  ? 1
-                                  : 0
+                                countExistingPhotos(r, item) - countDeletedPhotos(item)
                               }
+                              existingPhotos={editExistingPhotos}
+                              photoChanges={editPhotoChanges}
+                              onDeletePhoto={deleteEditPhoto}
+                              onReplacePhoto={replaceEditPhoto}
+                              onRestorePhoto={restoreEditPhoto}
                               getNewCount={(item) => editImages[item]?.length || 0}
                               onActionClick={(e) => e.stopPropagation()}
                               Button={Button}
                               StatusIcon={StatusIcon}
+                              allowNA={canMarkNA}
                             />
 
                             <div className="flex gap-2 mt-3">
@@ -522,36 +973,39 @@ const ReportPage: React.FC<Props> = ({
                           </div>
                         ) : (
                           <div className="space-y-2">
-                            {(r.expected_items || []).map((item: string) => {
-                              const v = r.images?.[item];
-                              const isNA = v === NA_SENTINEL;
-                              const hasImg = Array.isArray(v)
-                                ? v.length > 0
-                                : !!v && v !== NA_SENTINEL;
+                            {(r.expected_items || []).map((item, itemIndex) => {
+                              const verdict = getItemVerdict(r, item.id);
+                              const photoCount = normalizeImageValue(r.images?.[item.id]).length;
                               return (
                                 <div
-                                  key={item}
-                                  className="grid grid-cols-[minmax(0,1fr)_auto] items-center gap-2"
+                                  key={item.id}
+                                  className="grid grid-cols-[minmax(0,1fr)_auto_auto] items-center gap-2"
                                 >
                                   <span className="min-w-0 break-words">
-                                    {item}
+                                    {item.name}
+                                    <MeasurementValue report={r} itemId={item.id} />
                                   </span>
-                                  {isNA ? (
-                                    <span className="text-slate-600 shrink-0">
-                                      <StatusIcon kind="na" />
-                                    </span>
-                                  ) : hasImg ? (
-                                    <span className="text-green-600 shrink-0">
-                                      <StatusIcon kind="ok" />
-                                    </span>
+                                  {photoCount > 0 ? (
+                                    <button
+                                      type="button"
+                                      className="text-xs text-blue-600 hover:underline tabular-nums"
+                                      onClick={() => setPhotoViewer({ report: r, itemIndex })}
+                                    >
+                                      照片 {photoCount}
+                                    </button>
                                   ) : (
-                                    <span className="text-slate-400 shrink-0">
-                                      <StatusIcon kind="ng" />
-                                    </span>
+                                    <span />
                                   )}
+                                  <span
+                                    className={`${VERDICT_COLOR[verdict]} shrink-0`}
+                                  >
+                                    <StatusIcon kind={verdict} />
+                                  </span>
                                 </div>
                               );
                             })}
+                            {renderExportButtons(r)}
+                            {renderTimeline(r)}
                           </div>
                         )}
                       </div>
@@ -567,18 +1021,8 @@ const ReportPage: React.FC<Props> = ({
       {activeReports.length > 0 && (
         <div className="space-y-3 md:hidden">
           {activeReports.map((r) => {
-            const expected = r.expected_items || [];
-            const hasItemImage = (item: string) => {
-              const value = r.images?.[item];
-              if (!value || value === NA_SENTINEL) return false;
-              return Array.isArray(value) ? value.length > 0 : true;
-            };
-            const isDone =
-              expected.length > 0 &&
-              expected.every(
-                (item: string) =>
-                  r.images?.[item] === NA_SENTINEL || hasItemImage(item)
-              );
+            const status = getReportStatus(r);
+            const outOfSpecCount = getOutOfSpecItems(r).length;
             const isOpen = expandedReportId === r.id;
             const isEditing = editingReportId === r.id;
             const cardWrapperClass = isEditing
@@ -602,6 +1046,8 @@ const ReportPage: React.FC<Props> = ({
                     <Button
                       size="sm"
                       type="button"
+                      disabled={!canEditReport(r)}
+                      title={canEditReport(r) ? "" : "目前帳號沒有編輯此報告的權限"}
                       onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
                         e.stopPropagation();
                         toggleEditReport(r.id);
@@ -613,17 +1059,25 @@ const ReportPage: React.FC<Props> = ({
 
                   <div className="mt-2 space-y-1 text-sm text-slate-700">
                     <div className="flex items-center justify-between gap-2">
-                      <div className="truncate">製程名稱：{r.process}</div>
-                      {isDone ? (
-                        <span className="text-green-600">已完成</span>
-                      ) : (
-                        <span className="text-slate-600">未完成</span>
-                      )}
+                      <div className="truncate">
+                        製程名稱：{r.process}{" "}
+                        <RevisionNotice
+                          report={r}
+                          processes={processes}
+                          isEditing={false}
+                        />
+                      </div>
+                      <span className={REPORT_STATUS_COLOR[status]}>
+                        {REPORT_STATUS_LABEL[status]}
+                        {outOfSpecCount > 0 &&
+                          `（量測超規 ${outOfSpecCount} 項）`}
+                      </span>
                     </div>
                     <div className="flex items-center justify-between gap-2 text-sm text-slate-600">
                       <div className="truncate">型號：{r.model}</div>
                       <div className="truncate">序號：{r.serial}</div>
                     </div>
+                    <ReinspectionNotice report={r} reports={reports} />
                   </div>
                 </div>
 
@@ -631,34 +1085,36 @@ const ReportPage: React.FC<Props> = ({
                   <div className={contentClass}>
                     {isEditing ? (
                       <div className="space-y-2">
+                        <RevisionNotice
+                          report={r}
+                          processes={processes}
+                          isEditing
+                        />
                         <InspectionItemsEditor
                           items={r.expected_items || []}
                           images={editImages}
                           naState={editNA}
-                          onSetNA={(item) =>
-                            setEditNA((prev) => ({ ...prev, [item]: true }))
-                          }
-                          onClearNA={(item) =>
-                            setEditNA((prev) => {
-                              const next = { ...prev };
-                              delete next[item];
-                              return next;
-                            })
-                          }
+                          verdicts={editVerdicts}
+                          onSetVerdict={setEditItemVerdict}
+                          specs={r.expected_specs}
+                          measurementInputs={editMeasurements}
+                          onMeasurementChange={handleEditMeasurementChange}
                           onCapture={handleEditCapture}
                           onClearNewPhotos={clearEditItemPhotos}
                           inputIdPrefix={`edit-${r.id}`}
                           getExistingCount={(item) =>
-                            Array.isArray(r.images[item])
-                              ? r.images[item].length
-                              : r.images[item] && r.images[item] !== NA_SENTINEL
-                              ? 1
-                              : 0
+                            countExistingPhotos(r, item) - countDeletedPhotos(item)
                           }
+                          existingPhotos={editExistingPhotos}
+                          photoChanges={editPhotoChanges}
+                          onDeletePhoto={deleteEditPhoto}
+                          onReplacePhoto={replaceEditPhoto}
+                          onRestorePhoto={restoreEditPhoto}
                           getNewCount={(item) => editImages[item]?.length || 0}
                           onActionClick={(e) => e.stopPropagation()}
                           Button={Button}
                           StatusIcon={StatusIcon}
+                          allowNA={canMarkNA}
                         />
 
                         <div className="flex gap-2 mt-3">
@@ -685,34 +1141,39 @@ const ReportPage: React.FC<Props> = ({
                       </div>
                     ) : (
                       <div className="space-y-2">
-                        {(r.expected_items || []).map((item: string) => {
-                          const v = r.images?.[item];
-                          const isNA = v === NA_SENTINEL;
-                          const hasImg = Array.isArray(v)
-                            ? v.length > 0
-                            : !!v && v !== NA_SENTINEL;
+                        {(r.expected_items || []).map((item, itemIndex) => {
+                          const verdict = getItemVerdict(r, item.id);
+                          const photoCount = normalizeImageValue(r.images?.[item.id]).length;
                           return (
                             <div
-                              key={item}
-                              className="grid grid-cols-[minmax(0,1fr)_auto] items-center gap-2"
+                              key={item.id}
+                              className="grid grid-cols-[minmax(0,1fr)_auto_auto] items-center gap-2"
                             >
-                              <span className="min-w-0 break-words">{item}</span>
-                              {isNA ? (
-                                <span className="text-slate-600 shrink-0">
-                                  <StatusIcon kind="na" />
-                                </span>
-                              ) : hasImg ? (
-                                <span className="text-green-600 shrink-0">
-                                  <StatusIcon kind="ok" />
-                                </span>
+                              <span className="min-w-0 break-words">
+                                {item.name}
+                                <MeasurementValue report={r} itemId={item.id} />
+                              </span>
+                              {photoCount > 0 ? (
+                                <button
+                                  type="button"
+                                  className="text-xs text-blue-600 hover:underline tabular-nums"
+                                  onClick={() => setPhotoViewer({ report: r, itemIndex })}
+                                >
+                                  照片 {photoCount}
+                                </button>
                               ) : (
-                                <span className="text-slate-400 shrink-0">
-                                  <StatusIcon kind="ng" />
-                                </span>
+                                <span />
                               )}
+                              <span
+                                className={`${VERDICT_COLOR[verdict]} shrink-0`}
+                              >
+                                <StatusIcon kind={verdict} />
+                              </span>
                             </div>
                           );
                         })}
+                        {renderExportButtons(r)}
+                        {renderTimeline(r)}
                       </div>
                     )}
                   </div>
@@ -722,6 +1183,21 @@ const ReportPage: React.FC<Props> = ({
           })}
         </div>
       )}
+
+      {reportHasQueried && hasMoreReports && (
+        <div ref={loadMoreRef} className="flex justify-center">
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            disabled={isLoadingReports}
+            onClick={loadMoreReports}
+          >
+            {isLoadingReports ? "載入中..." : "載入更多"}
+          </Button>
+        </div>
+      )}
+      {renderPhotoViewer()}
     </Card>
   );
 };
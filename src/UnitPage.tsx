@@ -0,0 +1,387 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { Process, Report } from "./types";
+import { UNIT_REPORT_LIMIT } from "./services/reportService";
+import PhotoLightbox, { type LightboxItem } from "./components/PhotoLightbox";
+import { formatReportDate } from "./utils/dateUtils";
+import { isNAValue, normalizeImageValue } from "./utils/imageUtils";
+import { describeCapturedAt } from "./utils/photoTimeUtils";
+import { normalizeSerial } from "./utils/serialPatternUtils";
+import {
+  buildProcessRoute,
+  groupReportsByUnit,
+  toUnitKey,
+  type UnitGroup,
+} from "./utils/unitUtils";
+import {
+  REPORT_STATUS_LABEL,
+  getItemVerdict,
+  getReportStatus,
+  type ReportStatus,
+} from "./utils/verdictUtils";
+
+type ButtonComponent = React.ComponentType<
+  React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    variant?: string;
+    size?: string;
+    className?: string;
+  }
+>;
+
+type InputComponent = React.ComponentType<
+  React.InputHTMLAttributes<HTMLInputElement> & { className?: string }
+>;
+
+type CardComponent = React.ComponentType<
+  React.HTMLAttributes<HTMLDivElement> & { className?: string }
+>;
+
+type UnitPageProps = {
+  Card: CardComponent;
+  Button: ButtonComponent;
+  Input: InputComponent;
+  processes: Process[];
+  // 從報告列表點進來的機台；null 表示由使用者自行搜尋
+  initialUnit: { model: string; serial: string } | null;
+  searchReportsBySerial: (
+    term: string,
+    exact?: boolean
+  ) => Promise<{ ok: true; data: Report[] } | { ok: false; message: string }>;
+  getSignedImageUrl: (path: string) => Promise<string>;
+};
+
+const REPORT_STATUS_COLOR: Record<ReportStatus, string> = {
+  done: "text-green-600",
+  not: "text-slate-600",
+  ng: "text-rose-600",
+};
+
+// 報告的照片：每個項目一組（供全螢幕檢視）
+const toLightboxItems = (report: Report, prefix = ""): LightboxItem[] =>
+  (report.expected_items || []).map(({ id, name }) => {
+    const photos = normalizeImageValue(report.images?.[id]);
+    return {
+      id: `${report.id}:${id}`,
+      name: `${prefix}${name}`,
+      photos,
+      captions: photos.map((path) =>
+        describeCapturedAt(report.photo_meta?.[path]?.captured_at)
+      ),
+      emptyText: isNAValue(report.images?.[id]) ? "N/A（不適用）" : undefined,
+    };
+  });
+
+const countPhotos = (report: Report) =>
+  Object.values(report.images || {}).reduce(
+    (sum, value) => sum + normalizeImageValue(value).length,
+    0
+  );
+
+// 機台履歷：依序號查詢單一機台的所有報告、製程路線完成度與照片，供客訴追溯
+export default function UnitPage({
+  Card,
+  Button,
+  Input,
+  processes,
+  initialUnit,
+  searchReportsBySerial,
+  getSignedImageUrl,
+}: UnitPageProps) {
+  const [term, setTerm] = useState(initialUnit?.serial ?? "");
+  const [units, setUnits] = useState<UnitGroup[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [status, setStatus] = useState<"idle" | "loading" | "ready" | "error">(
+    "idle"
+  );
+  // 查詢結果達上限：只有最新的報告，較舊的報告未載入
+  const [listTruncated, setListTruncated] = useState(false);
+  const [unitTruncated, setUnitTruncated] = useState(false);
+  const [viewer, setViewer] = useState<{
+    items: LightboxItem[];
+    itemIndex: number;
+  } | null>(null);
+
+  // 開啟機台：部分比對的結果不完整時，以完整序號重新載入該機台的履歷
+  const openUnit = async (target: UnitGroup, truncated: boolean) => {
+    setSelectedKey(target.key);
+    setUnitTruncated(false);
+    if (!truncated) return;
+
+    setStatus("loading");
+    const res = await searchReportsBySerial(target.serial, true);
+    if (!res.ok) {
+      setStatus("error");
+      return;
+    }
+    const [loaded] = groupReportsByUnit(
+      res.data.filter((r) => toUnitKey(r.model, r.serial) === target.key)
+    );
+    if (loaded) {
+      setUnits((prev) => prev.map((u) => (u.key === target.key ? loaded : u)));
+    }
+    setUnitTruncated(res.data.length >= UNIT_REPORT_LIMIT);
+    setStatus("ready");
+  };
+
+  const runSearch = async (rawTerm: string, preferKey?: string) => {
+    const sn = normalizeSerial(rawTerm);
+    if (!sn) {
+      alert("請輸入序號");
+      return;
+    }
+    setStatus("loading");
+    const res = await searchReportsBySerial(sn);
+    if (!res.ok) {
+      setStatus("error");
+      return;
+    }
+    const found = groupReportsByUnit(res.data);
+    const truncated = res.data.length >= UNIT_REPORT_LIMIT;
+    setUnits(found);
+    setListTruncated(truncated);
+    setStatus("ready");
+    // 指定機台或序號完全相符且唯一時直接開啟，否則列出符合的機台
+    const exact = found.filter((unit) => normalizeSerial(unit.serial) === sn);
+    const preferred =
+      found.find((unit) => unit.key === preferKey) ??
+      (exact.length === 1 ? exact[0] : found.length === 1 ? found[0] : null);
+    if (preferred) {
+      await openUnit(preferred, truncated);
+    } else {
+      setSelectedKey(null);
+    }
+  };
+
+  useEffect(() => {
+    if (!initialUnit) return;
+    setTerm(initialUnit.serial);
+    runSearch(initialUnit.serial, toUnitKey(initialUnit.model, initialUnit.serial));
+    // 只在從報告列表切換機台時重新查詢
+  }, [initialUnit]);
+
+  const unit = units.find((u) => u.key === selectedKey) ?? null;
+  const route = useMemo(
+    () => (unit ? buildProcessRoute(unit, processes) : []),
+    [unit, processes]
+  );
+  const doneSteps = route.filter((step) => step.status === "done").length;
+
+  const renderRoute = () => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold text-slate-700">製程路線</span>
+        <span className="text-slate-600">
+          完成 {doneSteps}/{route.length}
+        </span>
+      </div>
+      <ol className="grid gap-2 sm:grid-cols-2">
+        {route.map((step, idx) => (
+          <li
+            key={step.process}
+            className="rounded border border-slate-200 bg-white p-2 text-sm"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-slate-800">
+                {idx + 1}. {step.process}
+              </span>
+              <span
+                className={
+                  step.status ? REPORT_STATUS_COLOR[step.status] : "text-slate-400"
+                }
+              >
+                {step.status ? REPORT_STATUS_LABEL[step.status] : "尚未檢驗"}
+              </span>
+            </div>
+            {step.latest && (
+              <div className="mt-1 text-xs text-slate-500">
+                {step.latest.id}｜檢驗：
+                {step.latest.created_by || step.latest.edited_by || "—"}
+                {step.latest.edited_by &&
+                  step.latest.edited_by !== step.latest.created_by &&
+                  `（最後修改：${step.latest.edited_by}）`}
+                {step.reports.length > 1 && `｜共 ${step.reports.length} 份（含複檢）`}
+              </div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+
+  const renderTimeline = (current: UnitGroup) => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold text-slate-700">檢驗紀錄（依時間）</span>
+        <Button
+          type="button"
+          size="sm"
+          variant="secondary"
+          disabled={current.reports.every((r) => countPhotos(r) === 0)}
+          onClick={() =>
+            setViewer({
+              items: current.reports.flatMap((r) =>
+                toLightboxItems(r, `${r.process}｜`)
+              ),
+              itemIndex: 0,
+            })
+          }
+        >
+          全部照片
+        </Button>
+      </div>
+      <ol className="space-y-2 border-l border-slate-300 pl-3">
+        {current.reports.map((r) => {
+          const reportStatus = getReportStatus(r);
+          const ngItems = (r.expected_items || []).filter(
+            (item) => getItemVerdict(r, item.id) === "ng"
+          );
+          const followUps = current.reports.filter(
+            (other) => other.reinspection_of === r.id
+          );
+          const photoCount = countPhotos(r);
+          return (
+            <li
+              key={r.id}
+              className="rounded border border-slate-200 bg-white p-2 text-sm"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium text-slate-800 break-all">
+                    {r.process}｜{r.id}
+                  </div>
+                  <div className="text-xs text-slate-500">
+                    {r.created_at
+                      ? new Date(r.created_at).toLocaleString()
+                      : formatReportDate(r.id) ?? "—"}
+                    ｜檢驗：{r.created_by || r.edited_by || "—"}
+                    {r.edited_by &&
+                      r.edited_by !== r.created_by &&
+                      `｜最後修改：${r.edited_by}`}
+                  </div>
+                </div>
+                <span className={`shrink-0 ${REPORT_STATUS_COLOR[reportStatus]}`}>
+                  {REPORT_STATUS_LABEL[reportStatus]}
+                </span>
+              </div>
+              {ngItems.length > 0 && (
+                <div className="mt-1 text-xs text-rose-600">
+                  不合格：{ngItems.map((item) => item.name).join("、")}
+                </div>
+              )}
+              {(r.reinspection_of || followUps.length > 0) && (
+                <div className="mt-1 text-xs text-sky-700">
+                  {r.reinspection_of && `複檢，原報告：${r.reinspection_of}`}
+                  {r.reinspection_of && followUps.length > 0 && "｜"}
+                  {followUps.length > 0 &&
+                    `已有複檢：${followUps.map((f) => f.id).join("、")}`}
+                </div>
+              )}
+              <div className="mt-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="secondary"
+                  disabled={photoCount === 0}
+                  onClick={() => setViewer({ items: toLightboxItems(r), itemIndex: 0 })}
+                >
+                  照片 {photoCount}
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+
+  return (
+    <Card className="p-4 space-y-4">
+      <h2 className="text-xl font-bold text-slate-900">機台履歷</h2>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          runSearch(term);
+        }}
+      >
+        <Input
+          value={term}
+          placeholder="輸入序號（可輸入部分）"
+          onChange={(e) => setTerm(e.target.value)}
+          className="flex-1 border-slate-200 text-slate-900 placeholder:text-slate-400 focus-visible:border-blue-500"
+        />
+        <Button type="submit" disabled={status === "loading"}>
+          {status === "loading" ? "查詢中..." : "查詢"}
+        </Button>
+      </form>
+
+      {status === "error" && <p className="text-sm text-rose-600">查詢失敗，請稍後再試</p>}
+      {status === "ready" && units.length === 0 && (
+        <p className="text-sm text-slate-500">查無此序號的報告</p>
+      )}
+
+      {status === "ready" && units.length > 0 && !unit && (
+        <div className="space-y-1">
+          <p className="text-sm text-slate-600">符合的機台（{units.length}）：</p>
+          {listTruncated && (
+            <p className="text-xs text-amber-600">
+              僅載入最新 {UNIT_REPORT_LIMIT} 份報告，可能有機台未列出，請輸入更完整的序號
+            </p>
+          )}
+          <ul className="divide-y divide-slate-100 rounded border border-slate-200 bg-white text-sm">
+            {units.map((u) => (
+              <li key={u.key}>
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between px-3 py-2 text-left hover:bg-slate-50"
+                  onClick={() => openUnit(u, listTruncated)}
+                >
+                  <span>
+                    型號：{u.model}｜序號：{u.serial}
+                  </span>
+                  <span className="text-xs text-slate-500">{u.reports.length} 份報告</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {unit && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-slate-700">
+              型號：<span className="font-semibold">{unit.model}</span>
+              {" ｜ "}序號：<span className="font-semibold">{unit.serial}</span>
+            </p>
+            {units.length > 1 && (
+              <button
+                type="button"
+                className="text-blue-600 hover:text-blue-700 hover:underline text-sm"
+                onClick={() => setSelectedKey(null)}
+              >
+                其他符合的機台
+              </button>
+            )}
+          </div>
+          {unitTruncated && (
+            <p className="text-xs text-amber-600">
+              此機台的報告超過 {UNIT_REPORT_LIMIT} 份，僅顯示最新 {UNIT_REPORT_LIMIT} 份
+            </p>
+          )}
+          {renderRoute()}
+          {renderTimeline(unit)}
+        </div>
+      )}
+
+      {viewer && (
+        <PhotoLightbox
+          items={viewer.items}
+          initialItemIndex={viewer.itemIndex}
+          onClose={() => setViewer(null)}
+          resolveUrl={getSignedImageUrl}
+        />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from "react";
+import type { ManagedUser } from "./services/userAdminService";
+import type { UserRole } from "./types";
+import { ROLE_LABEL, USER_ROLES } from "./utils/permissionUtils";
+
+type ButtonComponent = React.ComponentType<
+  React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    variant?: string;
+    size?: string;
+    className?: string;
+  }
+>;
+
+type InputComponent = React.ComponentType<
+  React.InputHTMLAttributes<HTMLInputElement> & { className?: string }
+>;
+
+type CardComponent = React.ComponentType<
+  React.HTMLAttributes<HTMLDivElement> & { className?: string }
+>;
+
+type AdminWriteResult = { ok: true } | { ok: false; message: string };
+
+type UsersPageProps = {
+  Card: CardComponent;
+  Button: ButtonComponent;
+  Input: InputComponent;
+  canManage: boolean;
+  authUsername: string;
+  fetchManagedUsers: () => Promise<ManagedUser[] | null>;
+  createManagedUser: (
+    username: string,
+    password: string,
+    role: UserRole
+  ) => Promise<AdminWriteResult>;
+  setManagedUserRole: (userId: string, role: UserRole) => Promise<AdminWriteResult>;
+  setManagedUserDisabled: (
+    userId: string,
+    disabled: boolean
+  ) => Promise<AdminWriteResult>;
+  resetManagedUserPassword: (
+    userId: string,
+    password: string
+  ) => Promise<AdminWriteResult>;
+};
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : "—";
+
+export default function UsersPage({
+  Card,
+  Button,
+  Input,
+  canManage,
+  authUsername,
+  fetchManagedUsers,
+  createManagedUser,
+  setManagedUserRole,
+  setManagedUserDisabled,
+  resetManagedUserPassword,
+}: UsersPageProps) {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loadStatus, setLoadStatus] = useState<"loading" | "ready" | "error">(
+    "loading"
+  );
+  const [newUsername, setNewUsername] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [newRole, setNewRole] = useState<UserRole>("inspector");
+  // 執行中的操作（帳號 id 或 "create"），避免連點
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const loadUsers = async () => {
+    setLoadStatus("loading");
+    const list = await fetchManagedUsers();
+    if (!list) {
+      setLoadStatus("error");
+      return;
+    }
+    setUsers(list);
+    setLoadStatus("ready");
+  };
+
+  useEffect(() => {
+    if (!canManage) return;
+    void loadUsers();
+  }, [canManage]);
+
+  if (!canManage) {
+    return (
+      <Card className="p-4 space-y-3">
+        <h2 className="text-xl font-bold text-slate-900">帳號管理</h2>
+        <p className="text-red-600">此頁僅限管理員帳號使用。</p>
+        <p className="text-sm text-slate-600">
+          目前登入：{authUsername || "未知"}
+        </p>
+      </Card>
+    );
+  }
+
+  // 執行寫入操作：成功後重新載入清單，失敗以 alert 顯示原因
+  const runAction = async (
+    key: string,
+    action: () => Promise<AdminWriteResult>,
+    successMessage?: string
+  ) => {
+    if (busyKey) return false;
+    setBusyKey(key);
+    try {
+      const res = await action();
+      if (!res.ok) {
+        alert(`操作失敗：${res.message}`);
+        return false;
+      }
+      if (successMessage) alert(successMessage);
+      await loadUsers();
+      return true;
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    const username = newUsername.trim().toLowerCase();
+    if (!/^[a-z0-9._-]+$/.test(username)) {
+      alert("帳號僅可使用英數字與 . _ -");
+      return;
+    }
+    if (users.some((u) => u.username === username)) {
+      alert("此帳號已存在");
+      return;
+    }
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      alert(`密碼至少 ${MIN_PASSWORD_LENGTH} 個字元`);
+      return;
+    }
+    const ok = await runAction(
+      "create",
+      () => createManagedUser(username, newPassword, newRole),
+      `已建立帳號「${username}」`
+    );
+    if (ok) {
+      setNewUsername("");
+      setNewPassword("");
+      setNewRole("inspector");
+    }
+  };
+
+  const handleResetPassword = async (user: ManagedUser) => {
+    const password = window.prompt(
+      `請輸入「${user.username}」的新密碼（至少 ${MIN_PASSWORD_LENGTH} 個字元）`
+    );
+    if (password === null) return;
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      alert(`密碼至少 ${MIN_PASSWORD_LENGTH} 個字元`);
+      return;
+    }
+    await runAction(
+      user.id,
+      () => resetManagedUserPassword(user.id, password),
+      "密碼已重設"
+    );
+  };
+
+  const handleToggleDisabled = async (user: ManagedUser) => {
+    const message = user.disabled
+      ? `確定要重新啟用「${user.username}」嗎？`
+      : `確定要停用「${user.username}」嗎？\n（停用後將無法登入，已登入的裝置會被登出）`;
+    if (!window.confirm(message)) return;
+    await runAction(user.id, () =>
+      setManagedUserDisabled(user.id, !user.disabled)
+    );
+  };
+
+  const selectClass =
+    "border border-slate-200 bg-white text-slate-900 p-2 rounded h-9 focus-visible:outline-none focus-visible:border-blue-500";
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-bold text-slate-900">帳號管理</h2>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => void loadUsers()}
+          disabled={loadStatus === "loading"}
+        >
+          重新整理
+        </Button>
+      </div>
+
+      <div className="rounded border border-slate-200 bg-white p-3 space-y-2">
+        <div className="font-semibold text-slate-800">新增帳號</div>
+        <Input
+          placeholder="帳號（英數字）"
+          value={newUsername}
+          autoCapitalize="none"
+          onChange={(e) => setNewUsername(e.target.value)}
+        />
+        <Input
+          type="password"
+          placeholder={`初始密碼（至少 ${MIN_PASSWORD_LENGTH} 個字元）`}
+          value={newPassword}
+          autoComplete="new-password"
+          onChange={(e) => setNewPassword(e.target.value)}
+        />
+        <div className="flex items-center gap-2">
+          <select
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value as UserRole)}
+            className={`${selectClass} flex-1`}
+          >
+            {USER_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {ROLE_LABEL[role]}
+              </option>
+            ))}
+          </select>
+          <Button onClick={handleCreate} disabled={!!busyKey}>
+            {busyKey === "create" ? "建立中..." : "建立帳號"}
+          </Button>
+        </div>
+      </div>
+
+      {loadStatus === "error" && (
+        <div className="rounded border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          帳號清單載入失敗，請確認 admin-users 服務已部署後重新整理。
+        </div>
+      )}
+      {loadStatus === "loading" && (
+        <p className="text-sm text-slate-500">載入中...</p>
+      )}
+
+      {loadStatus === "ready" && (
+        <div className="space-y-2">
+          {users.map((user) => {
+            const isSelf = user.username === authUsername.toLowerCase();
+            const isBusy = busyKey === user.id;
+            return (
+              <div
+                key={user.id}
+                className={`rounded border p-3 space-y-2 text-sm ${
+                  user.disabled
+                    ? "border-slate-200 bg-slate-100 text-slate-500"
+                    : "border-slate-200 bg-white"
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="font-semibold break-all">
+                    {user.username}
+                    {isSelf && (
+                      <span className="ml-1 text-xs text-blue-600">（目前登入）</span>
+                    )}
+                    {user.disabled && (
+                      <span className="ml-1 text-xs text-rose-600">已停用</span>
+                    )}
+                  </div>
+                  <select
+                    value={user.role}
+                    disabled={isSelf || !!busyKey}
+                    title={isSelf ? "不可變更自己的角色" : ""}
+                    onChange={(e) =>
+                      void runAction(user.id, () =>
+                        setManagedUserRole(user.id, e.target.value as UserRole)
+                      )
+                    }
+                    className={selectClass}
+                  >
+                    {USER_ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {ROLE_LABEL[role]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="text-xs text-slate-600 space-y-0.5">
+                  <div>最後登入：{formatDateTime(user.last_login_at)}</div>
+                  <div>登入鎖更新：{formatDateTime(user.last_seen_at)}</div>
+                  <div>建立時間：{formatDateTime(user.created_at)}</div>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    disabled={!!busyKey}
+                    onClick={() => void handleResetPassword(user)}
+                  >
+                    重設密碼
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={user.disabled ? "default" : "destructive"}
+                    disabled={isSelf || !!busyKey}
+                    title={isSelf ? "不可停用自己的帳號" : ""}
+                    onClick={() => void handleToggleDisabled(user)}
+                  >
+                    {isBusy ? "處理中..." : user.disabled ? "啟用" : "停用"}
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+          {users.length === 0 && (
+            <p className="text-sm text-slate-500">目前沒有任何帳號。</p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
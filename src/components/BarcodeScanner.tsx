@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from "react";
+
+type Props = {
+  // 掃到的原始文字（由呼叫端解析）
+  onResult: (text: string) => void;
+  onCancel: () => void;
+};
+
+type ScannerStatus = "loading" | "scanning" | "error";
+
+// 相機掃描條碼（Code128）/ QR，於瀏覽器內解碼；解碼套件於開啟時才載入
+const BarcodeScanner: React.FC<Props> = ({ onResult, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const onResultRef = useRef(onResult);
+  const [status, setStatus] = useState<ScannerStatus>("loading");
+  const [errorMessage, setErrorMessage] = useState("");
+
+  useEffect(() => {
+    onResultRef.current = onResult;
+  }, [onResult]);
+
+  useEffect(() => {
+    let active = true;
+    let controls: { stop: () => void } | null = null;
+
+    const start = async () => {
+      try {
+        const [{ BrowserMultiFormatReader, BarcodeFormat }, { DecodeHintType }] =
+          await Promise.all([import("@zxing/browser"), import("@zxing/library")]);
+        if (!active || !videoRef.current) return;
+
+        const hints = new Map([
+          [
+            DecodeHintType.POSSIBLE_FORMATS,
+            [BarcodeFormat.CODE_128, BarcodeFormat.QR_CODE],
+          ],
+        ]);
+        const reader = new BrowserMultiFormatReader(hints);
+        const started = await reader.decodeFromConstraints(
+          { video: { facingMode: "environment" } },
+          videoRef.current,
+          (result, _error, scanControls) => {
+            const text = result?.getText().trim();
+            if (!active || !text) return;
+            active = false;
+            scanControls.stop();
+            onResultRef.current(text);
+          }
+        );
+        // 元件已關閉或已掃到：立即釋放相機
+        if (!active) {
+          started.stop();
+          return;
+        }
+        controls = started;
+        setStatus("scanning");
+      } catch (e) {
+        console.error("開啟條碼掃描失敗：", e);
+        if (!active) return;
+        const name = e instanceof Error ? e.name : "";
+        setErrorMessage(
+          name === "NotAllowedError"
+            ? "未取得相機權限，請於瀏覽器設定允許使用相機"
+            : name === "NotFoundError"
+            ? "找不到可用的相機"
+            : "無法開啟相機，請改為手動輸入序號"
+        );
+        setStatus("error");
+      }
+    };
+
+    start();
+    return () => {
+      active = false;
+      controls?.stop();
+    };
+  }, []);
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      className="fixed inset-0 z-[60] flex flex-col bg-black/95 text-white"
+    >
+      <div className="flex items-center justify-between px-3 py-2 pt-[max(0.5rem,env(safe-area-inset-top))]">
+        <div className="font-semibold">掃描序號條碼 / QR</div>
+        <button
+          type="button"
+          className="h-8 rounded px-2 text-sm text-white hover:bg-white/15"
+          onClick={onCancel}
+        >
+          關閉
+        </button>
+      </div>
+
+      <div className="relative flex flex-1 items-center justify-center overflow-hidden p-2">
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className={`max-h-full max-w-full ${status === "error" ? "hidden" : ""}`}
+        />
+        {status === "scanning" && (
+          // 對準框：僅提示位置，整個畫面都會解碼
+          <div className="pointer-events-none absolute h-1/3 w-4/5 max-w-md rounded border-2 border-white/80" />
+        )}
+        {status === "loading" && (
+          <p className="absolute text-sm text-slate-300">開啟相機中...</p>
+        )}
+        {status === "error" && (
+          <p className="text-sm text-rose-300">{errorMessage}</p>
+        )}
+      </div>
+
+      <p className="px-3 py-2 pb-[max(0.5rem,env(safe-area-inset-bottom))] text-center text-xs text-slate-300">
+        將條碼或 QR 對準框內，掃到後自動填入
+      </p>
+    </div>
+  );
+};
+
+export default BarcodeScanner;
@@ -0,0 +1,97 @@
+import React from "react";
+import type { Report } from "../types";
+import { pickLatestReport } from "../utils/dateUtils";
+import {
+  REPORT_STATUS_LABEL,
+  getReportStatus,
+} from "../utils/verdictUtils";
+
+type ButtonComponent = React.ComponentType<
+  React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    variant?: string;
+    size?: string;
+    className?: string;
+  }
+>;
+
+type Props = {
+  // 同一型號 + 序號 + 製程的既有報告
+  reports: Report[];
+  canEdit: (report: Report) => boolean;
+  onEdit: (report: Report) => void;
+  onReinspect: (report: Report) => void;
+  onCancel: () => void;
+  Button: ButtonComponent;
+};
+
+// 新增檢驗前發現重複：開啟既有報告編輯、建立複檢（連結最新一份）或取消
+const DuplicateReportModal: React.FC<Props> = ({
+  reports,
+  canEdit,
+  onEdit,
+  onReinspect,
+  onCancel,
+  Button,
+}) => {
+  const latest = pickLatestReport(reports);
+  if (!latest) return null;
+  const canEditLatest = canEdit(latest);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
+      <div className="bg-white p-4 rounded shadow w-full max-w-sm space-y-3 border border-slate-200">
+        <p className="text-lg font-bold">⚠ 此機台已有報告</p>
+        <p className="text-sm text-slate-600">
+          型號 {latest.model}／序號 {latest.serial} 的「{latest.process}」已有{" "}
+          {reports.length} 份報告：
+        </p>
+        <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 rounded border border-slate-200 text-sm">
+          {reports.map((r) => (
+            <li key={r.id} className="px-2 py-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium break-all">{r.id}</span>
+                <span className="shrink-0 text-xs text-slate-500">
+                  {REPORT_STATUS_LABEL[getReportStatus(r)]}
+                </span>
+              </div>
+              <div className="text-xs text-slate-500">
+                {r.created_at ? new Date(r.created_at).toLocaleString() : "—"}
+                {r.created_by ? `｜${r.created_by}` : ""}
+                {r.reinspection_of ? `｜複檢（原 ${r.reinspection_of}）` : ""}
+              </div>
+            </li>
+          ))}
+        </ul>
+        <div className="space-y-2">
+          <Button
+            type="button"
+            className="w-full"
+            disabled={!canEditLatest}
+            title={canEditLatest ? "" : "目前帳號沒有編輯此報告的權限"}
+            onClick={() => onEdit(latest)}
+          >
+            開啟最新報告編輯（{latest.id}）
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            className="w-full"
+            onClick={() => onReinspect(latest)}
+          >
+            建立複檢（連結至 {latest.id}）
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            className="w-full"
+            onClick={onCancel}
+          >
+            取消
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReportModal;
@@ -1,4 +1,18 @@
 import React, { useEffect, useRef, useState } from "react";
+import type {
+  ExistingPhoto,
+  ExistingPhotoChange,
+  InspectionItem,
+  ItemVerdict,
+  MeasurementSpec,
+  PassFail,
+} from "../types";
+import {
+  describeSpec,
+  isWithinSpec,
+  parseMeasurementInput,
+} from "../utils/measurementUtils";
+import { VERDICT_COLOR, VERDICT_LABEL } from "../utils/verdictUtils";
 
 type ButtonComponent = React.ComponentType<
   React.ButtonHTMLAttributes<HTMLButtonElement> & {
@@ -9,33 +23,50 @@ type ButtonComponent = React.ComponentType<
 >;
 
 type StatusIconComponent = React.ComponentType<{
-  kind: "ok" | "ng" | "na";
+  kind: ItemVerdict;
   className?: string;
   title?: string;
 }>;
 
 type Props = {
-  items: string[];
+  items: InspectionItem[];
   images: Record<string, string[]>;
   naState: Record<string, boolean>;
-  onSetNA: (item: string) => void;
-  onClearNA: (item: string) => void;
-  onCapture: (item: string, files: FileList | File[] | undefined) => void;
-  onClearNewPhotos?: (item: string) => void;
+  verdicts: Record<string, PassFail>;
+  // 以下 callback 皆以項目 id 呼叫
+  onSetVerdict: (itemId: string, verdict: ItemVerdict) => void;
+  specs?: Record<string, MeasurementSpec>;
+  measurementInputs?: Record<string, string>;
+  onMeasurementChange?: (itemId: string, raw: string) => void;
+  onCapture: (itemId: string, files: FileList | File[] | undefined) => void;
+  onClearNewPhotos?: (itemId: string) => void;
   inputIdPrefix: string;
-  getExistingCount?: (item: string) => number;
-  getNewCount?: (item: string) => number;
+  getExistingCount?: (itemId: string) => number;
+  getNewCount?: (itemId: string) => number;
   onActionClick?: (event: React.MouseEvent<HTMLButtonElement>) => void;
   Button: ButtonComponent;
   StatusIcon: StatusIconComponent;
+  // 無 N/A 權限時不提供 N/A 選項（既有的 N/A 仍會顯示）
+  allowNA?: boolean;
+  // 編輯報告時：既有照片縮圖，可逐張刪除 / 替換（以 Storage 路徑為 key）
+  existingPhotos?: Record<string, ExistingPhoto[]>;
+  photoChanges?: Record<string, ExistingPhotoChange>;
+  onDeletePhoto?: (itemId: string, path: string) => void;
+  onReplacePhoto?: (itemId: string, path: string, file: File) => void;
+  onRestorePhoto?: (path: string) => void;
 };
 
+const VERDICT_OPTIONS: ItemVerdict[] = ["ok", "ng", "na", "pending"];
+
 const InspectionItemsEditor: React.FC<Props> = ({
   items,
   images,
   naState,
-  onSetNA,
-  onClearNA,
+  verdicts,
+  onSetVerdict,
+  specs = {},
+  measurementInputs = {},
+  onMeasurementChange,
   onCapture,
   onClearNewPhotos,
   inputIdPrefix,
@@ -44,16 +75,24 @@ const InspectionItemsEditor: React.FC<Props> = ({
   onActionClick,
   Button,
   StatusIcon,
+  allowNA = true,
+  existingPhotos = {},
+  photoChanges = {},
+  onDeletePhoto,
+  onReplacePhoto,
+  onRestorePhoto,
 }) => {
   const [menuItem, setMenuItem] = useState<string | null>(null);
+  const [verdictMenuItem, setVerdictMenuItem] = useState<string | null>(null);
   const menuRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
-    if (!menuItem) return;
+    if (!menuItem && !verdictMenuItem) return;
     const handlePointerDown = (event: MouseEvent) => {
       const target = event.target as Node;
       if (menuRef.current && !menuRef.current.contains(target)) {
         setMenuItem(null);
+        setVerdictMenuItem(null);
       }
     };
 
@@ -61,40 +100,43 @@ const InspectionItemsEditor: React.FC<Props> = ({
     return () => {
       document.removeEventListener("mousedown", handlePointerDown);
     };
-  }, [menuItem]);
+  }, [menuItem, verdictMenuItem]);
 
-  const resolveNewCount = (item: string) =>
-    getNewCount ? getNewCount(item) : images[item]?.length || 0;
-  const resolveExistingCount = (item: string) =>
-    getExistingCount ? getExistingCount(item) : 0;
+  const resolveNewCount = (itemId: string) =>
+    getNewCount ? getNewCount(itemId) : images[itemId]?.length || 0;
+  const resolveExistingCount = (itemId: string) =>
+    getExistingCount ? getExistingCount(itemId) : 0;
 
   return (
     <div className="space-y-2 mt-2">
-      {items.map((item, idx) => {
-        const existingCount = resolveExistingCount(item);
-        const newCount = resolveNewCount(item);
+      {items.map(({ id: itemId, name }, idx) => {
+        const existingCount = resolveExistingCount(itemId);
+        const newCount = resolveNewCount(itemId);
         const total = existingCount + newCount;
-        const isNA = !!naState[item];
-        const statusKind: "ok" | "ng" | "na" = isNA
+        const statusKind: ItemVerdict = naState[itemId]
           ? "na"
-          : total > 0
-          ? "ok"
-          : "ng";
-        const statusColor = isNA
-          ? "text-slate-600"
-          : total > 0
-          ? "text-green-600"
-          : "text-slate-400";
+          : verdicts[itemId] ?? "pending";
+        const statusColor = VERDICT_COLOR[statusKind];
         const captureId = `${inputIdPrefix}-capture-${idx}`;
         const uploadId = `${inputIdPrefix}-upload-${idx}`;
-        const isMenuOpen = menuItem === item;
+        const isMenuOpen = menuItem === itemId;
+        const isVerdictMenuOpen = verdictMenuItem === itemId;
+        const spec = specs[itemId];
+        const measurementRaw = measurementInputs[itemId] ?? "";
+        const measurementValue = spec
+          ? parseMeasurementInput(measurementRaw, spec)
+          : null;
+        const isOutOfSpec =
+          !!spec && measurementValue !== null && !isWithinSpec(measurementValue, spec);
+        const isInvalidMeasurement =
+          !!spec && measurementRaw.trim() !== "" && measurementValue === null;
 
         return (
           <div
-            key={`${item}-${idx}`}
+            key={`${itemId}-${idx}`}
             className="grid grid-cols-[minmax(0,1fr)_auto] items-center gap-2"
           >
-            <span className="min-w-0 break-words">{item}</span>
+            <span className="min-w-0 break-words">{name}</span>
 
             <div className="flex items-center gap-2 shrink-0">
               <span className="text-xs text-slate-500 w-6 text-right tabular-nums">
@@ -107,8 +149,9 @@ const InspectionItemsEditor: React.FC<Props> = ({
                   size="sm"
                   onClick={(event) => {
                     onActionClick?.(event);
+                    setVerdictMenuItem(null);
                     if (newCount > 0 && onClearNewPhotos) {
-                      setMenuItem((prev) => (prev === item ? null : item));
+                      setMenuItem((prev) => (prev === itemId ? null : itemId));
                       return;
                     }
                     setMenuItem(null);
@@ -140,7 +183,7 @@ const InspectionItemsEditor: React.FC<Props> = ({
                       onClick={(event) => {
                         event.stopPropagation();
                         setMenuItem(null);
-                        onClearNewPhotos?.(item);
+                        onClearNewPhotos?.(itemId);
                       }}
                     >
                       刪除本次照片
@@ -155,29 +198,171 @@ const InspectionItemsEditor: React.FC<Props> = ({
                 onClick={(event) => {
                   onActionClick?.(event);
                   setMenuItem(null);
+                  setVerdictMenuItem(null);
                   (document.getElementById(uploadId) as HTMLInputElement)?.click();
                 }}
               >
                 上傳
               </Button>
 
-              <button
-                type="button"
-                className={`w-8 h-8 inline-flex items-center justify-center ${statusColor}`}
-                onClick={(event) => {
-                  onActionClick?.(event);
-                  setMenuItem(null);
-                  if (isNA) {
-                    onClearNA(item);
-                  } else {
-                    onSetNA(item);
-                  }
-                }}
-              >
-                <StatusIcon kind={statusKind} />
-              </button>
+              <div className="relative" ref={isVerdictMenuOpen ? menuRef : null}>
+                <button
+                  type="button"
+                  className={`w-8 h-8 inline-flex items-center justify-center ${statusColor}`}
+                  title={VERDICT_LABEL[statusKind]}
+                  onClick={(event) => {
+                    onActionClick?.(event);
+                    setMenuItem(null);
+                    setVerdictMenuItem((prev) => (prev === itemId ? null : itemId));
+                  }}
+                >
+                  <StatusIcon kind={statusKind} title={VERDICT_LABEL[statusKind]} />
+                </button>
+
+                {isVerdictMenuOpen && (
+                  <div
+                    className="absolute right-0 z-20 mt-1 w-36 overflow-hidden rounded-md border border-slate-200 bg-white shadow-lg"
+                    onClick={(event) => event.stopPropagation()}
+                  >
+                    {VERDICT_OPTIONS.filter(
+                      (option) => allowNA || option !== "na"
+                    ).map((option) => (
+                      <button
+                        key={option}
+                        type="button"
+                        className={`flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-slate-50 ${
+                          option === statusKind ? "font-semibold" : ""
+                        } ${VERDICT_COLOR[option]}`}
+                        onClick={(event) => {
+                          event.stopPropagation();
+                          setVerdictMenuItem(null);
+                          onSetVerdict(itemId, option);
+                        }}
+                      >
+                        <StatusIcon kind={option} className="w-4 h-4" />
+                        {VERDICT_LABEL[option]}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
 
+            {spec && (
+              <div
+                className="col-span-2 flex flex-wrap items-center gap-2 pl-2 text-sm"
+                onClick={(event) => event.stopPropagation()}
+              >
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  step={spec.precision > 0 ? 1 / 10 ** spec.precision : 1}
+                  value={measurementRaw}
+                  disabled={statusKind === "na"}
+                  placeholder="量測值"
+                  onChange={(e) => onMeasurementChange?.(itemId, e.target.value)}
+                  className={`h-8 w-28 rounded-md border px-2 text-sm text-slate-900 focus-visible:outline-none focus-visible:border-blue-500 ${
+                    isOutOfSpec || isInvalidMeasurement
+                      ? "border-rose-400 bg-rose-50"
+                      : "border-slate-300 bg-white"
+                  }`}
+                />
+                <span className="text-slate-600">{spec.unit}</span>
+                <span className="text-xs text-slate-500">
+                  規格：{describeSpec(spec)}
+                </span>
+                {isOutOfSpec && (
+                  <span className="text-xs font-semibold text-rose-600">
+                    超出規格
+                  </span>
+                )}
+                {isInvalidMeasurement && (
+                  <span className="text-xs text-rose-600">格式錯誤</span>
+                )}
+              </div>
+            )}
+
+            {onDeletePhoto && (existingPhotos[itemId] || []).length > 0 && (
+              <div
+                className="col-span-2 flex flex-wrap gap-2 pl-2"
+                onClick={(event) => event.stopPropagation()}
+              >
+                {(existingPhotos[itemId] || []).map((photo, photoIdx) => {
+                  const change = photoChanges[photo.path];
+                  const replaceId = `${inputIdPrefix}-replace-${idx}-${photoIdx}`;
+                  return (
+                    <div key={photo.path} className="w-20 space-y-1 text-center">
+                      <div className="relative">
+                        <img
+                          src={change?.action === "replace" ? change.previewUrl : photo.url}
+                          alt={`${name} ${photoIdx + 1}`}
+                          className={`h-20 w-20 rounded border object-cover ${
+                            change?.action === "delete"
+                              ? "border-rose-300 opacity-40 grayscale"
+                              : change?.action === "replace"
+                                ? "border-blue-400"
+                                : "border-slate-200"
+                          }`}
+                        />
+                        {change && (
+                          <span
+                            className={`absolute left-0 top-0 rounded-br px-1 text-[10px] text-white ${
+                              change.action === "delete" ? "bg-rose-600" : "bg-blue-600"
+                            }`}
+                          >
+                            {change.action === "delete" ? "將刪除" : "將替換"}
+                          </span>
+                        )}
+                      </div>
+                      {change ? (
+                        <button
+                          type="button"
+                          className="w-full text-xs text-slate-600 underline"
+                          onClick={() => onRestorePhoto?.(photo.path)}
+                        >
+                          復原
+                        </button>
+                      ) : (
+                        <div className="flex justify-between text-xs">
+                          <button
+                            type="button"
+                            className="text-rose-600"
+                            onClick={() => onDeletePhoto(itemId, photo.path)}
+                          >
+                            刪除
+                          </button>
+                          {onReplacePhoto && (
+                            <button
+                              type="button"
+                              className="text-blue-600"
+                              onClick={() =>
+                                (document.getElementById(replaceId) as HTMLInputElement)?.click()
+                              }
+                            >
+                              替換
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {onReplacePhoto && (
+                        <input
+                          type="file"
+                          accept="image/*"
+                          id={replaceId}
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) onReplacePhoto(itemId, photo.path, file);
+                            e.currentTarget.value = "";
+                          }}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             <input
               type="file"
               accept="image/*"
@@ -185,7 +370,7 @@ const InspectionItemsEditor: React.FC<Props> = ({
               id={captureId}
               className="hidden"
               onChange={(e) => {
-                onCapture(item, e.target.files || undefined);
+                onCapture(itemId, e.target.files || undefined);
                 e.currentTarget.value = "";
               }}
             />
@@ -196,7 +381,7 @@ const InspectionItemsEditor: React.FC<Props> = ({
               className="hidden"
               multiple
               onChange={(e) => {
-                onCapture(item, e.target.files || undefined);
+                onCapture(itemId, e.target.files || undefined);
                 e.currentTarget.value = "";
               }}
             />
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import type { ProductModel } from "../types";
+import {
+  SERIAL_PATTERN_HINT,
+  getSerialPattern,
+  validateSerialPattern,
+} from "../utils/serialPatternUtils";
+
+type ButtonComponent = React.ComponentType<
+  React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    variant?: string;
+    size?: string;
+    className?: string;
+  }
+>;
+
+type InputComponent = React.ComponentType<
+  React.InputHTMLAttributes<HTMLInputElement> & { className?: string }
+>;
+
+type Props = {
+  // 製程中出現的型號
+  models: string[];
+  modelSettings: ProductModel[];
+  onSave: (model: string, pattern: string) => Promise<boolean>;
+  disabled?: boolean;
+  Button: ButtonComponent;
+  Input: InputComponent;
+};
+
+// 各產品型號的序號格式：新增檢驗時即時檢查序號
+const ModelSerialPatterns: React.FC<Props> = ({
+  models,
+  modelSettings,
+  onSave,
+  disabled,
+  Button,
+  Input,
+}) => {
+  // 尚未儲存的輸入（key 為型號）
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [savingModel, setSavingModel] = useState<string | null>(null);
+
+  const handleSave = async (model: string) => {
+    const pattern = drafts[model];
+    if (pattern === undefined) return;
+    setSavingModel(model);
+    const ok = await onSave(model, pattern);
+    setSavingModel(null);
+    if (!ok) return;
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[model];
+      return next;
+    });
+  };
+
+  return (
+    <div className="border border-slate-200 rounded p-2 space-y-2 text-sm">
+      <div className="font-semibold text-slate-700">產品型號序號格式</div>
+      <p className="text-xs text-slate-500">{SERIAL_PATTERN_HINT}</p>
+      {models.length === 0 ? (
+        <p className="text-xs text-slate-500">尚無型號（建立製程後即可設定）</p>
+      ) : (
+        <div className="space-y-2">
+          {models.map((model) => {
+            const saved = getSerialPattern(modelSettings, model);
+            const value = drafts[model] ?? saved;
+            const isDirty = drafts[model] !== undefined && drafts[model].trim() !== saved;
+            const patternError = validateSerialPattern(value);
+            return (
+              <div key={model} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="w-28 shrink-0 truncate text-slate-700" title={model}>
+                    {model}
+                  </span>
+                  <Input
+                    value={value}
+                    placeholder="不檢查"
+                    onChange={(e) =>
+                      setDrafts((prev) => ({ ...prev, [model]: e.target.value }))
+                    }
+                    disabled={disabled || savingModel === model}
+                    className={`h-8 flex-1 border-slate-200 text-slate-900 placeholder:text-slate-400 focus-visible:border-blue-500 ${
+                      patternError ? "border-rose-400" : ""
+                    }`}
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="secondary"
+                    className="shrink-0"
+                    disabled={disabled || !isDirty || !!patternError || savingModel === model}
+                    onClick={() => handleSave(model)}
+                  >
+                    {savingModel === model ? "儲存中..." : "儲存"}
+                  </Button>
+                </div>
+                {patternError && (
+                  <p className="text-xs text-rose-600">{patternError}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelSerialPatterns;
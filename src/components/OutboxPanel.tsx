@@ -0,0 +1,182 @@
+import React, { useState } from "react";
+import type {
+  OutboxEntry,
+  OutboxPhotoStatus,
+  OutboxStatus,
+} from "../services/outboxService";
+import { getItemName } from "../utils/itemUtils";
+
+type ButtonComponent = React.ComponentType<
+  React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    variant?: string;
+    size?: string;
+    className?: string;
+  }
+>;
+
+type Props = {
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  onRetry: (localId: string) => void;
+  onDiscard: (localId: string) => void;
+  Button: ButtonComponent;
+};
+
+const STATUS_LABEL: Record<OutboxStatus, string> = {
+  pending: "等待上傳",
+  uploading: "上傳中",
+  failed: "上傳失敗",
+};
+
+const STATUS_COLOR: Record<OutboxStatus, string> = {
+  pending: "text-slate-600",
+  uploading: "text-blue-600",
+  failed: "text-rose-600",
+};
+
+const PHOTO_STATUS_LABEL: Record<OutboxPhotoStatus, string> = {
+  pending: "等待",
+  uploading: "上傳中",
+  done: "完成",
+  failed: "失敗",
+};
+
+const PHOTO_STATUS_COLOR: Record<OutboxPhotoStatus, string> = {
+  pending: "text-slate-500",
+  uploading: "text-blue-600",
+  done: "text-green-600",
+  failed: "text-rose-600",
+};
+
+// 上傳佇列：列出尚未寫入雲端的報告與每張照片狀態
+const OutboxPanel: React.FC<Props> = ({
+  entries,
+  isOnline,
+  onRetry,
+  onDiscard,
+  Button,
+}) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold text-amber-800">
+          上傳佇列（{entries.length} 筆待上傳）
+        </span>
+        {!isOnline && (
+          <span className="text-xs text-rose-600">目前離線，連線後自動上傳</span>
+        )}
+      </div>
+
+      {entries.map((entry) => {
+        const doneCount = entry.photos.filter((p) => p.status === "done").length;
+        const isExpanded = expandedId === entry.localId;
+        const isUploading = entry.status === "uploading";
+        return (
+          <div
+            key={entry.localId}
+            className="rounded border border-amber-100 bg-white px-3 py-2 space-y-1"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <button
+                type="button"
+                className="text-left min-w-0"
+                onClick={() =>
+                  setExpandedId((prev) =>
+                    prev === entry.localId ? null : entry.localId
+                  )
+                }
+              >
+                <div className="font-medium break-all">
+                  {entry.reportId || "（尚未配發表單編號）"}
+                </div>
+                <div className="text-xs text-slate-600">
+                  {entry.report.process}｜{entry.report.model}｜
+                  {entry.report.serial}｜
+                  {new Date(entry.createdAt).toLocaleString()}
+                </div>
+              </button>
+              <div className="text-right shrink-0">
+                <div className={STATUS_COLOR[entry.status]}>
+                  {STATUS_LABEL[entry.status]}
+                </div>
+                <div className="text-xs text-slate-500">
+                  照片 {doneCount}/{entry.photos.length}
+                </div>
+              </div>
+            </div>
+
+            {entry.lastError && (
+              <div className="text-xs text-rose-600">
+                {entry.lastError}（已嘗試 {entry.attempts} 次
+                {entry.status === "failed" && entry.nextAttemptAt
+                  ? `，${new Date(entry.nextAttemptAt).toLocaleTimeString()} 自動重試`
+                  : ""}
+                ；已上傳的照片不會重傳）
+              </div>
+            )}
+
+            {isExpanded && (
+              <ul className="text-xs space-y-0.5 border-t border-slate-100 pt-1">
+                {entry.naItems.map((itemId) => (
+                  <li key={`na-${itemId}`} className="flex justify-between gap-2">
+                    <span className="truncate">
+                      {getItemName(entry.report.expected_items, itemId)}
+                    </span>
+                    <span className="text-slate-500">N/A</span>
+                  </li>
+                ))}
+                {entry.photos.map((photo) => (
+                  <li key={photo.fileKey} className="flex justify-between gap-2">
+                    <span className="truncate">
+                      {getItemName(entry.report.expected_items, photo.itemId)} #
+                      {photo.photoIndex}
+                    </span>
+                    <span className={PHOTO_STATUS_COLOR[photo.status]}>
+                      {PHOTO_STATUS_LABEL[photo.status]}
+                      {photo.error ? `（${photo.error}）` : ""}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant="secondary"
+                disabled={isUploading || !isOnline}
+                onClick={() => onRetry(entry.localId)}
+              >
+                立即重試
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="destructive"
+                disabled={isUploading}
+                onClick={() => {
+                  if (
+                    !window.confirm(
+                      "確定要捨棄此筆報告嗎？\n（尚未上傳的照片與資料將會刪除）"
+                    )
+                  )
+                    return;
+                  onDiscard(entry.localId);
+                }}
+              >
+                捨棄
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default OutboxPanel;
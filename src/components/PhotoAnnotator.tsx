@@ -0,0 +1,319 @@
+import React, { useEffect, useRef, useState } from "react";
+
+type Props = {
+  file: File;
+  // 回傳已燒入標註的 JPEG
+  onSave: (annotated: File) => void;
+  onCancel: () => void;
+};
+
+type Tool = "arrow" | "circle" | "pen" | "text";
+
+type Point = { x: number; y: number };
+
+// 座標皆為畫布（輸出影像）像素
+type Shape =
+  | { kind: "arrow" | "circle"; color: string; width: number; from: Point; to: Point }
+  | { kind: "pen"; color: string; width: number; points: Point[] }
+  | { kind: "text"; color: string; width: number; at: Point; text: string };
+
+const TOOLS: { tool: Tool; label: string }[] = [
+  { tool: "arrow", label: "箭頭" },
+  { tool: "circle", label: "圓圈" },
+  { tool: "pen", label: "手繪" },
+  { tool: "text", label: "文字" },
+];
+
+const COLORS = ["#ef4444", "#facc15", "#3b82f6", "#ffffff"];
+
+// 與上傳壓縮尺寸相同，標註後不會再被縮小
+const MAX_SIDE = 1600;
+const MIN_DRAG = 4;
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = document.createElement("img");
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("image load failed"));
+    };
+    img.src = url;
+  });
+
+const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape) => {
+  ctx.strokeStyle = shape.color;
+  ctx.fillStyle = shape.color;
+  ctx.lineWidth = shape.width;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  if (shape.kind === "pen") {
+    ctx.beginPath();
+    shape.points.forEach(({ x, y }, idx) =>
+      idx === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)
+    );
+    ctx.stroke();
+    return;
+  }
+
+  if (shape.kind === "text") {
+    ctx.font = `bold ${shape.width * 6}px sans-serif`;
+    ctx.textBaseline = "middle";
+    // 深色描邊，淺色背景上也看得清楚
+    ctx.lineWidth = shape.width;
+    ctx.strokeStyle = "rgba(0, 0, 0, 0.7)";
+    ctx.strokeText(shape.text, shape.at.x, shape.at.y);
+    ctx.fillText(shape.text, shape.at.x, shape.at.y);
+    return;
+  }
+
+  const { from, to } = shape;
+  if (shape.kind === "circle") {
+    ctx.beginPath();
+    ctx.ellipse(
+      (from.x + to.x) / 2,
+      (from.y + to.y) / 2,
+      Math.abs(to.x - from.x) / 2,
+      Math.abs(to.y - from.y) / 2,
+      0,
+      0,
+      Math.PI * 2
+    );
+    ctx.stroke();
+    return;
+  }
+
+  // 箭頭：主線 + 兩側各 25° 的箭頭
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const head = shape.width * 4;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  [-1, 1].forEach((side) => {
+    const a = angle + Math.PI - (side * 25 * Math.PI) / 180;
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x + head * Math.cos(a), to.y + head * Math.sin(a));
+  });
+  ctx.stroke();
+};
+
+// 照片標註：箭頭、圓圈、手繪、文字，完成後燒入 JPEG（原圖由呼叫端另外保留）
+const PhotoAnnotator: React.FC<Props> = ({ file, onSave, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [tool, setTool] = useState<Tool>("arrow");
+  const [color, setColor] = useState(COLORS[0]);
+  const [shapes, setShapes] = useState<Shape[]>([]);
+  const [draft, setDraft] = useState<Shape | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    loadImage(file)
+      .then((img) => {
+        if (active) setImage(img);
+      })
+      .catch(() => {
+        if (active) setLoadFailed(true);
+      });
+    return () => {
+      active = false;
+    };
+  }, [file]);
+
+  const size = (() => {
+    if (!image) return { width: 0, height: 0 };
+    const ratio = Math.min(1, MAX_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+    return {
+      width: Math.round(image.naturalWidth * ratio),
+      height: Math.round(image.naturalHeight * ratio),
+    };
+  })();
+  // 線寬依影像大小調整，縮圖顯示時仍清楚
+  const strokeWidth = Math.max(4, Math.round(Math.max(size.width, size.height) / 200));
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !image) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    [...shapes, ...(draft ? [draft] : [])].forEach((shape) => drawShape(ctx, shape));
+  }, [image, shapes, draft, size.width, size.height]);
+
+  // 螢幕座標 → 畫布像素
+  const toCanvasPoint = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * size.width,
+      y: ((event.clientY - rect.top) / rect.height) * size.height,
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(event);
+    if (tool === "text") {
+      const text = window.prompt("輸入標註文字")?.trim();
+      if (text) {
+        setShapes((prev) => [
+          ...prev,
+          { kind: "text", color, width: strokeWidth, at: point, text },
+        ]);
+      }
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft(
+      tool === "pen"
+        ? { kind: "pen", color, width: strokeWidth, points: [point] }
+        : { kind: tool, color, width: strokeWidth, from: point, to: point }
+    );
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const point = toCanvasPoint(event);
+    setDraft((prev) => {
+      if (!prev || prev.kind === "text") return prev;
+      return prev.kind === "pen"
+        ? { ...prev, points: [...prev.points, point] }
+        : { ...prev, to: point };
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const isTooSmall =
+      draft.kind === "pen"
+        ? draft.points.length < 2
+        : draft.kind !== "text" &&
+          Math.hypot(draft.to.x - draft.from.x, draft.to.y - draft.from.y) < MIN_DRAG;
+    if (!isTooSmall) setShapes((prev) => [...prev, draft]);
+    setDraft(null);
+  };
+
+  const handleSave = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || isSaving) return;
+    setIsSaving(true);
+    canvas.toBlob(
+      (blob) => {
+        setIsSaving(false);
+        if (!blob) {
+          alert("標註輸出失敗，請再試一次");
+          return;
+        }
+        const baseName = (file.name || "image").replace(/\.[^.]+$/, "");
+        onSave(
+          new File([blob], `${baseName}-annotated.jpg`, {
+            type: "image/jpeg",
+            lastModified: Date.now(),
+          })
+        );
+      },
+      "image/jpeg",
+      0.92
+    );
+  };
+
+  const toolButtonClass = (active: boolean) =>
+    `h-8 rounded px-2 text-sm ${
+      active ? "bg-white text-slate-900" : "text-white hover:bg-white/15"
+    }`;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      className="fixed inset-0 z-[60] flex flex-col bg-black/95 text-white"
+    >
+      <div className="flex flex-wrap items-center gap-1 px-3 py-2 pt-[max(0.5rem,env(safe-area-inset-top))]">
+        {TOOLS.map(({ tool: option, label }) => (
+          <button
+            key={option}
+            type="button"
+            className={toolButtonClass(tool === option)}
+            onClick={() => setTool(option)}
+          >
+            {label}
+          </button>
+        ))}
+        <span className="mx-1 h-5 w-px bg-white/30" />
+        {COLORS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            title={option}
+            className={`h-7 w-7 rounded-full border-2 ${
+              color === option ? "border-white" : "border-transparent"
+            }`}
+            style={{ backgroundColor: option }}
+            onClick={() => setColor(option)}
+          />
+        ))}
+        <span className="mx-1 h-5 w-px bg-white/30" />
+        <button
+          type="button"
+          className={toolButtonClass(false)}
+          disabled={shapes.length === 0}
+          onClick={() => setShapes((prev) => prev.slice(0, -1))}
+        >
+          復原
+        </button>
+        <button
+          type="button"
+          className={toolButtonClass(false)}
+          disabled={shapes.length === 0}
+          onClick={() => setShapes([])}
+        >
+          清除
+        </button>
+      </div>
+
+      <div className="relative flex flex-1 items-center justify-center overflow-hidden p-2">
+        {loadFailed ? (
+          <p className="text-sm text-slate-300">照片讀取失敗</p>
+        ) : image ? (
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            className="max-h-full max-w-full touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        ) : (
+          <p className="text-sm text-slate-300">載入中...</p>
+        )}
+      </div>
+
+      <div className="flex gap-2 px-3 py-2 pb-[max(0.5rem,env(safe-area-inset-bottom))]">
+        <button
+          type="button"
+          className="h-10 flex-1 rounded border border-white/40 text-sm hover:bg-white/10"
+          onClick={onCancel}
+        >
+          取消
+        </button>
+        <button
+          type="button"
+          className="h-10 flex-1 rounded bg-blue-600 text-sm font-semibold hover:bg-blue-700 disabled:opacity-50"
+          disabled={!image || shapes.length === 0 || isSaving}
+          onClick={handleSave}
+        >
+          {isSaving ? "處理中..." : "完成標註"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoAnnotator;
@@ -0,0 +1,351 @@
+import React, { useEffect, useRef, useState } from "react";
+
+export type LightboxItem = {
+  id: string;
+  name: string;
+  photos: string[];
+  // 與 photos 對應的說明文字（如拍攝時間）
+  captions?: string[];
+  // 沒有照片時顯示的說明（如 N/A、尚未拍攝）
+  emptyText?: string;
+};
+
+type Props = {
+  items: LightboxItem[];
+  initialItemIndex?: number;
+  initialPhotoIndex?: number;
+  onClose: () => void;
+  // 照片為 Storage 路徑時，由此取得可顯示的 URL（回傳空字串表示失敗）
+  resolveUrl?: (raw: string) => Promise<string>;
+};
+
+type View = { scale: number; x: number; y: number; rotation: number };
+
+type Gesture =
+  | { mode: "pinch"; startDist: number; startScale: number }
+  | {
+      mode: "drag";
+      startX: number;
+      startY: number;
+      originX: number;
+      originY: number;
+      // 雙指縮放後剩一指時只平移，不觸發換張
+      allowSwipe: boolean;
+    };
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const ZOOM_STEP = 1.5;
+const SWIPE_THRESHOLD = 50;
+const TAP_TOLERANCE = 10;
+const DOUBLE_TAP_MS = 300;
+
+const INITIAL_VIEW: View = { scale: 1, x: 0, y: 0, rotation: 0 };
+
+const clampScale = (scale: number) =>
+  Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// 縮回原尺寸時一併歸位
+const withScale = (view: View, scale: number): View => {
+  const next = clampScale(scale);
+  return next === MIN_SCALE
+    ? { ...view, scale: next, x: 0, y: 0 }
+    : { ...view, scale: next };
+};
+
+const pointerDistance = (points: Map<number, { x: number; y: number }>) => {
+  const [a, b] = [...points.values()];
+  return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+};
+
+const toolButtonClass =
+  "h-8 min-w-8 rounded px-2 text-sm text-white hover:bg-white/15 disabled:opacity-40";
+
+// 全螢幕照片檢視：雙指 / 滾輪縮放、拖曳平移、左右滑換張（跨項目）、上下滑換項目、旋轉
+const PhotoLightbox: React.FC<Props> = ({
+  items,
+  initialItemIndex = 0,
+  initialPhotoIndex = 0,
+  onClose,
+  resolveUrl,
+}) => {
+  const [position, setPosition] = useState(() => {
+    const item = Math.min(Math.max(initialItemIndex, 0), Math.max(items.length - 1, 0));
+    const count = items[item]?.photos.length || 0;
+    return { item, photo: Math.min(Math.max(initialPhotoIndex, 0), Math.max(count - 1, 0)) };
+  });
+  const [view, setView] = useState<View>(INITIAL_VIEW);
+  const [isGesturing, setIsGesturing] = useState(false);
+  const [resolved, setResolved] = useState<Record<string, string>>({});
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<Gesture | null>(null);
+  const lastTapRef = useRef(0);
+
+  const item = items[position.item];
+  const photos = item?.photos || [];
+  const raw = photos[position.photo] ?? "";
+  const caption = item?.captions?.[position.photo] ?? "";
+  const src = resolveUrl ? resolved[raw] : raw;
+
+  // 換照片時重設縮放與旋轉
+  useEffect(() => {
+    setView(INITIAL_VIEW);
+  }, [position.item, position.photo]);
+
+  useEffect(() => {
+    if (!resolveUrl || !raw || resolved[raw] !== undefined) return;
+    resolveUrl(raw).then((url) =>
+      setResolved((prev) => ({ ...prev, [raw]: url }))
+    );
+  }, [raw, resolveUrl, resolved]);
+
+  // 左右換張：超出本項目的照片時跳到相鄰項目（往前時停在最後一張）
+  const stepPhoto = (delta: 1 | -1) => {
+    if (items.length === 0) return;
+    setPosition(({ item: i, photo: p }) => {
+      const nextPhoto = p + delta;
+      if (nextPhoto >= 0 && nextPhoto < (items[i]?.photos.length || 0)) {
+        return { item: i, photo: nextPhoto };
+      }
+      const nextItem = (i + delta + items.length) % items.length;
+      const count = items[nextItem]?.photos.length || 0;
+      return { item: nextItem, photo: delta > 0 ? 0 : Math.max(count - 1, 0) };
+    });
+  };
+
+  const stepItem = (delta: 1 | -1) => {
+    if (items.length === 0) return;
+    setPosition(({ item: i }) => ({
+      item: (i + delta + items.length) % items.length,
+      photo: 0,
+    }));
+  };
+
+  const zoomBy = (factor: number) => setView((v) => withScale(v, v.scale * factor));
+  const rotate = () => setView((v) => ({ ...v, rotation: (v.rotation + 90) % 360 }));
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+      else if (event.key === "ArrowLeft") stepPhoto(-1);
+      else if (event.key === "ArrowRight") stepPhoto(1);
+      else if (event.key === "ArrowUp") stepItem(-1);
+      else if (event.key === "ArrowDown") stepItem(1);
+      else if (event.key === "+" || event.key === "=") zoomBy(ZOOM_STEP);
+      else if (event.key === "-") zoomBy(1 / ZOOM_STEP);
+      else if (event.key === "r" || event.key === "R") rotate();
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [onClose, items]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const points = pointersRef.current;
+    points.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    setIsGesturing(true);
+    if (points.size === 2) {
+      gestureRef.current = {
+        mode: "pinch",
+        startDist: pointerDistance(points),
+        startScale: view.scale,
+      };
+    } else if (points.size === 1) {
+      gestureRef.current = {
+        mode: "drag",
+        startX: event.clientX,
+        startY: event.clientY,
+        originX: view.x,
+        originY: view.y,
+        allowSwipe: true,
+      };
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const points = pointersRef.current;
+    if (!points.has(event.pointerId)) return;
+    points.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+
+    if (gesture.mode === "pinch") {
+      const dist = pointerDistance(points);
+      if (gesture.startDist > 0 && dist > 0) {
+        setView((v) => withScale(v, (gesture.startScale * dist) / gesture.startDist));
+      }
+      return;
+    }
+    if (view.scale > MIN_SCALE) {
+      setView((v) => ({
+        ...v,
+        x: gesture.originX + event.clientX - gesture.startX,
+        y: gesture.originY + event.clientY - gesture.startY,
+      }));
+    }
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    const points = pointersRef.current;
+    if (!points.has(event.pointerId)) return;
+    points.delete(event.pointerId);
+    const gesture = gestureRef.current;
+
+    if (points.size === 1) {
+      // 雙指放開一指：以剩下的手指繼續平移
+      const [rest] = [...points.values()];
+      gestureRef.current = {
+        mode: "drag",
+        startX: rest.x,
+        startY: rest.y,
+        originX: view.x,
+        originY: view.y,
+        allowSwipe: false,
+      };
+      return;
+    }
+    gestureRef.current = null;
+    setIsGesturing(false);
+    if (points.size > 0 || gesture?.mode !== "drag") return;
+
+    const dx = event.clientX - gesture.startX;
+    const dy = event.clientY - gesture.startY;
+    if (Math.hypot(dx, dy) < TAP_TOLERANCE) {
+      // 雙擊 / 雙點：放大 2 倍或還原
+      const now = Date.now();
+      if (now - lastTapRef.current < DOUBLE_TAP_MS) {
+        setView((v) => withScale(v, v.scale > MIN_SCALE ? MIN_SCALE : 2));
+        lastTapRef.current = 0;
+      } else {
+        lastTapRef.current = now;
+      }
+      return;
+    }
+    if (!gesture.allowSwipe || view.scale > MIN_SCALE) return;
+    if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+      stepPhoto(dx < 0 ? 1 : -1);
+    } else if (Math.abs(dy) > SWIPE_THRESHOLD) {
+      stepItem(dy < 0 ? 1 : -1);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      className="fixed inset-0 z-[60] flex flex-col bg-black/95 text-white"
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-2 pt-[max(0.5rem,env(safe-area-inset-top))]">
+        <div className="min-w-0">
+          <div className="truncate font-semibold">{item?.name ?? "—"}</div>
+          <div className="text-xs tabular-nums text-slate-300">
+            項目 {items.length > 0 ? position.item + 1 : 0}/{items.length}
+            {photos.length > 0 && `｜照片 ${position.photo + 1}/${photos.length}`}
+            {caption && `｜${caption}`}
+          </div>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <button
+            type="button"
+            className={toolButtonClass}
+            title="縮小"
+            disabled={view.scale <= MIN_SCALE}
+            onClick={() => zoomBy(1 / ZOOM_STEP)}
+          >
+            −
+          </button>
+          <span className="w-10 text-center text-xs tabular-nums text-slate-300">
+            {Math.round(view.scale * 100)}%
+          </span>
+          <button
+            type="button"
+            className={toolButtonClass}
+            title="放大"
+            disabled={view.scale >= MAX_SCALE}
+            onClick={() => zoomBy(ZOOM_STEP)}
+          >
+            ＋
+          </button>
+          <button type="button" className={toolButtonClass} title="旋轉" onClick={rotate}>
+            ⟳
+          </button>
+          <button
+            type="button"
+            className={toolButtonClass}
+            title="還原"
+            onClick={() => setView(INITIAL_VIEW)}
+          >
+            還原
+          </button>
+          <button type="button" className={toolButtonClass} title="關閉" onClick={onClose}>
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 overflow-hidden">
+        <div
+          className="absolute inset-0 flex touch-none select-none items-center justify-center"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onWheel={(event) => {
+            const factor = Math.exp(-event.deltaY * 0.002);
+            setView((v) => withScale(v, v.scale * factor));
+          }}
+        >
+          {photos.length === 0 ? (
+            <p className="text-sm text-slate-300">{item?.emptyText || "尚未拍攝"}</p>
+          ) : src ? (
+            <img
+              src={src}
+              alt={`${item?.name ?? ""} ${position.photo + 1}`}
+              draggable={false}
+              className="max-h-full max-w-full object-contain"
+              style={{
+                transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale}) rotate(${view.rotation}deg)`,
+                transition: isGesturing ? "none" : "transform 150ms ease-out",
+              }}
+            />
+          ) : (
+            <p className="text-sm text-slate-300">
+              {src === "" ? "照片載入失敗" : "載入中..."}
+            </p>
+          )}
+        </div>
+
+        <button
+          type="button"
+          className="absolute left-1 top-1/2 -translate-y-1/2 rounded-full bg-white/10 px-3 py-2 text-lg hover:bg-white/20"
+          title="上一張"
+          onClick={() => stepPhoto(-1)}
+        >
+          ‹
+        </button>
+        <button
+          type="button"
+          className="absolute right-1 top-1/2 -translate-y-1/2 rounded-full bg-white/10 px-3 py-2 text-lg hover:bg-white/20"
+          title="下一張"
+          onClick={() => stepPhoto(1)}
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-3 py-2 pb-[max(0.5rem,env(safe-area-inset-bottom))] text-sm">
+        <button type="button" className={toolButtonClass} onClick={() => stepItem(-1)}>
+          ⬆ 上一項
+        </button>
+        <span className="text-xs text-slate-400">左右滑動換張，上下滑動換項目</span>
+        <button type="button" className={toolButtonClass} onClick={() => stepItem(1)}>
+          下一項 ⬇
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoLightbox;
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from "react";
+import type { AuditLogEntry } from "../services/auditService";
+import type { Report } from "../types";
+import { AUDIT_ACTION_LABEL, describeAuditMeta } from "../utils/auditUtils";
+import { describeReportDiff, type ReportDiff } from "../utils/reportDiff";
+import ReportVersionCompare from "./ReportVersionCompare";
+
+type Props = {
+  report: Report;
+  fetchReportTimeline: (reportId: string) => Promise<AuditLogEntry[] | null>;
+};
+
+// 報告歷程：展開報告時載入該報告的稽核紀錄（建立 / 修改 / 上傳照片）
+const ReportTimeline: React.FC<Props> = ({ report, fetchReportTimeline }) => {
+  const [entries, setEntries] = useState<AuditLogEntry[] | null>(null);
+  const [status, setStatus] = useState<"loading" | "ready" | "error">("loading");
+
+  useEffect(() => {
+    let active = true;
+    setStatus("loading");
+    fetchReportTimeline(report.id).then((list) => {
+      if (!active) return;
+      setEntries(list);
+      setStatus(list ? "ready" : "error");
+    });
+    return () => {
+      active = false;
+    };
+    // 報告儲存後（內容變動）重新載入
+  }, [report.id, report.edited_by, report.images]);
+
+  return (
+    <div className="border-t border-slate-200 pt-2 text-sm">
+      <div className="font-semibold text-slate-700 mb-1">報告歷程</div>
+      {status === "loading" && <p className="text-xs text-slate-500">載入中...</p>}
+      {status === "error" && (
+        <p className="text-xs text-rose-600">歷程載入失敗</p>
+      )}
+      {status === "ready" && entries && entries.length === 0 && (
+        <p className="text-xs text-slate-500">
+          尚無紀錄
+          {report.created_by ? `（建立者：${report.created_by}）` : ""}
+        </p>
+      )}
+      {status === "ready" && entries && entries.length > 0 && (
+        <ol className="space-y-1 border-l border-slate-300 pl-3">
+          {entries.map((entry) => {
+            // 修改紀錄逐項列出差異，其餘顯示一行摘要
+            const diffLines = entry.meta?.diff
+              ? describeReportDiff(
+                  entry.meta.diff as ReportDiff,
+                  report.expected_items || []
+                )
+              : [];
+            const detail = diffLines.length > 0 ? "" : describeAuditMeta(entry);
+            return (
+              <li key={entry.id} className="text-xs text-slate-600">
+                <span className="tabular-nums text-slate-500">
+                  {new Date(entry.created_at).toLocaleString()}
+                </span>{" "}
+                <span className="font-medium text-slate-800">
+                  {entry.username || "未知帳號"}
+                </span>{" "}
+                {AUDIT_ACTION_LABEL[entry.action] ?? entry.action}
+                {detail && `（${detail}）`}
+                {diffLines.length > 0 && (
+                  <ul className="ml-3 list-disc pl-3 text-slate-500">
+                    {diffLines.map((line, idx) => (
+                      <li key={idx}>{line}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {status === "ready" && entries && (
+        <ReportVersionCompare report={report} entries={entries} />
+      )}
+    </div>
+  );
+};
+
+export default ReportTimeline;
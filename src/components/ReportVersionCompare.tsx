@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { AuditLogEntry } from "../services/auditService";
+import type { ItemVerdict, Report } from "../types";
+import { normalizeImageValue } from "../utils/imageUtils";
+import { formatMeasurement } from "../utils/measurementUtils";
+import type { ReportSnapshot } from "../utils/reportDiff";
+import { VERDICT_COLOR, VERDICT_LABEL, getItemVerdict } from "../utils/verdictUtils";
+
+type Props = {
+  report: Report;
+  // 報告歷程（舊到新）
+  entries: AuditLogEntry[];
+};
+
+type ReportVersion = {
+  label: string;
+  report: Report;
+};
+
+type ItemState = {
+  verdict: ItemVerdict;
+  photoCount: number;
+  measurement: string;
+};
+
+// 由修改紀錄的「修改前快照」還原各版本：
+// 第 k 次修改的 before 即為版本 k，目前的報告為最後一版
+const buildVersions = (report: Report, entries: AuditLogEntry[]) => {
+  const updates = entries.filter(
+    (entry) => entry.action === "report_update" && entry.meta?.before
+  );
+  const createdAt = report.created_at ?? entries[0]?.created_at ?? null;
+
+  const versions: ReportVersion[] = updates.map((entry, idx) => {
+    const snapshot = entry.meta!.before as ReportSnapshot;
+    const since = idx === 0 ? createdAt : updates[idx - 1].created_at;
+    return {
+      label: `版本 ${idx + 1}｜${since ? new Date(since).toLocaleString() : "—"}｜${
+        snapshot.edited_by || "—"
+      }`,
+      report: { ...report, ...snapshot },
+    };
+  });
+  const lastAt = updates.length > 0 ? updates[updates.length - 1].created_at : createdAt;
+  versions.push({
+    label: `版本 ${updates.length + 1}（目前）｜${
+      lastAt ? new Date(lastAt).toLocaleString() : "—"
+    }｜${report.edited_by || "—"}`,
+    report,
+  });
+  return versions;
+};
+
+const getItemState = (report: Report, itemId: string): ItemState => {
+  const spec = report.expected_specs?.[itemId];
+  const value = report.measurements?.[itemId];
+  return {
+    verdict: getItemVerdict(report, itemId),
+    photoCount: normalizeImageValue(report.images?.[itemId]).length,
+    measurement:
+      spec && value !== undefined ? `${formatMeasurement(value, spec)} ${spec.unit}` : "",
+  };
+};
+
+const isSameState = (a: ItemState, b: ItemState) =>
+  a.verdict === b.verdict &&
+  a.photoCount === b.photoCount &&
+  a.measurement === b.measurement;
+
+const StateCell: React.FC<{ state: ItemState }> = ({ state }) => (
+  <td className="px-2 py-1 whitespace-nowrap">
+    <span className={VERDICT_COLOR[state.verdict]}>
+      {VERDICT_LABEL[state.verdict]}
+    </span>
+    <span className="text-slate-500">｜照片 {state.photoCount}</span>
+    {state.measurement && (
+      <span className="text-slate-500">｜{state.measurement}</span>
+    )}
+  </td>
+);
+
+// 版本比較：選擇兩個版本，逐項列出判定 / 照片數 / 量測值
+const ReportVersionCompare: React.FC<Props> = ({ report, entries }) => {
+  const versions = useMemo(() => buildVersions(report, entries), [report, entries]);
+  const [fromIndex, setFromIndex] = useState(Math.max(versions.length - 2, 0));
+  const [toIndex, setToIndex] = useState(versions.length - 1);
+
+  // 版本數變動（報告剛被修改）時回到「前一版 vs 目前」
+  useEffect(() => {
+    setFromIndex(Math.max(versions.length - 2, 0));
+    setToIndex(versions.length - 1);
+  }, [versions.length]);
+
+  if (versions.length < 2) return null;
+
+  const from = versions[fromIndex] ?? versions[0];
+  const to = versions[toIndex] ?? versions[versions.length - 1];
+  const selectClass =
+    "w-full border border-slate-200 bg-white text-slate-900 p-1 rounded text-xs focus-visible:outline-none focus-visible:border-blue-500";
+
+  return (
+    <div className="space-y-2 pt-2">
+      <div className="font-semibold text-slate-700">版本比較</div>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          className={selectClass}
+          value={fromIndex}
+          onChange={(e) => setFromIndex(Number(e.target.value))}
+        >
+          {versions.map((version, idx) => (
+            <option key={idx} value={idx}>
+              {version.label}
+            </option>
+          ))}
+        </select>
+        <select
+          className={selectClass}
+          value={toIndex}
+          onChange={(e) => setToIndex(Number(e.target.value))}
+        >
+          {versions.map((version, idx) => (
+            <option key={idx} value={idx}>
+              {version.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="px-2 py-1">項目</th>
+              <th className="px-2 py-1">版本 {fromIndex + 1}</th>
+              <th className="px-2 py-1">版本 {toIndex + 1}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(report.expected_items || []).map((item) => {
+              const a = getItemState(from.report, item.id);
+              const b = getItemState(to.report, item.id);
+              const changed = !isSameState(a, b);
+              return (
+                <tr
+                  key={item.id}
+                  className={changed ? "bg-amber-50 font-medium" : "text-slate-600"}
+                >
+                  <td className="px-2 py-1 break-words">{item.name}</td>
+                  <StateCell state={a} />
+                  <StateCell state={b} />
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReportVersionCompare;
@@ -5,35 +5,80 @@ import {
   type Dispatch,
   type SetStateAction,
 } from "react";
+import type {
+  InspectionItem,
+  MeasurementSpec,
+  PassFail,
+  PhotoAgePolicy,
+  Process,
+  Report,
+  WatermarkConfig,
+} from "../types";
+import {
+  DRAFT_STORE,
+  fileToStoredFile,
+  idbDel,
+  idbGet,
+  idbSet,
+  storedFileToFile,
+  type StoredFile,
+} from "../services/localDb";
+import { createItemId, remapKeysToItemIds } from "../utils/itemUtils";
+import { normalizeSpecsMap } from "../utils/measurementUtils";
+import {
+  DEFAULT_PHOTO_AGE_POLICY,
+  normalizePhotoAgePolicy,
+} from "../utils/photoTimeUtils";
+import {
+  EMPTY_REPORT_SEARCH,
+  hasReportQuery,
+  normalizeReportQuery,
+  type ReportQueryFilters,
+  type ReportSearchFields,
+} from "../utils/reportSearchUtils";
+import { normalizeVerdictsMap } from "../utils/verdictUtils";
+import {
+  DEFAULT_WATERMARK,
+  normalizeWatermark,
+} from "../utils/watermarkUtils";
 
 export type DraftPage = "home" | "reports" | "manage";
 
+// 全部頁面；不在 DraftPage 內的頁面不保存草稿
+export type AppPage = DraftPage | "users" | "audit" | "unit";
+
+const DRAFT_PAGES: readonly AppPage[] = ["home", "reports", "manage"];
+
 type HomeDraftData = {
   serial: string;
   selectedModel: string;
   selectedProcess: string;
+  // 草稿建立時的製程版本；還原時若版本已更新，只保留新版本仍存在的項目
+  processRev?: number | null;
   na: Record<string, boolean>;
-  // item -> { blob, name, type, lastModified }
-  imageFiles: Record<
-    string,
-    { blob: Blob; name: string; type: string; lastModified: number }[]
-  >;
+  verdicts?: Record<string, PassFail>;
+  measurements?: Record<string, string>;
+  // 開始填寫的時間（照片時效以此為準）
+  startedAt?: number | null;
+  // itemId -> { blob, name, type, lastModified }（舊草稿以項目名稱為 key）
+  imageFiles: Record<string, StoredFile[]>;
 };
 
 type ReportsDraftData = {
   selectedProcessFilter: string;
   selectedModelFilter: string;
   selectedStatusFilter: string;
-  queryFilters: { process: string; model: string; status: string };
+  // 舊草稿沒有搜尋欄位
+  reportSearch?: ReportSearchFields;
+  queryFilters: Partial<ReportQueryFilters>;
   reportHasQueried: boolean;
   expandedReportId: string | null;
   editingReportId: string | null;
   pcSelectedKey: string | null;
   na: Record<string, boolean>;
-  editImageFiles: Record<
-    string,
-    { blob: Blob; name: string; type: string; lastModified: number }[]
-  >;
+  verdicts?: Record<string, PassFail>;
+  measurements?: Record<string, string>;
+  editImageFiles: Record<string, StoredFile[]>;
 };
 
 type ManageDraftData = {
@@ -43,7 +88,12 @@ type ManageDraftData = {
   newItem: string;
   insertAfter: string;
   editingIndex: number | null;
-  items: string[];
+  // 舊草稿的項目為字串
+  items: (InspectionItem | string)[];
+  itemSpecs?: Record<string, MeasurementSpec>;
+  processChangelog?: string;
+  processWatermark?: WatermarkConfig;
+  processPhotoAgePolicy?: PhotoAgePolicy;
 };
 
 export type AppDraft =
@@ -51,149 +101,73 @@ export type AppDraft =
   | { page: "reports"; updatedAt: number; data: ReportsDraftData }
   | { page: "manage"; updatedAt: number; data: ManageDraftData };
 
-const DRAFT_DB_NAME = "inspection_app_drafts";
-const DRAFT_STORE = "drafts";
-
 function draftKey(username: string) {
   return `draft_v1:${username.toLowerCase()}`;
 }
 
-function openDraftDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const req = indexedDB.open(DRAFT_DB_NAME, 1);
-    req.onupgradeneeded = () => {
-      const db = req.result;
-      if (!db.objectStoreNames.contains(DRAFT_STORE)) {
-        db.createObjectStore(DRAFT_STORE);
-      }
-    };
-    req.onsuccess = () => resolve(req.result);
-    req.onerror = () => reject(req.error);
-  });
-}
-
-async function idbGet<T>(key: string): Promise<T | null> {
-  const db = await openDraftDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(DRAFT_STORE, "readonly");
-    const store = tx.objectStore(DRAFT_STORE);
-    const req = store.get(key);
-    req.onsuccess = () => resolve((req.result as T) ?? null);
-    req.onerror = () => reject(req.error);
-    tx.oncomplete = () => db.close();
-  });
-}
-
-async function idbSet<T>(key: string, val: T): Promise<void> {
-  const db = await openDraftDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(DRAFT_STORE, "readwrite");
-    const store = tx.objectStore(DRAFT_STORE);
-    store.put(val as any, key);
-    tx.oncomplete = () => {
-      db.close();
-      resolve();
-    };
-    tx.onerror = () => {
-      const err = tx.error || new Error("IndexedDB write failed");
-      db.close();
-      reject(err);
-    };
-  });
-}
-
-async function idbDel(key: string): Promise<void> {
-  const db = await openDraftDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(DRAFT_STORE, "readwrite");
-    const store = tx.objectStore(DRAFT_STORE);
-    store.delete(key);
-    tx.oncomplete = () => {
-      db.close();
-      resolve();
-    };
-    tx.onerror = () => {
-      const err = tx.error || new Error("IndexedDB delete failed");
-      db.close();
-      reject(err);
-    };
-  });
-}
-
-function fileToDraftBlob(file: File) {
-  return {
-    blob: file as unknown as Blob,
-    name: file.name,
-    type: file.type || "application/octet-stream",
-    lastModified: file.lastModified || Date.now(),
-  };
-}
-
-function draftBlobToFile(d: {
-  blob: Blob;
-  name: string;
-  type: string;
-  lastModified: number;
-}) {
-  try {
-    return new File([d.blob], d.name || "image.jpg", {
-      type: d.type || "application/octet-stream",
-      lastModified: d.lastModified || Date.now(),
-    });
-  } catch {
-    // 某些舊 Safari 環境可能沒有 File constructor
-    const b: any = d.blob;
-    b.name = d.name || "image.jpg";
-    b.lastModified = d.lastModified || Date.now();
-    return b as File;
-  }
-}
-
 type UseDraftsOptions = {
   isLoggedIn: boolean;
+  processes: Process[];
+  // 重新查詢報告列表第一頁 / 讀取單一報告（報告改為分頁載入）
+  queryReports: (filters: ReportQueryFilters) => Promise<boolean>;
+  loadReport: (id: string) => Promise<Report | null>;
   authUsername: string;
-  page: DraftPage;
+  page: AppPage;
   serial: string;
   selectedModel: string;
   selectedProcess: string;
   newImageFiles: Record<string, File[]>;
   homeNA: Record<string, boolean>;
+  homeVerdicts: Record<string, PassFail>;
+  homeMeasurements: Record<string, string>;
+  homeStartedAt: number | null;
   selectedProcessFilter: string;
   selectedModelFilter: string;
   selectedStatusFilter: string;
+  reportSearch: ReportSearchFields;
   reportHasQueried: boolean;
   expandedReportId: string | null;
   pcSelectedKey: string | null;
-  queryFilters: { process: string; model: string; status: string };
+  queryFilters: ReportQueryFilters;
   editingReportId: string | null;
   editImageFiles: Record<string, File[]>;
   editNA: Record<string, boolean>;
+  editVerdicts: Record<string, PassFail>;
+  editMeasurements: Record<string, string>;
   newProcName: string;
   newProcCode: string;
   newProcModel: string;
   newItem: string;
   insertAfter: string;
   editingIndex: number | null;
-  items: string[];
-  setPage: Dispatch<SetStateAction<DraftPage>>;
+  items: InspectionItem[];
+  itemSpecs: Record<string, MeasurementSpec>;
+  processChangelog: string;
+  processWatermark: WatermarkConfig;
+  processPhotoAgePolicy: PhotoAgePolicy;
+  setPage: Dispatch<SetStateAction<AppPage>>;
   setSerial: Dispatch<SetStateAction<string>>;
   setSelectedModel: Dispatch<SetStateAction<string>>;
   setSelectedProcess: Dispatch<SetStateAction<string>>;
   setImages: Dispatch<SetStateAction<Record<string, string[]>>>;
   setNewImageFiles: Dispatch<SetStateAction<Record<string, File[]>>>;
   setHomeNA: Dispatch<SetStateAction<Record<string, boolean>>>;
+  setHomeVerdicts: Dispatch<SetStateAction<Record<string, PassFail>>>;
+  setHomeMeasurements: Dispatch<SetStateAction<Record<string, string>>>;
+  setHomeStartedAt: Dispatch<SetStateAction<number | null>>;
   setSelectedProcessFilter: Dispatch<SetStateAction<string>>;
   setSelectedModelFilter: Dispatch<SetStateAction<string>>;
   setSelectedStatusFilter: Dispatch<SetStateAction<string>>;
+  setReportSearch: Dispatch<SetStateAction<ReportSearchFields>>;
   setReportHasQueried: Dispatch<SetStateAction<boolean>>;
   setExpandedReportId: Dispatch<SetStateAction<string | null>>;
   setPcSelectedKey: Dispatch<SetStateAction<string | null>>;
-  setQueryFilters: Dispatch<
-    SetStateAction<{ process: string; model: string; status: string }>
-  >;
+  setQueryFilters: Dispatch<SetStateAction<ReportQueryFilters>>;
   setEditImageFiles: Dispatch<SetStateAction<Record<string, File[]>>>;
   setEditImages: Dispatch<SetStateAction<Record<string, string[]>>>;
   setEditNA: Dispatch<SetStateAction<Record<string, boolean>>>;
+  setEditVerdicts: Dispatch<SetStateAction<Record<string, PassFail>>>;
+  setEditMeasurements: Dispatch<SetStateAction<Record<string, string>>>;
   setEditingReportId: Dispatch<SetStateAction<string | null>>;
   setNewProcName: Dispatch<SetStateAction<string>>;
   setNewProcCode: Dispatch<SetStateAction<string>>;
@@ -201,7 +175,11 @@ type UseDraftsOptions = {
   setNewItem: Dispatch<SetStateAction<string>>;
   setInsertAfter: Dispatch<SetStateAction<string>>;
   setEditingIndex: Dispatch<SetStateAction<number | null>>;
-  setItems: Dispatch<SetStateAction<string[]>>;
+  setItems: Dispatch<SetStateAction<InspectionItem[]>>;
+  setItemSpecs: Dispatch<SetStateAction<Record<string, MeasurementSpec>>>;
+  setProcessChangelog: Dispatch<SetStateAction<string>>;
+  setProcessWatermark: Dispatch<SetStateAction<WatermarkConfig>>;
+  setProcessPhotoAgePolicy: Dispatch<SetStateAction<PhotoAgePolicy>>;
   resetNewReportState: (alsoClearDraft?: boolean) => Promise<void>;
   resetEditState: (alsoClearDraft?: boolean) => Promise<void>;
   resetManageState: (alsoClearDraft?: boolean) => Promise<void>;
@@ -209,6 +187,9 @@ type UseDraftsOptions = {
 
 export function useDrafts({
   isLoggedIn,
+  processes,
+  queryReports,
+  loadReport,
   authUsername,
   page,
   serial,
@@ -216,9 +197,13 @@ export function useDrafts({
   selectedProcess,
   newImageFiles,
   homeNA,
+  homeVerdicts,
+  homeMeasurements,
+  homeStartedAt,
   selectedProcessFilter,
   selectedModelFilter,
   selectedStatusFilter,
+  reportSearch,
   reportHasQueried,
   expandedReportId,
   pcSelectedKey,
@@ -226,6 +211,8 @@ export function useDrafts({
   editingReportId,
   editImageFiles,
   editNA,
+  editVerdicts,
+  editMeasurements,
   newProcName,
   newProcCode,
   newProcModel,
@@ -233,6 +220,10 @@ export function useDrafts({
   insertAfter,
   editingIndex,
   items,
+  itemSpecs,
+  processChangelog,
+  processWatermark,
+  processPhotoAgePolicy,
   setPage,
   setSerial,
   setSelectedModel,
@@ -240,9 +231,13 @@ export function useDrafts({
   setImages,
   setNewImageFiles,
   setHomeNA,
+  setHomeVerdicts,
+  setHomeMeasurements,
+  setHomeStartedAt,
   setSelectedProcessFilter,
   setSelectedModelFilter,
   setSelectedStatusFilter,
+  setReportSearch,
   setReportHasQueried,
   setExpandedReportId,
   setPcSelectedKey,
@@ -250,6 +245,8 @@ export function useDrafts({
   setEditImageFiles,
   setEditImages,
   setEditNA,
+  setEditVerdicts,
+  setEditMeasurements,
   setEditingReportId,
   setNewProcName,
   setNewProcCode,
@@ -258,6 +255,10 @@ export function useDrafts({
   setInsertAfter,
   setEditingIndex,
   setItems,
+  setItemSpecs,
+  setProcessChangelog,
+  setProcessWatermark,
+  setProcessPhotoAgePolicy,
   resetNewReportState,
   resetEditState,
   resetManageState,
@@ -273,7 +274,7 @@ export function useDrafts({
     const draftId = getDraftId();
     if (!draftId) return;
     try {
-      await idbDel(draftId);
+      await idbDel(DRAFT_STORE, draftId);
     } catch {
       // ignore
     }
@@ -288,16 +289,22 @@ export function useDrafts({
         selectedModel ||
         selectedProcess ||
         Object.values(newImageFiles).some((files) => files.length > 0) ||
-        Object.keys(homeNA).length > 0;
+        Object.keys(homeNA).length > 0 ||
+        Object.keys(homeVerdicts).length > 0 ||
+        Object.keys(homeMeasurements).length > 0;
       if (!hasAnything) return null;
 
       const imageFiles: HomeDraftData["imageFiles"] = {};
       Object.entries(newImageFiles).forEach(([k, f]) => {
         if (f && f.length > 0) {
-          imageFiles[k] = f.map((file) => fileToDraftBlob(file));
+          imageFiles[k] = f.map((file) => fileToStoredFile(file));
         }
       });
 
+      const proc = processes.find(
+        (p) => p.name === selectedProcess && p.model === selectedModel
+      );
+
       return {
         page: "home",
         updatedAt: now,
@@ -305,8 +312,12 @@ export function useDrafts({
           serial,
           selectedModel,
           selectedProcess,
+          processRev: proc?.rev ?? null,
           imageFiles,
           na: { ...homeNA },
+          verdicts: { ...homeVerdicts },
+          measurements: { ...homeMeasurements },
+          startedAt: homeStartedAt,
         },
       };
     }
@@ -324,7 +335,7 @@ export function useDrafts({
       const editImageFilesDraft: ReportsDraftData["editImageFiles"] = {};
       Object.entries(editImageFiles).forEach(([k, f]) => {
         if (f && f.length > 0) {
-          editImageFilesDraft[k] = f.map((file) => fileToDraftBlob(file));
+          editImageFilesDraft[k] = f.map((file) => fileToStoredFile(file));
         }
       });
 
@@ -335,6 +346,7 @@ export function useDrafts({
           selectedProcessFilter,
           selectedModelFilter,
           selectedStatusFilter,
+          reportSearch: { ...reportSearch },
           queryFilters: { ...queryFilters },
           reportHasQueried,
           expandedReportId,
@@ -342,6 +354,8 @@ export function useDrafts({
           pcSelectedKey,
           editImageFiles: editImageFilesDraft,
           na: { ...editNA },
+          verdicts: { ...editVerdicts },
+          measurements: { ...editMeasurements },
         },
       };
     }
@@ -352,6 +366,7 @@ export function useDrafts({
       newProcCode.trim() ||
       newProcModel ||
       newItem.trim() ||
+      processChangelog.trim() ||
       editingIndex !== null ||
       items.length > 0;
 
@@ -368,6 +383,10 @@ export function useDrafts({
         insertAfter,
         editingIndex,
         items,
+        itemSpecs: { ...itemSpecs },
+        processChangelog,
+        processWatermark,
+        processPhotoAgePolicy,
       },
     };
   };
@@ -379,15 +398,40 @@ export function useDrafts({
       setSerial(draft.data.serial || "");
       setSelectedModel(draft.data.selectedModel || "");
       setSelectedProcess(draft.data.selectedProcess || "");
-      setHomeNA(draft.data.na || {});
+
+      // 製程已改版：只保留新版本仍存在的項目，避免新舊版本項目混在同一份報告
+      const proc = processes.find(
+        (p) =>
+          p.name === draft.data.selectedProcess &&
+          p.model === draft.data.selectedModel
+      );
+      const draftRev = draft.data.processRev ?? null;
+      const isStaleRev =
+        !!proc && draftRev !== null && (proc.rev ?? 1) !== draftRev;
+      // key 對應到目前版本的項目 id（含舊草稿的名稱 key），不存在者捨棄
+      const pick = <T,>(map: Record<string, T> | undefined) =>
+        proc
+          ? remapKeysToItemIds(map, proc.items || [])
+          : { ...(map || {}) };
+
+      if (isStaleRev) {
+        alert(
+          `此草稿依據製程 Rev ${draftRev} 建立，製程已更新為 Rev ${proc?.rev}。\n已移除新版本中不存在的項目資料，請重新確認。`
+        );
+      }
+
+      setHomeNA(pick(draft.data.na));
+      setHomeVerdicts(normalizeVerdictsMap(pick(draft.data.verdicts)));
+      setHomeMeasurements(pick(draft.data.measurements));
+      setHomeStartedAt(draft.data.startedAt ?? null);
 
       // 還原照片檔（File）+ 預覽 blob URL
       const nextFiles: Record<string, File[]> = {};
       const nextPreviews: Record<string, string[]> = {};
 
-      Object.entries(draft.data.imageFiles || {}).forEach(([item, fds]) => {
+      Object.entries(pick(draft.data.imageFiles)).forEach(([item, fds]) => {
         const list = Array.isArray(fds) ? fds : [fds];
-        const files = list.map((fd) => draftBlobToFile(fd));
+        const files = list.map((fd) => storedFileToFile(fd));
         nextFiles[item] = files;
         const previews: string[] = [];
         files.forEach((file) => {
@@ -412,25 +456,29 @@ export function useDrafts({
       setSelectedProcessFilter(draft.data.selectedProcessFilter || "");
       setSelectedModelFilter(draft.data.selectedModelFilter || "");
       setSelectedStatusFilter(draft.data.selectedStatusFilter || "");
+      setReportSearch({ ...EMPTY_REPORT_SEARCH, ...draft.data.reportSearch });
+      const restoredQuery = normalizeReportQuery(draft.data.queryFilters);
       const hasQueried =
-        !!draft.data.reportHasQueried ||
-        !!draft.data.queryFilters?.process ||
-        !!draft.data.queryFilters?.model ||
-        !!draft.data.queryFilters?.status;
+        !!draft.data.reportHasQueried || hasReportQuery(restoredQuery);
       setReportHasQueried(hasQueried);
       setExpandedReportId(draft.data.expandedReportId || null);
       setPcSelectedKey(draft.data.pcSelectedKey || null);
-      setQueryFilters({
-        process: draft.data.queryFilters?.process || "",
-        model: draft.data.queryFilters?.model || "",
-        status: draft.data.queryFilters?.status || "",
-      });
+      setQueryFilters(restoredQuery);
+      if (hasQueried) await queryReports(restoredQuery);
+
+      const report = draft.data.editingReportId
+        ? await loadReport(draft.data.editingReportId)
+        : null;
+      const pick = <T,>(map: Record<string, T> | undefined) =>
+        report
+          ? remapKeysToItemIds(map, report.expected_items || [])
+          : { ...(map || {}) };
 
       const nextFiles: Record<string, File[]> = {};
       const nextPreviews: Record<string, string[]> = {};
-      Object.entries(draft.data.editImageFiles || {}).forEach(([item, fds]) => {
+      Object.entries(pick(draft.data.editImageFiles)).forEach(([item, fds]) => {
         const list = Array.isArray(fds) ? fds : [fds];
-        const files = list.map((fd) => draftBlobToFile(fd));
+        const files = list.map((fd) => storedFileToFile(fd));
         nextFiles[item] = files;
         const previews: string[] = [];
         files.forEach((file) => {
@@ -445,7 +493,9 @@ export function useDrafts({
 
       setEditImageFiles(nextFiles);
       setEditImages(nextPreviews);
-      setEditNA(draft.data.na || {});
+      setEditNA(pick(draft.data.na));
+      setEditVerdicts(normalizeVerdictsMap(pick(draft.data.verdicts)));
+      setEditMeasurements(pick(draft.data.measurements));
       setEditingReportId(draft.data.editingReportId || null);
       if (draft.data.editingReportId)
         setExpandedReportId(draft.data.editingReportId);
@@ -462,11 +512,41 @@ export function useDrafts({
     setNewItem(draft.data.newItem || "");
     setInsertAfter(draft.data.insertAfter || "last");
     setEditingIndex(draft.data.editingIndex ?? null);
-    setItems(draft.data.items || []);
+
+    // 舊草稿的字串項目：編輯中的製程沿用同名項目的 id，其餘配發新 id
+    const editingProc =
+      draft.data.editingIndex !== null
+        ? processes[draft.data.editingIndex]
+        : undefined;
+    const draftItems = (draft.data.items || []).map((entry) =>
+      typeof entry === "string"
+        ? editingProc?.items.find((it) => it.name === entry) ?? {
+            id: createItemId(),
+            name: entry,
+          }
+        : entry
+    );
+    setItems(draftItems);
+    setItemSpecs(
+      normalizeSpecsMap(remapKeysToItemIds(draft.data.itemSpecs, draftItems))
+    );
+    setProcessChangelog(draft.data.processChangelog || "");
+    setProcessWatermark(
+      normalizeWatermark(draft.data.processWatermark) ??
+        editingProc?.watermark ??
+        DEFAULT_WATERMARK
+    );
+    setProcessPhotoAgePolicy(
+      normalizePhotoAgePolicy(draft.data.processPhotoAgePolicy) ??
+        editingProc?.photo_age_policy ??
+        DEFAULT_PHOTO_AGE_POLICY
+    );
   };
 
   const scheduleSaveDraft = (immediate = false) => {
     if (!isLoggedIn || !authUsername) return;
+    // 無草稿的頁面（如帳號管理）：保留原本的草稿不動
+    if (!DRAFT_PAGES.includes(page)) return;
 
     const run = async () => {
       try {
@@ -474,10 +554,10 @@ export function useDrafts({
         const draftId = getDraftId();
         if (!draftId) return;
         if (!d) {
-          await idbDel(draftId);
+          await idbDel(DRAFT_STORE, draftId);
           return;
         }
-        await idbSet(draftId, d);
+        await idbSet(DRAFT_STORE, draftId, d);
       } catch {
         // ignore
       }
@@ -503,7 +583,7 @@ export function useDrafts({
     const draftId = getDraftId();
     if (draftId) {
       try {
-        await idbDel(draftId);
+        await idbDel(DRAFT_STORE, draftId);
       } catch {
         // ignore
       }
@@ -540,7 +620,7 @@ export function useDrafts({
       try {
         const draftId = getDraftId();
         if (!draftId) return;
-        const d = await idbGet<AppDraft>(draftId);
+        const d = await idbGet<AppDraft>(DRAFT_STORE, draftId);
         if (d) {
           setPendingDraft(d);
           setShowDraftPrompt(true);
@@ -561,9 +641,13 @@ export function useDrafts({
     selectedProcess,
     newImageFiles,
     homeNA,
+    homeVerdicts,
+    homeMeasurements,
+    homeStartedAt,
     selectedProcessFilter,
     selectedModelFilter,
     selectedStatusFilter,
+    reportSearch,
     reportHasQueried,
     expandedReportId,
     pcSelectedKey,
@@ -571,6 +655,8 @@ export function useDrafts({
     editingReportId,
     editImageFiles,
     editNA,
+    editVerdicts,
+    editMeasurements,
     newProcName,
     newProcCode,
     newProcModel,
@@ -578,6 +664,10 @@ export function useDrafts({
     insertAfter,
     editingIndex,
     items,
+    itemSpecs,
+    processChangelog,
+    processWatermark,
+    processPhotoAgePolicy,
   ]);
 
   return {
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  discardOutboxEntry,
+  enqueueOutbox,
+  isOutboxEntryDue,
+  listOutbox,
+  uploadOutboxEntry,
+  type OutboxEntry,
+} from "../services/outboxService";
+
+// 檢查是否有到期重試項目的間隔（實際重試時間依各筆退避設定）
+const RETRY_CHECK_INTERVAL_MS = 15 * 1000;
+
+type UseOutboxOptions = {
+  isLoggedIn: boolean;
+  authUsername: string;
+  // 有報告上傳完成時呼叫（重新載入報告列表）
+  onUploaded: () => void | Promise<void>;
+};
+
+export function useOutbox({
+  isLoggedIn,
+  authUsername,
+  onUploaded,
+}: UseOutboxOptions) {
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const processingRef = useRef(false);
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  const refreshOutbox = async () => {
+    if (!authUsername) {
+      setOutboxEntries([]);
+      return;
+    }
+    try {
+      setOutboxEntries(await listOutbox(authUsername));
+    } catch (e) {
+      console.error("讀取上傳佇列失敗：", e);
+    }
+  };
+
+  const replaceEntry = (entry: OutboxEntry) =>
+    setOutboxEntries((prev) =>
+      prev.map((e) => (e.localId === entry.localId ? entry : e))
+    );
+
+  // 依序上傳佇列（同時只跑一輪）
+  // - onlyId：只處理該筆（手動重試）
+  // - force：忽略退避時間（手動重試、網路恢復）
+  const processOutbox = async (
+    opts: { onlyId?: string; force?: boolean } = {}
+  ) => {
+    const { onlyId, force = false } = opts;
+    if (!isLoggedIn || !authUsername) return;
+    if (processingRef.current || !navigator.onLine) return;
+    processingRef.current = true;
+
+    let uploadedCount = 0;
+    const run = async () => {
+      const entries = await listOutbox(authUsername);
+      setOutboxEntries(entries);
+      for (const entry of entries) {
+        if (onlyId && entry.localId !== onlyId) continue;
+        if (!force && !isOutboxEntryDue(entry)) continue;
+        if (!navigator.onLine) break;
+        const res = await uploadOutboxEntry(entry, replaceEntry);
+        if (res.ok) {
+          uploadedCount++;
+          setOutboxEntries((prev) =>
+            prev.filter((e) => e.localId !== entry.localId)
+          );
+        }
+      }
+    };
+    try {
+      // 同一帳號開多個分頁時，同時只由一個分頁上傳（其餘略過本輪）
+      if (navigator.locks) {
+        await navigator.locks.request(
+          `outbox:${authUsername.toLowerCase()}`,
+          { ifAvailable: true },
+          async (lock) => {
+            if (lock) await run();
+          }
+        );
+      } else {
+        await run();
+      }
+    } catch (e) {
+      console.error("上傳佇列處理失敗：", e);
+    } finally {
+      processingRef.current = false;
+    }
+
+    await refreshOutbox();
+    if (uploadedCount > 0) {
+      await onUploadedRef.current();
+    }
+  };
+
+  const enqueueReport = async (
+    params: Omit<Parameters<typeof enqueueOutbox>[0], "owner">
+  ) => {
+    const entry = await enqueueOutbox({ ...params, owner: authUsername });
+    setOutboxEntries((prev) => [...prev, entry]);
+    void processOutbox();
+    return entry;
+  };
+
+  const retryOutboxEntry = (localId: string) =>
+    processOutbox({ onlyId: localId, force: true });
+
+  const discardOutbox = async (localId: string) => {
+    await discardOutboxEntry(localId);
+    await refreshOutbox();
+  };
+
+  // 登入後：載入佇列並嘗試上傳
+  useEffect(() => {
+    if (!isLoggedIn || !authUsername) {
+      setOutboxEntries([]);
+      return;
+    }
+    void processOutbox({ force: true });
+  }, [isLoggedIn, authUsername]);
+
+  // 網路恢復時自動上傳
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      void processOutbox({ force: true });
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [isLoggedIn, authUsername]);
+
+  // 仍有待上傳項目時定期檢查，到期者自動重試
+  useEffect(() => {
+    if (outboxEntries.length === 0) return;
+    const timer = window.setInterval(() => {
+      void processOutbox();
+    }, RETRY_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [outboxEntries.length, isLoggedIn, authUsername]);
+
+  return {
+    outboxEntries,
+    isOnline,
+    enqueueReport,
+    retryOutboxEntry,
+    discardOutbox,
+  };
+}
@@ -1,6 +1,8 @@
 import { useEffect, useRef, useState } from "react";
 import { logAudit } from "../services/auditService";
 import { supabase } from "../services/supabaseClient";
+import { fetchUserRole } from "../services/userRoleService";
+import type { UserRole } from "../types";
 
 const SINGLE_LOGIN_LOCAL_KEY = "single_login_session_id";
 
@@ -59,7 +61,8 @@ export function useSessionAuth({
   const [sessionChecked, setSessionChecked] = useState(false);
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [authUsername, setAuthUsername] = useState<string>("");
-  const [isAdmin, setIsAdmin] = useState<boolean>(false);
+  // 角色由 user_roles 載入；null 代表尚未載入或未設定角色（無任何權限）
+  const [role, setRole] = useState<UserRole | null>(null);
   const [idleLogoutMessage, setIdleLogoutMessage] = useState("");
 
   const kickedRef = useRef(false);
@@ -67,17 +70,24 @@ export function useSessionAuth({
   const idleTimerRef = useRef<number | null>(null);
   const lastActivityRef = useRef<number>(Date.now());
 
-  // ===== 權限判斷：Admin 白名單（可用 VITE_ADMIN_USERS 設定） =====
-  const computeIsAdmin = (u: string) => {
-    return u === "admin";
-  };
-
+  // ===== 權限判斷：角色由 user_roles 資料表決定 =====
   const refreshUserRole = async () => {
     const { data } = await supabase.auth.getUser();
     const email = data.user?.email || "";
     const u = email.includes("@") ? email.split("@")[0] : "";
     setAuthUsername(u);
-    setIsAdmin(computeIsAdmin(u));
+    if (!data.user) {
+      setRole(null);
+      return;
+    }
+
+    const record = await fetchUserRole(data.user.id);
+    if (record?.disabled) {
+      alert("此帳號已停用，請洽管理員。");
+      await handleLogout();
+      return;
+    }
+    setRole(record?.role ?? null);
   };
 
   const handleKickedOut = async () => {
@@ -89,7 +99,7 @@ export function useSessionAuth({
     await onKickedCleanup();
     setIsLoggedIn(false);
     setAuthUsername("");
-    setIsAdmin(false);
+    setRole(null);
   };
 
   const handleLogout = async (options?: { clearDraft?: boolean }) => {
@@ -98,7 +108,7 @@ export function useSessionAuth({
     await onLogoutCleanup({ clearDraft });
     setIsLoggedIn(false);
     setAuthUsername("");
-    setIsAdmin(false);
+    setRole(null);
   };
 
   const pauseSingleLoginValidation = () => {
@@ -123,6 +133,10 @@ export function useSessionAuth({
     });
 
     if (error) {
+      // 停用帳號（admin-users 以 ban 阻擋登入）
+      if (/banned/i.test(error.message || "")) {
+        return { ok: false, message: "此帳號已停用，請洽管理員" };
+      }
       return { ok: false, message: error.message || "登入失敗" };
     }
 
@@ -174,7 +188,7 @@ export function useSessionAuth({
         } else {
           if (!cancelled) {
             setAuthUsername("");
-            setIsAdmin(false);
+            setRole(null);
           }
         }
       } catch (e) {
@@ -182,7 +196,7 @@ export function useSessionAuth({
         if (!cancelled) {
           setIsLoggedIn(false);
           setAuthUsername("");
-          setIsAdmin(false);
+          setRole(null);
         }
       } finally {
         window.clearTimeout(failSafe);
@@ -205,7 +219,7 @@ export function useSessionAuth({
           });
         } else {
           setAuthUsername("");
-          setIsAdmin(false);
+          setRole(null);
         }
       }
     );
@@ -322,7 +336,7 @@ export function useSessionAuth({
     sessionChecked,
     isLoggedIn,
     authUsername,
-    isAdmin,
+    role,
     idleLogoutMessage,
     setIdleLogoutMessage,
     login,
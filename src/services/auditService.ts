@@ -1,10 +1,36 @@
+import { toContainsPattern } from "../utils/queryUtils";
 import { supabase } from "./supabaseClient";
 
-type AuditAction =
+export type AuditAction =
   | "login"
   | "upload_photo_batch"
   | "report_create"
-  | "report_update";
+  | "report_update"
+  | "photo_delete"
+  // 帳號管理（由 admin-users Edge Function 寫入）
+  | "user_admin";
+
+export type AuditLogEntry = {
+  id: number;
+  created_at: string;
+  user_id: string;
+  username: string;
+  action: AuditAction;
+  report_id: string | null;
+  meta: Record<string, unknown> | null;
+};
+
+export type AuditLogFilters = {
+  username?: string;
+  action?: AuditAction | "";
+  reportId?: string;
+  // YYYY-MM-DD（本機時區，含當日）
+  dateFrom?: string;
+  dateTo?: string;
+};
+
+// 稽核頁單次最多載入筆數
+export const AUDIT_LOG_LIMIT = 500;
 
 export async function logAudit(
   action: AuditAction,
@@ -34,3 +60,62 @@ export async function logAudit(
     console.error("寫入 audit_logs 例外：", err);
   }
 }
+
+const mapAuditRow = (row: any): AuditLogEntry => ({
+  id: row.id,
+  created_at: row.created_at,
+  user_id: row.user_id,
+  username: row.username || "",
+  action: row.action,
+  report_id: row.report_id ?? null,
+  meta: row.meta ?? null,
+});
+
+// 依條件查詢稽核紀錄（新到舊）；讀取失敗回傳 null
+export async function fetchAuditLogs(
+  filters: AuditLogFilters
+): Promise<AuditLogEntry[] | null> {
+  let query = supabase
+    .from("audit_logs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(AUDIT_LOG_LIMIT);
+
+  const username = filters.username?.trim().toLowerCase();
+  if (username) query = query.ilike("username", toContainsPattern(username));
+  if (filters.action) query = query.eq("action", filters.action);
+  const reportId = filters.reportId?.trim();
+  if (reportId) query = query.ilike("report_id", toContainsPattern(reportId));
+  if (filters.dateFrom) {
+    query = query.gte("created_at", new Date(`${filters.dateFrom}T00:00:00`).toISOString());
+  }
+  if (filters.dateTo) {
+    const end = new Date(`${filters.dateTo}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    query = query.lt("created_at", end.toISOString());
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("讀取 audit_logs 失敗：", error.message);
+    return null;
+  }
+  return (data || []).map(mapAuditRow);
+}
+
+// 單一報告的歷程（舊到新）
+export async function fetchReportTimeline(
+  reportId: string
+): Promise<AuditLogEntry[] | null> {
+  const { data, error } = await supabase
+    .from("audit_logs")
+    .select("*")
+    .eq("report_id", reportId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("讀取報告歷程失敗：", error.message);
+    return null;
+  }
+  return (data || []).map(mapAuditRow);
+}
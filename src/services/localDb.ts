@@ -0,0 +1,122 @@
+// =============================
+//  本機 IndexedDB：草稿與離線上傳佇列共用同一個資料庫
+// =============================
+
+const LOCAL_DB_NAME = "inspection_app_drafts";
+const LOCAL_DB_VERSION = 2;
+
+export const DRAFT_STORE = "drafts";
+// 待上傳報告（metadata）
+export const OUTBOX_STORE = "outbox";
+// 待上傳照片（blob 另存，更新上傳狀態時不需重寫照片）
+export const OUTBOX_FILE_STORE = "outbox_files";
+
+export type StoredFile = {
+  blob: Blob;
+  name: string;
+  type: string;
+  lastModified: number;
+};
+
+function openLocalDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(LOCAL_DB_NAME, LOCAL_DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      [DRAFT_STORE, OUTBOX_STORE, OUTBOX_FILE_STORE].forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name);
+        }
+      });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function idbGet<T>(store: string, key: string): Promise<T | null> {
+  const db = await openLocalDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, "readonly");
+    const req = tx.objectStore(store).get(key);
+    req.onsuccess = () => resolve((req.result as T) ?? null);
+    req.onerror = () => reject(req.error);
+    tx.oncomplete = () => db.close();
+  });
+}
+
+export async function idbGetAll<T>(store: string): Promise<T[]> {
+  const db = await openLocalDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, "readonly");
+    const req = tx.objectStore(store).getAll();
+    req.onsuccess = () => resolve((req.result as T[]) ?? []);
+    req.onerror = () => reject(req.error);
+    tx.oncomplete = () => db.close();
+  });
+}
+
+export async function idbSet<T>(store: string, key: string, val: T): Promise<void> {
+  const db = await openLocalDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, "readwrite");
+    tx.objectStore(store).put(val as any, key);
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    tx.onerror = () => {
+      const err = tx.error || new Error("IndexedDB write failed");
+      db.close();
+      reject(err);
+    };
+  });
+}
+
+// 刪除單一 key，或以 prefix 刪除一組 key（如同一筆佇列的所有照片）
+export async function idbDel(
+  store: string,
+  key: string,
+  opts: { prefix?: boolean } = {}
+): Promise<void> {
+  const db = await openLocalDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, "readwrite");
+    tx.objectStore(store).delete(
+      opts.prefix ? IDBKeyRange.bound(key, `${key}\uffff`) : key
+    );
+    tx.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    tx.onerror = () => {
+      const err = tx.error || new Error("IndexedDB delete failed");
+      db.close();
+      reject(err);
+    };
+  });
+}
+
+export function fileToStoredFile(file: File): StoredFile {
+  return {
+    blob: file as unknown as Blob,
+    name: file.name,
+    type: file.type || "application/octet-stream",
+    lastModified: file.lastModified || Date.now(),
+  };
+}
+
+export function storedFileToFile(d: StoredFile) {
+  try {
+    return new File([d.blob], d.name || "image.jpg", {
+      type: d.type || "application/octet-stream",
+      lastModified: d.lastModified || Date.now(),
+    });
+  } catch {
+    // 某些舊 Safari 環境可能沒有 File constructor
+    const b: any = d.blob;
+    b.name = d.name || "image.jpg";
+    b.lastModified = d.lastModified || Date.now();
+    return b as File;
+  }
+}
@@ -0,0 +1,352 @@
+import type { PhotoMeta, Report, WatermarkConfig } from "../types";
+import { NA_SENTINEL, type ImageValue } from "../utils/imageUtils";
+import { getItemName } from "../utils/itemUtils";
+import {
+  buildWatermarkSegments,
+  formatCaptureTime,
+} from "../utils/watermarkUtils";
+import { logAudit } from "./auditService";
+import {
+  OUTBOX_FILE_STORE,
+  OUTBOX_STORE,
+  fileToStoredFile,
+  idbDel,
+  idbGet,
+  idbGetAll,
+  idbSet,
+  storedFileToFile,
+  type StoredFile,
+} from "./localDb";
+import {
+  allocateReportId,
+  fetchReportIdByClientKey,
+  saveReportToDB,
+} from "./reportService";
+import {
+  removeImages,
+  runInBatches,
+  toOriginalPhotoPath,
+  uploadImage,
+} from "./storageService";
+
+// =============================
+//  離線上傳佇列：新增的報告先寫入本機，再於背景上傳
+// =============================
+
+export type OutboxPhotoStatus = "pending" | "uploading" | "done" | "failed";
+
+export type OutboxPhoto = {
+  // outbox_files 的 key
+  fileKey: string;
+  itemId: string;
+  photoIndex: number;
+  name: string;
+  // 標註照片的原圖（outbox_files 的 key）
+  originalKey?: string;
+  // 拍攝時間（epoch ms，EXIF 優先）
+  capturedAt?: number;
+  status: OutboxPhotoStatus;
+  path?: string;
+  error?: string;
+};
+
+export type OutboxStatus = "pending" | "uploading" | "failed";
+
+// 報告內容（不含表單 ID 與照片路徑，兩者於上傳時才決定）
+export type OutboxReport = Omit<
+  Report,
+  "id" | "images" | "created_at" | "photo_meta"
+>;
+
+export type OutboxEntry = {
+  localId: string;
+  owner: string;
+  createdAt: number;
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+  // 失敗後下次自動重試的時間（依失敗次數退避）
+  nextAttemptAt?: number;
+  processCode: string;
+  // 上傳時配發；配發後即沿用，僅在編號已被其他報告使用時清除並重新配發
+  reportId?: string;
+  report: OutboxReport;
+  naItems: string[];
+  photos: OutboxPhoto[];
+  // 儲存當下製程的浮水印設定（上傳時才知道表單編號，屆時再產生文字）
+  watermark?: WatermarkConfig;
+};
+
+export type OutboxUploadResult =
+  | { ok: true; reportId: string }
+  | { ok: false; message: string };
+
+// 自動重試退避：30s、1m、2m…最長 10 分鐘
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+const saveEntry = (entry: OutboxEntry) =>
+  idbSet(OUTBOX_STORE, entry.localId, entry);
+
+const removeLocalEntry = async (localId: string) => {
+  await idbDel(OUTBOX_FILE_STORE, `${localId}:`, { prefix: true });
+  await idbDel(OUTBOX_STORE, localId);
+};
+
+// 是否已到自動重試時間（手動重試不受限制）
+export const isOutboxEntryDue = (entry: OutboxEntry, now = Date.now()) =>
+  !entry.nextAttemptAt || entry.nextAttemptAt <= now;
+
+export async function listOutbox(owner: string): Promise<OutboxEntry[]> {
+  const all = await idbGetAll<OutboxEntry>(OUTBOX_STORE);
+  return all
+    .filter((entry) => entry.owner === owner.toLowerCase())
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// 寫入佇列：照片與報告分開存放
+export async function enqueueOutbox(params: {
+  owner: string;
+  processCode: string;
+  report: OutboxReport;
+  naItems: string[];
+  files: Record<string, File[]>;
+  // 標註照片 → 原圖
+  originals?: WeakMap<File, File>;
+  // 照片的拍攝時間（寫入佇列時決定，上傳後存入照片附加資訊）
+  capturedAt?: (file: File) => number;
+  watermark?: WatermarkConfig;
+}): Promise<OutboxEntry> {
+  const localId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const photos: OutboxPhoto[] = [];
+
+  for (const [itemId, files] of Object.entries(params.files)) {
+    if (params.naItems.includes(itemId)) continue;
+    for (const [idx, file] of files.entries()) {
+      const fileKey = `${localId}:${photos.length}`;
+      await idbSet<StoredFile>(OUTBOX_FILE_STORE, fileKey, fileToStoredFile(file));
+      const original = params.originals?.get(file);
+      const originalKey = original ? `${fileKey}:orig` : undefined;
+      if (original && originalKey) {
+        await idbSet<StoredFile>(
+          OUTBOX_FILE_STORE,
+          originalKey,
+          fileToStoredFile(original)
+        );
+      }
+      photos.push({
+        fileKey,
+        itemId,
+        photoIndex: idx + 1,
+        name: file.name,
+        originalKey,
+        capturedAt: params.capturedAt?.(file),
+        status: "pending",
+      });
+    }
+  }
+
+  const entry: OutboxEntry = {
+    localId,
+    owner: params.owner.toLowerCase(),
+    createdAt: Date.now(),
+    status: "pending",
+    attempts: 0,
+    processCode: params.processCode,
+    report: params.report,
+    naItems: params.naItems,
+    photos,
+    watermark: params.watermark,
+  };
+  await saveEntry(entry);
+  return entry;
+}
+
+// 已上傳的照片路徑（含原圖）
+const toUploadedPaths = (photos: OutboxPhoto[]) =>
+  photos.flatMap((photo) => {
+    if (!photo.path) return [];
+    return photo.originalKey
+      ? [photo.path, toOriginalPhotoPath(photo.path)]
+      : [photo.path];
+  });
+
+// 捨棄佇列：一併刪除已上傳但報告尚未寫入的照片，避免 Storage 殘留
+export async function discardOutboxEntry(localId: string) {
+  const entry = await idbGet<OutboxEntry>(OUTBOX_STORE, localId);
+  const uploaded = toUploadedPaths(entry?.photos || []);
+  if (!(await removeImages(uploaded))) {
+    console.error("捨棄佇列時無法刪除已上傳照片：", uploaded);
+  }
+  await removeLocalEntry(localId);
+}
+
+// 上傳單筆佇列：已完成的照片不重傳（路徑記在 photos），只重試失敗的照片；
+// 全部照片完成後才寫入報告
+// onChange 於每次狀態變動時呼叫（供畫面顯示每張照片進度）
+export async function uploadOutboxEntry(
+  entry: OutboxEntry,
+  onChange: (entry: OutboxEntry) => void
+): Promise<OutboxUploadResult> {
+  let current: OutboxEntry = {
+    ...entry,
+    status: "uploading",
+    lastError: undefined,
+    nextAttemptAt: undefined,
+  };
+  const update = async (patch: Partial<OutboxEntry>) => {
+    current = { ...current, ...patch };
+    await saveEntry(current);
+    onChange(current);
+  };
+  const setPhoto = (fileKey: string, patch: Partial<OutboxPhoto>) =>
+    update({
+      photos: current.photos.map((p) =>
+        p.fileKey === fileKey ? { ...p, ...patch } : p
+      ),
+    });
+  const fail = async (message: string): Promise<OutboxUploadResult> => {
+    const attempts = current.attempts + 1;
+    await update({
+      status: "failed",
+      attempts,
+      lastError: message,
+      nextAttemptAt: Date.now() + retryDelay(attempts),
+    });
+    return { ok: false, message };
+  };
+
+  await update({});
+
+  if (!current.reportId) {
+    const reportId = await allocateReportId(
+      current.processCode,
+      new Date(current.createdAt)
+    );
+    if (!reportId) return fail("無法取得表單編號，請確認網路連線");
+    await update({ reportId });
+  }
+  const reportId = current.reportId!;
+
+  const tasks = current.photos
+    .filter((photo) => photo.status !== "done")
+    .map((photo) => async () => {
+      await setPhoto(photo.fileKey, { status: "uploading", error: undefined });
+      const stored = await idbGet<StoredFile>(OUTBOX_FILE_STORE, photo.fileKey);
+      if (!stored) {
+        await setPhoto(photo.fileKey, { status: "failed", error: "本機照片遺失" });
+        return;
+      }
+      const storedOriginal = photo.originalKey
+        ? await idbGet<StoredFile>(OUTBOX_FILE_STORE, photo.originalKey)
+        : null;
+      if (photo.originalKey && !storedOriginal) {
+        await setPhoto(photo.fileKey, { status: "failed", error: "本機原圖遺失" });
+        return;
+      }
+      const capturedAt =
+        photo.capturedAt ??
+        ((storedOriginal ?? stored).lastModified || current.createdAt);
+      const watermark = buildWatermarkSegments(current.watermark, {
+        report_id: reportId,
+        serial: current.report.serial,
+        model: current.report.model,
+        item: getItemName(current.report.expected_items || [], photo.itemId),
+        inspector: current.report.edited_by || current.owner,
+        captured_at: formatCaptureTime(capturedAt),
+      });
+      const path = await uploadImage(
+        current.processCode,
+        current.report.model,
+        current.report.serial,
+        reportId,
+        { itemId: photo.itemId, photoIndex: photo.photoIndex, watermark },
+        storedFileToFile(stored),
+        storedOriginal ? storedFileToFile(storedOriginal) : undefined
+      );
+      await setPhoto(
+        photo.fileKey,
+        path
+          ? { status: "done", path }
+          : { status: "failed", error: "上傳失敗" }
+      );
+    });
+
+  // 同時最多 6 張，其餘排隊
+  await runInBatches(tasks, 6);
+
+  const failedCount = current.photos.filter((p) => p.status !== "done").length;
+  if (failedCount > 0) {
+    return fail(`${failedCount} 張照片上傳失敗`);
+  }
+
+  const images: Record<string, ImageValue> = {};
+  const photoMeta: Record<string, PhotoMeta> = {};
+  current.naItems.forEach((itemId) => {
+    images[itemId] = NA_SENTINEL;
+  });
+  [...current.photos]
+    .sort((a, b) => a.photoIndex - b.photoIndex)
+    .forEach((photo) => {
+      const list = (images[photo.itemId] as string[] | undefined) ?? [];
+      images[photo.itemId] = [...list, photo.path!];
+      photoMeta[photo.path!] = {
+        ...(photo.originalKey
+          ? { original: toOriginalPhotoPath(photo.path!) }
+          : {}),
+        ...(photo.capturedAt
+          ? { captured_at: new Date(photo.capturedAt).toISOString() }
+          : {}),
+      };
+    });
+
+  // 表單編號由資料庫原子配發，唯一鍵衝突代表這筆佇列可能已寫入
+  // （回應遺失、或其他分頁已上傳），先確認，不直接改號重寫
+  const res = await saveReportToDB(
+    { ...current.report, id: reportId, images, photo_meta: photoMeta },
+    current.localId
+  );
+  if (!res.ok) {
+    if (res.code !== "23505") return fail(`寫入雲端失敗：${res.message}`);
+
+    const existing = await fetchReportIdByClientKey(current.localId);
+    if (!existing.ok) return fail("無法確認報告是否已寫入，請確認網路連線");
+    if (!existing.data) {
+      // 確認尚未寫入，編號卻已被其他報告使用：保留錯誤供檢查，下次重試才重新配發
+      // 已上傳的照片位於原編號資料夾、浮水印也是原編號，刪除後於重試時重傳
+      console.error("表單編號已被其他報告使用：", reportId, current.localId);
+      const uploaded = toUploadedPaths(current.photos);
+      if (!(await removeImages(uploaded))) {
+        console.error("無法刪除原編號的照片：", uploaded);
+      }
+      await update({
+        reportId: undefined,
+        photos: current.photos.map((photo) => ({
+          ...photo,
+          status: "pending",
+          path: undefined,
+          error: undefined,
+        })),
+      });
+      return fail(`表單編號 ${reportId} 已被使用，將於重試時重新配發`);
+    }
+    if (existing.data !== reportId) {
+      // 其他分頁以另一個編號寫入：刪除本次上傳的照片
+      const uploaded = toUploadedPaths(current.photos);
+      if (!(await removeImages(uploaded))) {
+        console.error("無法刪除重複上傳的照片：", uploaded);
+      }
+    }
+    await removeLocalEntry(current.localId);
+    return { ok: true, reportId: existing.data };
+  }
+
+  await logAudit("upload_photo_batch", reportId, {
+    addedCount: current.photos.length,
+  });
+  await removeLocalEntry(current.localId);
+  return { ok: true, reportId };
+}
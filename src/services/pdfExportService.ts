@@ -0,0 +1,320 @@
+import type { ItemVerdict, Report } from "../types";
+import { formatReportDate } from "../utils/dateUtils";
+import { normalizeImageValue } from "../utils/imageUtils";
+import {
+  describeSpec,
+  formatMeasurement,
+  isWithinSpec,
+} from "../utils/measurementUtils";
+import {
+  REPORT_STATUS_LABEL,
+  VERDICT_LABEL,
+  getItemVerdict,
+  getReportStatus,
+} from "../utils/verdictUtils";
+import { getSignedImageUrl } from "./storageService";
+
+// =============================
+//  PDF 匯出：每頁先畫在 A4 canvas 上再放進 PDF
+//  （jsPDF 內建字型不含中文，改由瀏覽器字型繪製文字）
+// =============================
+
+// A4 @ 150dpi
+const PAGE_W = 1240;
+const PAGE_H = 1754;
+const MARGIN = 90;
+const CONTENT_W = PAGE_W - MARGIN * 2;
+const FOOTER_H = 60;
+const PHOTO_COLS = 3;
+const PHOTO_GAP = 16;
+const PHOTO_MAX_H = 300;
+const FONT_FAMILY =
+  '"Noto Sans TC", "PingFang TC", "Microsoft JhengHei", "Heiti TC", sans-serif';
+
+const VERDICT_HEX: Record<ItemVerdict, string> = {
+  ok: "#16a34a",
+  ng: "#e11d48",
+  na: "#475569",
+  pending: "#94a3b8",
+};
+
+const font = (size: number, bold = false) =>
+  `${bold ? "bold " : ""}${size}px ${FONT_FAMILY}`;
+
+// 下載照片並轉為 <img>（經由 blob URL，避免 canvas 被跨網域圖片污染）
+async function loadPhoto(path: string): Promise<HTMLImageElement | null> {
+  try {
+    const url = await getSignedImageUrl(path);
+    if (!url) return null;
+    const res = await fetch(url);
+    if (!res.ok) return null;
+    const objectUrl = URL.createObjectURL(await res.blob());
+    try {
+      const img = new Image();
+      img.src = objectUrl;
+      await img.decode();
+      return img;
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+  } catch (e) {
+    console.error("PDF 載入照片失敗：", path, e);
+    return null;
+  }
+}
+
+// 中文沒有空白可斷行，逐字量測寬度換行
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxW: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const ch of Array.from(text)) {
+    if (ch === "\n") {
+      lines.push(line);
+      line = "";
+      continue;
+    }
+    if (line && ctx.measureText(line + ch).width > maxW) {
+      lines.push(line);
+      line = ch;
+    } else {
+      line += ch;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+type TextOptions = {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  x?: number;
+  width?: number;
+};
+
+// 依序往下排版；剩餘高度不足時自動換頁
+function createPageWriter(footer: string) {
+  const pages: HTMLCanvasElement[] = [];
+  const state = { ctx: null as unknown as CanvasRenderingContext2D, y: MARGIN };
+
+  const newPage = () => {
+    const canvas = document.createElement("canvas");
+    canvas.width = PAGE_W;
+    canvas.height = PAGE_H;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("無法建立 canvas");
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, PAGE_W, PAGE_H);
+    ctx.textBaseline = "top";
+    pages.push(canvas);
+    state.ctx = ctx;
+    state.y = MARGIN;
+  };
+
+  const ensure = (height: number) => {
+    if (state.y + height > PAGE_H - MARGIN - FOOTER_H) newPage();
+  };
+
+  const text = (content: string, opts: TextOptions = {}) => {
+    const { size = 24, bold = false, color = "#0f172a", x = MARGIN } = opts;
+    const width = opts.width ?? CONTENT_W - (x - MARGIN);
+    const lineH = Math.round(size * 1.5);
+    state.ctx.font = font(size, bold);
+    for (const line of wrapText(state.ctx, content, width)) {
+      ensure(lineH);
+      state.ctx.font = font(size, bold);
+      state.ctx.fillStyle = color;
+      state.ctx.fillText(line, x, state.y);
+      state.y += lineH;
+    }
+  };
+
+  const rule = (gap = 16) => {
+    ensure(gap * 2);
+    state.y += gap;
+    state.ctx.strokeStyle = "#cbd5e1";
+    state.ctx.lineWidth = 2;
+    state.ctx.beginPath();
+    state.ctx.moveTo(MARGIN, state.y);
+    state.ctx.lineTo(PAGE_W - MARGIN, state.y);
+    state.ctx.stroke();
+    state.y += gap;
+  };
+
+  const photos = (images: HTMLImageElement[]) => {
+    const cellW = (CONTENT_W - PHOTO_GAP * (PHOTO_COLS - 1)) / PHOTO_COLS;
+    for (let i = 0; i < images.length; i += PHOTO_COLS) {
+      const row = images.slice(i, i + PHOTO_COLS);
+      const sizes = row.map((img) => {
+        const scale = Math.min(
+          cellW / img.naturalWidth,
+          PHOTO_MAX_H / img.naturalHeight
+        );
+        return { w: img.naturalWidth * scale, h: img.naturalHeight * scale };
+      });
+      const rowH = Math.max(...sizes.map((size) => size.h));
+      ensure(rowH + PHOTO_GAP);
+      row.forEach((img, idx) => {
+        const x = MARGIN + idx * (cellW + PHOTO_GAP);
+        state.ctx.drawImage(img, x, state.y, sizes[idx].w, sizes[idx].h);
+        state.ctx.strokeStyle = "#e2e8f0";
+        state.ctx.lineWidth = 1;
+        state.ctx.strokeRect(x, state.y, sizes[idx].w, sizes[idx].h);
+      });
+      state.y += rowH + PHOTO_GAP;
+    }
+  };
+
+  // 頁尾：報告 ID 與頁碼（頁碼在全部畫完後才知道總數）
+  const finish = () => {
+    pages.forEach((canvas, idx) => {
+      const ctx = canvas.getContext("2d")!;
+      ctx.font = font(18);
+      ctx.fillStyle = "#64748b";
+      ctx.textBaseline = "top";
+      ctx.fillText(footer, MARGIN, PAGE_H - MARGIN);
+      const pageText = `${idx + 1} / ${pages.length}`;
+      ctx.fillText(
+        pageText,
+        PAGE_W - MARGIN - ctx.measureText(pageText).width,
+        PAGE_H - MARGIN
+      );
+    });
+    return pages;
+  };
+
+  newPage();
+  return { state, ensure, text, rule, photos, finish };
+}
+
+const formatReportDateTime = (report: Report) => {
+  if (report.created_at) {
+    const d = new Date(report.created_at);
+    if (!Number.isNaN(d.getTime())) return d.toLocaleString();
+  }
+  return formatReportDate(report.id) ?? "";
+};
+
+async function renderReport(report: Report) {
+  const writer = createPageWriter(`檢驗報告 ${report.id}`);
+  const status = getReportStatus(report);
+
+  writer.text("檢驗報告", { size: 40, bold: true });
+  writer.state.y += 8;
+
+  const header: [string, string][] = [
+    ["表單編號", report.id],
+    ["序號", report.serial],
+    ["型號", report.model],
+    [
+      "製程",
+      report.process_rev
+        ? `${report.process}（Rev ${report.process_rev}）`
+        : report.process,
+    ],
+    ["檢驗人員", report.edited_by || "—"],
+    ["日期", formatReportDateTime(report) || "—"],
+    ["整體狀態", REPORT_STATUS_LABEL[status]],
+  ];
+  const labelW = 160;
+  header.forEach(([label, value]) => {
+    const startY = writer.state.y;
+    writer.text(label, { size: 24, color: "#475569" });
+    const afterLabel = writer.state.y;
+    writer.state.y = startY;
+    writer.text(value, {
+      size: 24,
+      bold: label === "整體狀態",
+      color: label === "整體狀態" && status === "ng" ? VERDICT_HEX.ng : "#0f172a",
+      x: MARGIN + labelW,
+    });
+    writer.state.y = Math.max(writer.state.y, afterLabel);
+  });
+
+  writer.rule(20);
+
+  const items = report.expected_items || [];
+  for (const [idx, item] of items.entries()) {
+    const verdict = getItemVerdict(report, item.id);
+    const spec = report.expected_specs?.[item.id];
+    const value = report.measurements?.[item.id];
+
+    // 項目標題與判定至少要和第一列照片放在同一頁
+    writer.ensure(120);
+    const startY = writer.state.y;
+    const verdictText = VERDICT_LABEL[verdict];
+    writer.state.ctx.font = font(26, true);
+    const verdictW = writer.state.ctx.measureText(verdictText).width;
+    writer.text(`${idx + 1}. ${item.name}`, {
+      size: 26,
+      bold: true,
+      width: CONTENT_W - verdictW - 24,
+    });
+    writer.state.ctx.font = font(26, true);
+    writer.state.ctx.fillStyle = VERDICT_HEX[verdict];
+    writer.state.ctx.fillText(verdictText, PAGE_W - MARGIN - verdictW, startY);
+
+    if (spec && verdict !== "na") {
+      const inSpec = value === undefined || isWithinSpec(value, spec);
+      writer.text(
+        value === undefined
+          ? `量測值：未量測（規格 ${describeSpec(spec)}）`
+          : `量測值：${formatMeasurement(value, spec)} ${spec.unit}（規格 ${describeSpec(spec)}）`,
+        { size: 22, color: inSpec ? "#334155" : VERDICT_HEX.ng, x: MARGIN + 36 }
+      );
+    }
+
+    const paths = normalizeImageValue(report.images?.[item.id]);
+    if (verdict === "na") {
+      writer.text("不適用，無照片", { size: 20, color: "#64748b", x: MARGIN + 36 });
+    } else if (paths.length === 0) {
+      writer.text("尚未拍攝", { size: 20, color: "#94a3b8", x: MARGIN + 36 });
+    } else {
+      writer.state.y += 8;
+      const loaded = await Promise.all(paths.map((path) => loadPhoto(path)));
+      const images = loaded.filter((img): img is HTMLImageElement => !!img);
+      writer.photos(images);
+      if (images.length < paths.length) {
+        writer.text(`${paths.length - images.length} 張照片無法載入`, {
+          size: 20,
+          color: VERDICT_HEX.ng,
+          x: MARGIN + 36,
+        });
+      }
+    }
+    writer.state.y += 12;
+  }
+
+  return writer.finish();
+}
+
+// 匯出一或多份報告為單一 PDF（每份報告從新的一頁開始）
+export async function exportReportsPdf(
+  reports: Report[],
+  fileName: string
+): Promise<boolean> {
+  if (reports.length === 0) return false;
+
+  try {
+    // jsPDF 體積大，匯出時才載入
+    const { jsPDF } = await import("jspdf");
+    const pdf = new jsPDF({ unit: "mm", format: "a4", compress: true });
+    let first = true;
+    for (const report of reports) {
+      const pages = await renderReport(report);
+      for (const canvas of pages) {
+        if (!first) pdf.addPage();
+        first = false;
+        pdf.addImage(canvas.toDataURL("image/jpeg", 0.85), "JPEG", 0, 0, 210, 297);
+        // 釋放 canvas 記憶體（手機上特別明顯）
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    }
+    pdf.save(fileName.endsWith(".pdf") ? fileName : `${fileName}.pdf`);
+    return true;
+  } catch (e) {
+    console.error("匯出 PDF 失敗：", e);
+    return false;
+  }
+}
@@ -0,0 +1,142 @@
+import type { Report } from "../types";
+import { downloadBlob } from "../utils/downloadUtils";
+import { normalizeImageValue } from "../utils/imageUtils";
+import { formatMeasurement } from "../utils/measurementUtils";
+import {
+  REPORT_STATUS_LABEL,
+  VERDICT_LABEL,
+  getItemVerdict,
+  getReportStatus,
+} from "../utils/verdictUtils";
+import { getSignedImageUrl, runInBatches } from "./storageService";
+
+// =============================
+//  照片 ZIP 下載：檔名改用項目名稱，並附 manifest.json
+// =============================
+
+type JSZipInstance = import("jszip");
+
+type ManifestPhoto = { file: string; source: string };
+
+type ManifestItem = {
+  id: string;
+  name: string;
+  verdict: string;
+  measurement?: string;
+  photos: ManifestPhoto[];
+};
+
+type ManifestReport = {
+  id: string;
+  process: string;
+  process_rev: number | null;
+  model: string;
+  serial: string;
+  edited_by: string;
+  created_at: string | null;
+  status: string;
+  folder: string;
+  items: ManifestItem[];
+};
+
+// Windows / macOS 不允許的檔名字元
+const safeName = (name: string) =>
+  name.replace(/[\\/:*?"<>|\r\n]+/g, "_").trim() || "未命名";
+
+async function fetchPhoto(path: string): Promise<Blob | null> {
+  try {
+    const url = await getSignedImageUrl(path);
+    if (!url) return null;
+    const res = await fetch(url);
+    return res.ok ? await res.blob() : null;
+  } catch (e) {
+    console.error("下載照片失敗：", path, e);
+    return null;
+  }
+}
+
+// 將一或多份報告的照片打包下載
+// - 單份報告：照片直接放在根目錄
+// - 多份報告（同序號各製程）：每份報告一個資料夾「製程_表單編號」
+// 回傳無法下載的照片數；-1 代表整體失敗
+export async function downloadReportPhotosZip(
+  reports: Report[],
+  zipName: string
+): Promise<number> {
+  if (reports.length === 0) return -1;
+
+  try {
+    // jszip 匯出時才載入；型別定義為 export =，打包後則以 default 匯出
+    const jszip: unknown = await import("jszip");
+    const JSZip = ((jszip as { default?: unknown }).default ?? jszip) as new () => JSZipInstance;
+    const zip = new JSZip();
+    const manifestReports: ManifestReport[] = [];
+    const failed: string[] = [];
+    const tasks: (() => Promise<void>)[] = [];
+
+    reports.forEach((report) => {
+      const folder =
+        reports.length > 1 ? `${safeName(report.process)}_${safeName(report.id)}` : "";
+      const target = folder ? zip.folder(folder)! : zip;
+
+      const items = (report.expected_items || []).map((item, idx): ManifestItem => {
+        const verdict = getItemVerdict(report, item.id);
+        const spec = report.expected_specs?.[item.id];
+        const value = report.measurements?.[item.id];
+        const paths = normalizeImageValue(report.images?.[item.id]);
+        const prefix = `${String(idx + 1).padStart(2, "0")}_${safeName(item.name)}`;
+
+        const photos = paths.map((path, photoIdx) => {
+          const file =
+            paths.length > 1 ? `${prefix}_${photoIdx + 1}.jpg` : `${prefix}.jpg`;
+          tasks.push(async () => {
+            const blob = await fetchPhoto(path);
+            if (blob) target.file(file, blob);
+            else failed.push(path);
+          });
+          return { file: folder ? `${folder}/${file}` : file, source: path };
+        });
+
+        return {
+          id: item.id,
+          name: item.name,
+          verdict: VERDICT_LABEL[verdict],
+          ...(spec && value !== undefined
+            ? { measurement: `${formatMeasurement(value, spec)} ${spec.unit}` }
+            : {}),
+          photos,
+        };
+      });
+
+      manifestReports.push({
+        id: report.id,
+        process: report.process,
+        process_rev: report.process_rev ?? null,
+        model: report.model,
+        serial: report.serial,
+        edited_by: report.edited_by || "",
+        created_at: report.created_at ?? null,
+        status: REPORT_STATUS_LABEL[getReportStatus(report)],
+        folder,
+        items,
+      });
+    });
+
+    // 同時最多 6 張
+    await runInBatches(tasks, 6);
+
+    const manifest = {
+      generated_at: new Date().toISOString(),
+      reports: manifestReports,
+      missing_photos: failed,
+    };
+    zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+
+    const blob = await zip.generateAsync({ type: "blob" });
+    downloadBlob(blob, `${safeName(zipName)}.zip`);
+    return failed.length;
+  } catch (e) {
+    console.error("打包照片失敗：", e);
+    return -1;
+  }
+}
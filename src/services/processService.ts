@@ -0,0 +1,192 @@
+import type { Process, ProcessRevision } from "../types";
+import { normalizeItemsList } from "../utils/itemUtils";
+import { parseSpecsColumn } from "../utils/measurementUtils";
+import { normalizePhotoAgePolicy } from "../utils/photoTimeUtils";
+import { normalizeWatermark } from "../utils/watermarkUtils";
+import { supabase } from "./supabaseClient";
+
+type DbWriteResult<T = undefined> =
+  | { ok: true; data: T }
+  | { ok: false; message: string; code?: string };
+
+const toProcess = (row: any): Process => ({
+  id: row.id,
+  rev: row.current_rev ?? 1,
+  name: row.name,
+  code: row.code,
+  model: row.model,
+  items: normalizeItemsList(row.items),
+  specs: parseSpecsColumn(row.specs),
+  watermark: normalizeWatermark(row.watermark),
+  photo_age_policy: normalizePhotoAgePolicy(row.photo_age_policy),
+});
+
+const toRevision = (row: any): ProcessRevision => ({
+  process_id: row.process_id,
+  rev: row.rev,
+  name: row.name,
+  code: row.code,
+  model: row.model,
+  items: normalizeItemsList(row.items),
+  specs: parseSpecsColumn(row.specs),
+  watermark: normalizeWatermark(row.watermark),
+  photo_age_policy: normalizePhotoAgePolicy(row.photo_age_policy),
+  effective_at: row.effective_at,
+  author: row.author || "",
+  changelog: row.changelog || "",
+});
+
+const revisionColumns = (proc: Process) => ({
+  name: proc.name,
+  code: proc.code,
+  model: proc.model,
+  items: JSON.stringify(proc.items),
+  specs: JSON.stringify(proc.specs ?? {}),
+  watermark: proc.watermark ?? null,
+  photo_age_policy: proc.photo_age_policy ?? null,
+});
+
+const toFailure = (error: any) => ({
+  ok: false as const,
+  message: error?.message || "unknown error",
+  code: error?.code,
+});
+
+// 讀取所有製程（目前生效版本，不含已封存）
+export async function fetchProcessesFromDB(): Promise<
+  { ok: true; data: Process[] } | { ok: false; message: string }
+> {
+  const { data, error } = await supabase
+    .from("processes")
+    .select("*")
+    .eq("archived", false)
+    .order("id", { ascending: true });
+
+  if (error) {
+    console.error("讀取 processes 失敗：", error.message);
+    return { ok: false, message: error.message };
+  }
+
+  return { ok: true, data: (data || []).map(toProcess) };
+}
+
+// 讀取單一製程的版本歷史（新 → 舊）
+export async function fetchProcessRevisions(
+  processId: number
+): Promise<ProcessRevision[]> {
+  const { data, error } = await supabase
+    .from("process_revisions")
+    .select("*")
+    .eq("process_id", processId)
+    .order("rev", { ascending: false });
+
+  if (error) {
+    console.error("讀取 process_revisions 失敗：", error.message);
+    return [];
+  }
+
+  return (data || []).map(toRevision);
+}
+
+// 讀取指定版本（報告編輯時用來確認項目來源）
+export async function fetchProcessRevision(
+  processId: number,
+  rev: number
+): Promise<ProcessRevision | null> {
+  const { data, error } = await supabase
+    .from("process_revisions")
+    .select("*")
+    .eq("process_id", processId)
+    .eq("rev", rev)
+    .maybeSingle();
+
+  if (error) {
+    console.error("讀取 process_revisions 失敗：", error.message);
+    return null;
+  }
+
+  return data ? toRevision(data) : null;
+}
+
+// RPC 參數：與 revisionColumns 相同的欄位
+const revisionParams = (proc: Process) => {
+  const columns = revisionColumns(proc);
+  return {
+    p_name: columns.name,
+    p_code: columns.code,
+    p_model: columns.model,
+    p_items: columns.items,
+    p_specs: columns.specs,
+    p_watermark: columns.watermark,
+    p_photo_age_policy: columns.photo_age_policy,
+  };
+};
+
+// 新增製程：由 RPC 在同一交易內建立 processes 與 rev 1（版本作者由資料庫填入）
+export async function createProcessInDB(
+  proc: Process,
+  changelog: string
+): Promise<DbWriteResult<Process>> {
+  const { data, error } = await supabase
+    .rpc("create_process", { ...revisionParams(proc), p_changelog: changelog })
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error("新增製程失敗：", error?.message);
+    return toFailure(error);
+  }
+
+  return { ok: true, data: toProcess(data) };
+}
+
+// 更新製程：由 RPC 在同一交易內新增下一個版本並更新 processes
+// current_rev 已被其他人更新時不會寫入任何資料
+export async function reviseProcessInDB(
+  original: Process,
+  next: Process,
+  changelog: string
+): Promise<DbWriteResult<Process>> {
+  if (!original.id) {
+    return { ok: false, message: "製程缺少 id，無法建立版本" };
+  }
+
+  const { data, error } = await supabase
+    .rpc("revise_process", {
+      p_process_id: original.id,
+      p_expected_rev: original.rev ?? 1,
+      ...revisionParams(next),
+      p_changelog: changelog,
+    })
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error("更新製程失敗：", error?.message || "版本已被更新");
+    return error
+      ? toFailure(error)
+      : { ok: false, message: "製程已被其他人更新，請重新載入", code: "stale" };
+  }
+
+  return { ok: true, data: toProcess(data) };
+}
+
+// 刪除製程：改為封存，版本歷史保留供既有報告參照
+// RLS 擋下時更新 0 筆，以回傳的 id 確認確實封存
+export async function deleteProcessInDB(
+  proc: Process
+): Promise<{ error: { message: string; code?: string } | null }> {
+  const query = supabase.from("processes").update({ archived: true });
+  const { data, error } = await (proc.id
+    ? query.eq("id", proc.id)
+    : query.match({ name: proc.name, code: proc.code, model: proc.model })
+  ).select("id");
+
+  if (error) {
+    console.error("刪除製程失敗：", error.message);
+    return { error };
+  }
+  if (!data || data.length === 0) {
+    console.error("刪除製程失敗：沒有可封存的製程");
+    return { error: { message: "no rows updated", code: "no_rows" } };
+  }
+  return { error: null };
+}
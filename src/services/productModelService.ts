@@ -0,0 +1,57 @@
+import type { ProductModel } from "../types";
+import { supabase } from "./supabaseClient";
+
+const toProductModel = (row: any): ProductModel => ({
+  model: row.model,
+  serial_pattern: row.serial_pattern || "",
+});
+
+// 讀取所有型號設定（沒有設定的型號不會出現在結果中）
+export async function fetchProductModelsFromDB(): Promise<
+  { ok: true; data: ProductModel[] } | { ok: false; message: string }
+> {
+  const { data, error } = await supabase
+    .from("product_models")
+    .select("model, serial_pattern")
+    .order("model", { ascending: true });
+
+  if (error) {
+    console.error("讀取 product_models 失敗：", error.message);
+    return { ok: false, message: error.message };
+  }
+
+  return { ok: true, data: (data || []).map(toProductModel) };
+}
+
+// 儲存型號設定（不存在則新增）
+export async function saveProductModelInDB(
+  productModel: ProductModel,
+  author: string
+): Promise<
+  { ok: true; data: ProductModel } | { ok: false; message: string; code?: string }
+> {
+  const { data, error } = await supabase
+    .from("product_models")
+    .upsert(
+      {
+        model: productModel.model,
+        serial_pattern: productModel.serial_pattern,
+        updated_at: new Date().toISOString(),
+        updated_by: author,
+      },
+      { onConflict: "model" }
+    )
+    .select("model, serial_pattern")
+    .single();
+
+  if (error || !data) {
+    console.error("儲存型號設定失敗：", error?.message);
+    return {
+      ok: false,
+      message: error?.message || "unknown error",
+      code: error?.code,
+    };
+  }
+
+  return { ok: true, data: toProductModel(data) };
+}
@@ -1,5 +1,15 @@
 import type { Report } from "../types";
 import { normalizeImagesMap } from "../utils/imageUtils";
+import { normalizeItemsList } from "../utils/itemUtils";
+import {
+  normalizeMeasurementsMap,
+  normalizeSpecsMap,
+} from "../utils/measurementUtils";
+import { toContainsPattern } from "../utils/queryUtils";
+import { diffReport, toReportSnapshot } from "../utils/reportDiff";
+import { toDateRange, type ReportQueryFilters } from "../utils/reportSearchUtils";
+import { normalizeSerial } from "../utils/serialPatternUtils";
+import { normalizeVerdictsMap } from "../utils/verdictUtils";
 import { logAudit } from "./auditService";
 import { supabase } from "./supabaseClient";
 
@@ -8,10 +18,19 @@ type DbWriteResult =
   | { ok: false; message: string; code?: string };
 
 // 儲存報告 JSON 至資料庫
-export async function saveReportToDB(report: Report): Promise<DbWriteResult> {
+// clientKey：上傳佇列的 localId（唯一），避免同一筆佇列重複建立報告
+export async function saveReportToDB(
+  report: Report,
+  clientKey?: string
+): Promise<DbWriteResult> {
   const { error } = await supabase.from("reports").insert({
     ...report,
+    client_key: clientKey ?? null,
     expected_items: JSON.stringify(report.expected_items ?? []),
+    verdicts: report.verdicts ?? {},
+    expected_specs: report.expected_specs ?? {},
+    measurements: report.measurements ?? {},
+    photo_meta: report.photo_meta ?? {},
   });
 
   if (error) {
@@ -24,46 +43,294 @@ export async function saveReportToDB(report: Report): Promise<DbWriteResult> {
     };
   }
 
-  await logAudit("report_create", report.id);
+  await logAudit(
+    "report_create",
+    report.id,
+    report.reinspection_of ? { reinspection_of: report.reinspection_of } : null
+  );
   return { ok: true };
 }
 
-// 從資料庫載入所有報告
-export async function fetchReportsFromDB(): Promise<Report[]> {
+// 依上傳佇列的 localId 查詢已建立的報告 ID（沒有則為 null）
+export async function fetchReportIdByClientKey(
+  clientKey: string
+): Promise<{ ok: true; data: string | null } | { ok: false; message: string }> {
+  const { data, error } = await supabase
+    .from("reports")
+    .select("id")
+    .eq("client_key", clientKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error("查詢佇列報告失敗：", error.message);
+    return { ok: false, message: error.message };
+  }
+  return { ok: true, data: data?.id ?? null };
+}
+
+// 配發表單 ID：製程代號-YYYYMMDDNNN（同日遞增，超過 999 延伸位數）
+// 由資料庫 RPC 原子取號，多台裝置同時儲存也不會重複
+export async function allocateReportId(
+  procCode: string,
+  date: Date
+): Promise<string | null> {
+  const ymd = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, "0")}${String(date.getDate()).padStart(2, "0")}`;
+  const { data, error } = await supabase.rpc("allocate_report_id", {
+    p_proc_code: procCode,
+    p_ymd: ymd,
+  });
+
+  if (error || typeof data !== "string" || !data) {
+    console.error("取得表單序號失敗：", error?.message || data);
+    return null;
+  }
+  return data;
+}
+
+const toReport = (row: any): Report => ({
+  id: row.id,
+  serial: row.serial,
+  model: row.model,
+  process: row.process,
+  edited_by: row.edited_by || "",
+  created_by: row.created_by || undefined,
+  created_at: row.created_at ?? undefined,
+  images: normalizeImagesMap(row.images || {}),
+  expected_items: normalizeItemsList(row.expected_items),
+  verdicts: row.verdicts ? normalizeVerdictsMap(row.verdicts) : undefined,
+  expected_specs: normalizeSpecsMap(row.expected_specs),
+  measurements: normalizeMeasurementsMap(row.measurements),
+  photo_meta:
+    row.photo_meta && typeof row.photo_meta === "object"
+      ? row.photo_meta
+      : undefined,
+  process_id: row.process_id ?? null,
+  process_rev: row.process_rev ?? null,
+  reinspection_of: row.reinspection_of ?? null,
+});
+
+// 單一報告（如還原編輯草稿時，報告不在目前載入的頁面中）
+export async function fetchReportById(id: string): Promise<Report | null> {
   const { data, error } = await supabase
     .from("reports")
     .select("*")
-    .order("created_at", { ascending: true });
+    .eq("id", id)
+    .maybeSingle();
 
   if (error) {
-    console.error("讀取 reports 失敗：", error.message);
-    return [];
+    console.error("讀取報告失敗：", error.message);
+    return null;
   }
+  return data ? toReport(data) : null;
+}
 
-  return (data || []).map((row: any) => ({
-    id: row.id,
-    serial: row.serial,
-    model: row.model,
-    process: row.process,
-    edited_by: row.edited_by || "",
-    images: normalizeImagesMap(row.images || {}),
-    expected_items: row.expected_items ? JSON.parse(row.expected_items) : [],
-  }));
+// 同一型號 + 序號 + 製程的既有報告（新 → 舊），建立前檢查是否重複
+export async function fetchReportsForUnit(
+  model: string,
+  serial: string,
+  process: string
+): Promise<{ ok: true; data: Report[] } | { ok: false; message: string }> {
+  const { data, error } = await supabase
+    .from("reports")
+    .select("*")
+    .eq("model", model)
+    // serial_key：正規化後的序號，含格式檢查前建立的舊報告
+    .eq("serial_key", normalizeSerial(serial))
+    .eq("process", process)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("查詢重複報告失敗：", error.message);
+    return { ok: false, message: error.message };
+  }
+
+  return { ok: true, data: (data || []).map(toReport) };
 }
 
-export async function updateReportInDB(report: Report) {
-  const { error } = await supabase
+// 機台履歷：序號包含關鍵字的報告（新 → 舊），單次最多載入筆數
+// exact：序號完全相符（開啟單一機台時載入完整履歷）
+export const UNIT_REPORT_LIMIT = 500;
+
+export async function searchReportsBySerial(
+  term: string,
+  exact = false
+): Promise<{ ok: true; data: Report[] } | { ok: false; message: string }> {
+  const sn = normalizeSerial(term);
+  const query = supabase.from("reports").select("*");
+  const { data, error } = await (exact
+    ? query.eq("serial_key", sn)
+    : query.ilike("serial_key", toContainsPattern(sn))
+  )
+    .order("created_at", { ascending: false })
+    .limit(UNIT_REPORT_LIMIT);
+
+  if (error) {
+    console.error("查詢機台報告失敗：", error.message);
+    return { ok: false, message: error.message };
+  }
+
+  return { ok: true, data: (data || []).map(toReport) };
+}
+
+// 報告列表分頁游標：上一頁最後一筆的建立時間與表單 ID
+export type ReportCursor = { created_at: string; id: string };
+
+export type ReportListPage = {
+  reports: Report[];
+  // 沒有下一頁時為 null
+  nextCursor: ReportCursor | null;
+};
+
+export const REPORT_PAGE_SIZE = 50;
+
+const selectReports = () => supabase.from("reports").select("*");
+
+// 報告列表的查詢條件（分頁與機台補齊共用）
+const applyReportFilters = (
+  query: ReturnType<typeof selectReports>,
+  filters: ReportQueryFilters
+) => {
+  if (filters.process) query = query.eq("process", filters.process);
+  if (filters.model) query = query.eq("model", filters.model);
+  // 狀態欄位由資料庫 trigger 依判定計算（見 compute_report_status）
+  if (filters.status === "done") query = query.eq("is_done", true);
+  if (filters.status === "not") query = query.eq("is_done", false);
+  if (filters.status === "ng") query = query.eq("has_ng", true);
+  // or() 的條件以逗號、括號分隔，關鍵字中的這些字元直接移除
+  const text = filters.text.replace(/[,()"\\]/g, "").trim();
+  if (text) {
+    const pattern = toContainsPattern(text);
+    query = query.or(
+      `serial.ilike.${pattern},id.ilike.${pattern},model.ilike.${pattern}`
+    );
+  }
+  const inspector = filters.inspector.trim();
+  if (inspector) query = query.ilike("edited_by", toContainsPattern(inspector));
+  const { from, to } = toDateRange(filters.dateFrom, filters.dateTo);
+  if (from) query = query.gte("created_at", from.toISOString());
+  if (to) query = query.lt("created_at", to.toISOString());
+  return query;
+};
+
+// 報告列表：條件皆由資料庫過濾，依 (created_at, id) 由新到舊分頁
+export async function fetchReportsPage(
+  filters: ReportQueryFilters,
+  cursor: ReportCursor | null,
+  pageSize = REPORT_PAGE_SIZE
+): Promise<{ ok: true; data: ReportListPage } | { ok: false; message: string }> {
+  let query = applyReportFilters(selectReports(), filters)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    // 多取一筆判斷是否還有下一頁
+    .limit(pageSize + 1);
+
+  if (cursor) {
+    const at = `"${cursor.created_at}"`;
+    query = query.or(
+      `created_at.lt.${at},and(created_at.eq.${at},id.lt."${cursor.id}")`
+    );
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("讀取報告列表失敗：", error.message);
+    return { ok: false, message: error.message };
+  }
+
+  const rows = (data || []).map(toReport);
+  const reports = rows.slice(0, pageSize);
+  const last = reports[reports.length - 1];
+  return {
+    ok: true,
+    data: {
+      reports,
+      nextCursor:
+        rows.length > pageSize && last?.created_at
+          ? { created_at: last.created_at, id: last.id }
+          : null,
+    },
+  };
+}
+
+// 型號 / 序號總表：已載入頁面中的機台，符合條件的所有報告（不分頁）
+// 序號以 serial_key 比對，含大小寫 / 空白不同的舊報告
+// 其他製程的報告可能在後面的頁面，總表需完整資料才能正確顯示各製程狀態
+export const UNIT_COMPLETION_LIMIT = 1000;
+
+export async function fetchReportsForUnits(
+  filters: ReportQueryFilters,
+  units: { model: string; serial: string }[]
+): Promise<
+  | { ok: true; data: Report[]; truncated: boolean }
+  | { ok: false; message: string }
+> {
+  const serialsByModel = new Map<string, Set<string>>();
+  units.forEach(({ model, serial }) => {
+    const serials = serialsByModel.get(model) ?? new Set<string>();
+    serials.add(normalizeSerial(serial));
+    serialsByModel.set(model, serials);
+  });
+
+  const results = await Promise.all(
+    Array.from(serialsByModel.entries()).map(([model, serials]) =>
+      applyReportFilters(selectReports(), filters)
+        .eq("model", model)
+        .in("serial_key", Array.from(serials))
+        .limit(UNIT_COMPLETION_LIMIT)
+    )
+  );
+
+  const failed = results.find((res) => res.error);
+  if (failed?.error) {
+    console.error("讀取機台報告失敗：", failed.error.message);
+    return { ok: false, message: failed.error.message };
+  }
+  return {
+    ok: true,
+    data: results.flatMap((res) => (res.data || []).map(toReport)),
+    // 達上限時可能還有未讀取的報告
+    truncated: results.some(
+      (res) => (res.data || []).length >= UNIT_COMPLETION_LIMIT
+    ),
+  };
+}
+
+// previous：修改前的報告，用於記錄差異與舊版本快照（稽核 / 版本比較）
+// RLS 擋下時不會回傳錯誤，而是更新 0 筆：以回傳的 id 確認確實寫入，才記錄稽核
+export async function updateReportInDB(
+  report: Report,
+  previous?: Report
+): Promise<{ error: { message: string; code?: string } | null }> {
+  const { data, error } = await supabase
     .from("reports")
     .update({
       images: report.images,
       expected_items: JSON.stringify(report.expected_items ?? []),
       edited_by: report.edited_by,
+      verdicts: report.verdicts ?? {},
+      measurements: report.measurements ?? {},
+      photo_meta: report.photo_meta ?? {},
     })
-    .eq("id", report.id);
+    .eq("id", report.id)
+    .select("id");
 
-  if (!error) {
-    await logAudit("report_update", report.id);
+  if (error) return { error };
+  if (!data || data.length === 0) {
+    return {
+      error: { message: "沒有更新任何報告（無編輯權限或報告已刪除）", code: "no_rows" },
+    };
   }
 
-  return { error };
+  await logAudit(
+    "report_update",
+    report.id,
+    previous
+      ? {
+          diff: diffReport(previous, report),
+          before: toReportSnapshot(previous),
+        }
+      : null
+  );
+
+  return { error: null };
 }
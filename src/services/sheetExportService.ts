@@ -0,0 +1,183 @@
+import type { Report } from "../types";
+import { formatReportDate, pickLatestReport } from "../utils/dateUtils";
+import { downloadBlob } from "../utils/downloadUtils";
+import { getOutOfSpecItems } from "../utils/measurementUtils";
+import {
+  REPORT_STATUS_LABEL,
+  getItemVerdict,
+  getReportStatus,
+} from "../utils/verdictUtils";
+
+// =============================
+//  報告清單 / 型號序號總表匯出（CSV、Excel）
+// =============================
+
+export type SheetFormat = "csv" | "xlsx";
+
+type SheetCell = string | number;
+type SheetRow = Record<string, SheetCell>;
+
+export type ReportGroup = {
+  model: string;
+  serial: string;
+  processMap: Map<string, Report[]>;
+};
+
+// 單份報告的項目統計
+const summarizeReport = (report: Report) => {
+  const items = report.expected_items || [];
+  const verdicts = items.map((item) => ({
+    item,
+    verdict: getItemVerdict(report, item.id),
+  }));
+  const count = (kind: string) =>
+    verdicts.filter((v) => v.verdict === kind).length;
+  return {
+    total: items.length,
+    judged: verdicts.filter((v) => v.verdict !== "pending").length,
+    ok: count("ok"),
+    ng: count("ng"),
+    pending: count("pending"),
+    naItems: verdicts
+      .filter((v) => v.verdict === "na")
+      .map((v) => v.item.name),
+  };
+};
+
+const buildReportListRows = (reports: Report[]): SheetRow[] =>
+  reports.map((report) => {
+    const summary = summarizeReport(report);
+    return {
+      表單編號: report.id,
+      日期: formatReportDate(report.id) ?? "",
+      型號: report.model,
+      序號: report.serial,
+      製程: report.process,
+      製程版本: report.process_rev ? `Rev ${report.process_rev}` : "",
+      檢驗人員: report.edited_by || "",
+      狀態: REPORT_STATUS_LABEL[getReportStatus(report)],
+      完成項目: `${summary.judged}/${summary.total}`,
+      合格: summary.ok,
+      不合格: summary.ng,
+      未判定: summary.pending,
+      "N/A 項目數": summary.naItems.length,
+      "N/A 項目": summary.naItems.join("、"),
+      量測超規: getOutOfSpecItems(report)
+        .map((item) => item.name)
+        .join("、"),
+    };
+  });
+
+// 每個型號 / 序號一列，每個製程取最新一份報告
+const buildMatrixRows = (
+  groups: ReportGroup[],
+  processOrder: string[]
+): SheetRow[] =>
+  groups.map((group) => {
+    const row: SheetRow = { 型號: group.model, 序號: group.serial };
+    let doneCount = 0;
+    processOrder.forEach((processName) => {
+      const latest = pickLatestReport(group.processMap.get(processName) ?? []);
+      if (!latest) {
+        row[`${processName} 狀態`] = "—";
+        row[`${processName} 最新日期`] = "";
+        row[`${processName} 完成項目`] = "";
+        row[`${processName} N/A 項目`] = "";
+        return;
+      }
+      const status = getReportStatus(latest);
+      const summary = summarizeReport(latest);
+      if (status === "done") doneCount++;
+      row[`${processName} 狀態`] = REPORT_STATUS_LABEL[status];
+      row[`${processName} 最新日期`] = formatReportDate(latest.id) ?? "";
+      row[`${processName} 完成項目`] = `${summary.judged}/${summary.total}`;
+      row[`${processName} N/A 項目`] = summary.naItems.join("、");
+    });
+    row["已完成製程"] = `${doneCount}/${processOrder.length}`;
+    return row;
+  });
+
+// 以 = + - @ 開頭的文字會被 Excel 當成公式執行（序號、人員、項目名稱皆為使用者輸入）
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: SheetCell) => {
+  const raw = String(value);
+  const text = typeof value === "string" && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// 加上 BOM，Excel 直接開啟 CSV 時中文才不會亂碼
+const rowsToCsv = (rows: SheetRow[]) => {
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const lines = [
+    headers.map(escapeCsvCell).join(","),
+    ...rows.map((row) =>
+      headers.map((h) => escapeCsvCell(row[h] ?? "")).join(",")
+    ),
+  ];
+  return `\uFEFF${lines.join("\r\n")}`;
+};
+
+async function writeSheet(
+  rows: SheetRow[],
+  sheetName: string,
+  fileName: string,
+  format: SheetFormat
+): Promise<boolean> {
+  if (rows.length === 0) return false;
+
+  try {
+    if (format === "csv") {
+      downloadBlob(
+        new Blob([rowsToCsv(rows)], { type: "text/csv;charset=utf-8" }),
+        `${fileName}.csv`
+      );
+      return true;
+    }
+
+    // xlsx 體積大，匯出時才載入
+    const XLSX = await import("xlsx");
+    const sheet = XLSX.utils.json_to_sheet(rows);
+    // 文字一律存為字串儲存格，不會被當成公式
+    Object.keys(sheet).forEach((ref) => {
+      const cell = sheet[ref];
+      if (ref.startsWith("!") || typeof cell?.v !== "string") return;
+      cell.t = "s";
+      delete cell.f;
+    });
+    sheet["!cols"] = Object.keys(rows[0]).map((h) => ({
+      wch: Math.max(
+        h.length * 2,
+        ...rows.map((row) => String(row[h] ?? "").length + 2)
+      ),
+    }));
+    const book = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(book, sheet, sheetName);
+    XLSX.writeFile(book, `${fileName}.xlsx`);
+    return true;
+  } catch (e) {
+    console.error("匯出報表失敗：", e);
+    return false;
+  }
+}
+
+// 匯出目前篩選後的報告清單（每份報告一列）
+export const exportReportList = (
+  reports: Report[],
+  fileName: string,
+  format: SheetFormat
+) => writeSheet(buildReportListRows(reports), "報告清單", fileName, format);
+
+// 匯出型號 / 序號 × 製程總表（同 PC 版列表）
+export const exportReportMatrix = (
+  groups: ReportGroup[],
+  processOrder: string[],
+  fileName: string,
+  format: SheetFormat
+) =>
+  writeSheet(
+    buildMatrixRows(groups, processOrder),
+    "型號序號總表",
+    fileName,
+    format
+  );
@@ -1,3 +1,4 @@
+import { toStorageItemKey } from "../utils/itemUtils";
 import { supabase } from "./supabaseClient";
 
 // 將 Storage URL 轉為 signed URL（30 分鐘有效）
@@ -57,14 +58,30 @@ export async function runInBatches<T>(
   return results;
 }
 
-// 取得項目索引（1-based），確保每個項目有固定編號
-function getItemIndex(procItems: string[], item: string) {
-  const index = procItems.indexOf(item);
-  return index >= 0 ? index + 1 : procItems.length + 1;
-}
+// 浮水印文字分行：各段以「｜」串接，超過寬度時換行（單段過長則獨立一行）
+const wrapWatermark = (
+  ctx: CanvasRenderingContext2D,
+  segments: string[],
+  maxWidth: number
+) => {
+  const lines: string[] = [];
+  let current = "";
+  segments.forEach((segment) => {
+    const candidate = current ? `${current}｜${segment}` : segment;
+    if (current && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(current);
+      current = segment;
+    } else {
+      current = candidate;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
 
 // 將圖片壓縮到最大邊 1600px，輸出 JPEG blob
-async function compressImage(file: File): Promise<Blob> {
+// watermark：浮水印文字，於照片下方加一條黑底白字的資訊列（不遮住照片內容）
+async function compressImage(file: File, watermark?: string[]): Promise<Blob> {
   const img = document.createElement("img");
   img.src = URL.createObjectURL(file);
 
@@ -91,45 +108,175 @@ async function compressImage(file: File): Promise<Blob> {
   if (!ctx) {
     return file; // fallback：直接用原檔
   }
+
+  const fontSize = Math.max(14, Math.round(width / 50));
+  const font = `${fontSize}px sans-serif`;
+  const padding = Math.round(fontSize * 0.6);
+  const lineHeight = Math.round(fontSize * 1.35);
+  ctx.font = font;
+  const lines = watermark?.length
+    ? wrapWatermark(ctx, watermark, width - padding * 2)
+    : [];
+  const bandHeight = lines.length > 0 ? lines.length * lineHeight + padding * 2 : 0;
+  // 調整畫布尺寸會重設繪圖狀態，字型需重新設定
+  canvas.height = height + bandHeight;
+
   ctx.drawImage(img, 0, 0, width, height);
+  if (bandHeight > 0) {
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(0, height, width, bandHeight);
+    ctx.fillStyle = "#ffffff";
+    ctx.font = font;
+    ctx.textBaseline = "top";
+    lines.forEach((line, idx) =>
+      ctx.fillText(line, padding, height + padding + idx * lineHeight)
+    );
+  }
 
   return new Promise((resolve) => {
     canvas.toBlob((blob) => resolve(blob || file), "image/jpeg", 0.85);
   });
 }
 
-// 上傳單張圖片到 Storage，回傳公開 URL（失敗則回傳空字串）
+// 單張照片上傳重試：次數與退避間隔（1s → 2s → 4s）
+const UPLOAD_MAX_ATTEMPTS = 4;
+const UPLOAD_RETRY_BASE_MS = 1000;
+
+// 軟刪除的照片移到此路徑下
+const TRASH_PREFIX = "_trash/";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Storage 回傳「檔案已存在」（upsert: false 時同路徑重複上傳）
+const isDuplicateError = (error: { message?: string; statusCode?: string }) =>
+  error.statusCode === "409" || /already exists|duplicate/i.test(error.message || "");
+
+// 上傳到指定路徑，暫時性錯誤依退避間隔重試；重試後仍失敗則回傳空字串
+// renameOnDuplicate：路徑已被佔用時改用的檔名（未提供則直接覆蓋）
+async function uploadWithRetry(
+  initialPath: string,
+  blob: Blob,
+  renameOnDuplicate?: () => string
+): Promise<string> {
+  let filePath = initialPath;
+  for (let attempt = 1; attempt <= UPLOAD_MAX_ATTEMPTS; attempt++) {
+    try {
+      const { error } = await supabase.storage
+        .from("photos")
+        .upload(filePath, blob, { upsert: !renameOnDuplicate });
+
+      if (!error) return filePath;
+
+      if (
+        renameOnDuplicate &&
+        isDuplicateError(error as { message?: string; statusCode?: string })
+      ) {
+        filePath = renameOnDuplicate();
+        continue;
+      }
+      console.error(
+        `上傳圖片失敗（Storage，第 ${attempt} 次）:`,
+        error.message
+      );
+    } catch (e: any) {
+      console.error(`上傳圖片失敗（例外，第 ${attempt} 次）:`, e?.message || e);
+    }
+    if (attempt < UPLOAD_MAX_ATTEMPTS) {
+      await sleep(UPLOAD_RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+  return "";
+}
+
+// 標註照片的原圖（未標註）與標註照片放在一起：item-x-1.jpg → item-x-1.orig.jpg
+export const toOriginalPhotoPath = (path: string) =>
+  path.replace(/\.jpg$/i, "") + ".orig.jpg";
+
+// 上傳單張圖片到 Storage，回傳檔案路徑（重試後仍失敗則回傳空字串）
+// - 暫時性錯誤：依退避間隔重試
+// - 路徑已被佔用（如先前上傳未寫入報告的殘留檔）：改用加上隨機碼的檔名，避免覆蓋或誤用他人照片
+// - original：標註前的原圖，存於 toOriginalPhotoPath(回傳路徑)；原圖上傳失敗則整張視為失敗
+// - info.watermark：浮水印文字（製程有啟用時），只加在上傳的照片，原圖維持未加工（僅壓縮）
+// - serial：報告儲存的序號（新報告已正規化；既有報告沿用原值，照片與原有照片同資料夾）
 export async function uploadImage(
   processCode: string,
   model: string,
   serial: string,
   reportId: string,
-  info: { item: string; procItems: string[]; photoIndex: number },
-  file: File
+  info: { itemId: string; photoIndex: number; watermark?: string[] },
+  file: File,
+  original?: File
 ): Promise<string> {
   if (!file) return "";
 
-  const compressed = await compressImage(file);
+  const compressed = await compressImage(file, info.watermark);
 
-  const { item, procItems, photoIndex } = info;
-  const itemIndex = getItemIndex(procItems, item);
+  // 檔名以項目 id 命名，項目改名或調整順序都不影響既有照片
+  const { itemId, photoIndex } = info;
   const normalizedPhotoIndex = Math.max(1, photoIndex);
-  const fileName = `item${itemIndex}-${normalizedPhotoIndex}.jpg`;
-  const filePath = `${processCode}/${model}/${serial}/${reportId}/${fileName}`;
+  const baseName = `item-${toStorageItemKey(itemId)}-${normalizedPhotoIndex}`;
+  const folder = `${processCode}/${model}/${serial}/${reportId}`;
 
-  try {
-    const { error } = await supabase.storage
-      .from("photos")
-      .upload(filePath, compressed, { upsert: false });
+  const filePath = await uploadWithRetry(
+    `${folder}/${baseName}.jpg`,
+    compressed,
+    () => `${folder}/${baseName}-${Math.random().toString(36).slice(2, 8)}.jpg`
+  );
+  if (!filePath || !original) return filePath;
 
+  // 標註照片的路徑是新取得的，同名原圖只可能是先前失敗的殘留檔，直接覆蓋
+  const originalPath = await uploadWithRetry(
+    toOriginalPhotoPath(filePath),
+    await compressImage(original)
+  );
+  if (!originalPath) {
+    await removeImages([filePath]);
+    return "";
+  }
+  return filePath;
+}
+
+// 刪除 Storage 中的照片（清除上傳後未寫入報告的殘留檔）
+export async function removeImages(paths: string[]): Promise<boolean> {
+  if (paths.length === 0) return true;
+  try {
+    const { error } = await supabase.storage.from("photos").remove(paths);
     if (error) {
-      console.error("上傳圖片失敗（Storage）:", error.message);
-      return "";
+      console.error("刪除圖片失敗（Storage）:", error.message);
+      return false;
     }
-
-    return filePath;
+    return true;
   } catch (e: any) {
-    console.error("上傳圖片失敗（例外）:", e?.message || e);
-    return "";
+    console.error("刪除圖片失敗（例外）:", e?.message || e);
+    return false;
   }
 }
+
+// 軟刪除：將照片移到 _trash/ 下保留，必要時可由管理員還原
+// 回傳每張照片的移動結果（失敗者 to 為空字串，原檔維持不動）
+export async function softDeleteImages(
+  paths: string[]
+): Promise<{ from: string; to: string }[]> {
+  return runInBatches(
+    paths.map((path) => async () => {
+      let target = `${TRASH_PREFIX}${path}`;
+      for (let attempt = 1; attempt <= 2; attempt++) {
+        try {
+          const { error } = await supabase.storage.from("photos").move(path, target);
+          if (!error) return { from: path, to: target };
+          if (!isDuplicateError(error as { message?: string; statusCode?: string })) {
+            console.error("移除照片失敗（Storage）:", path, error.message);
+            break;
+          }
+          // 垃圾桶已有同名檔（同路徑曾被刪除過）：加上時間戳記
+          target = `${TRASH_PREFIX}${Date.now()}/${path}`;
+        } catch (e: any) {
+          console.error("移除照片失敗（例外）:", path, e?.message || e);
+          break;
+        }
+      }
+      return { from: path, to: "" };
+    }),
+    6
+  );
+}
@@ -0,0 +1,96 @@
+import type { UserRole } from "../types";
+import { supabase } from "./supabaseClient";
+
+// =============================
+//  帳號管理：透過 admin-users Edge Function（需 service role）操作
+// =============================
+
+export type ManagedUser = {
+  id: string;
+  username: string;
+  role: UserRole;
+  disabled: boolean;
+  created_at: string | null;
+  // 最後一次登入（audit_logs 的 login 事件）
+  last_login_at: string | null;
+  // 單一登入鎖最後更新時間（user_login_lock.updated_at）
+  last_seen_at: string | null;
+};
+
+type AdminWriteResult = { ok: true } | { ok: false; message: string };
+
+type AdminRequest =
+  | { action: "list" }
+  | { action: "create"; username: string; password: string; role: UserRole }
+  | { action: "set_role"; userId: string; role: UserRole }
+  | { action: "set_disabled"; userId: string; disabled: boolean }
+  | { action: "reset_password"; userId: string; password: string };
+
+async function invokeAdminUsers<T>(
+  body: AdminRequest
+): Promise<{ data: T | null; message: string }> {
+  const { data, error } = await supabase.functions.invoke("admin-users", {
+    body,
+  });
+  if (error) {
+    // Edge Function 回傳的錯誤訊息放在 response body
+    let message = error.message || "unknown error";
+    try {
+      const detail = await (error as any).context?.json?.();
+      if (detail?.error) message = detail.error;
+    } catch {
+      // ignore
+    }
+    console.error(`帳號管理（${body.action}）失敗：`, message);
+    return { data: null, message };
+  }
+  return { data: data as T, message: "" };
+}
+
+const toWriteResult = ({ message }: { message: string }): AdminWriteResult =>
+  message ? { ok: false, message } : { ok: true };
+
+export async function fetchManagedUsers(): Promise<ManagedUser[] | null> {
+  const { data } = await invokeAdminUsers<{ users: ManagedUser[] }>({
+    action: "list",
+  });
+  if (!data) return null;
+  return [...data.users].sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export async function createManagedUser(
+  username: string,
+  password: string,
+  role: UserRole
+): Promise<AdminWriteResult> {
+  return toWriteResult(
+    await invokeAdminUsers({ action: "create", username, password, role })
+  );
+}
+
+export async function setManagedUserRole(
+  userId: string,
+  role: UserRole
+): Promise<AdminWriteResult> {
+  return toWriteResult(
+    await invokeAdminUsers({ action: "set_role", userId, role })
+  );
+}
+
+export async function setManagedUserDisabled(
+  userId: string,
+  disabled: boolean
+): Promise<AdminWriteResult> {
+  return toWriteResult(
+    await invokeAdminUsers({ action: "set_disabled", userId, disabled })
+  );
+}
+
+export async function resetManagedUserPassword(
+  userId: string,
+  password: string
+): Promise<AdminWriteResult> {
+  return toWriteResult(
+    await invokeAdminUsers({ action: "reset_password", userId, password })
+  );
+}
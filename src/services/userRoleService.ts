@@ -0,0 +1,30 @@
+import type { UserRole } from "../types";
+import { USER_ROLES } from "../utils/permissionUtils";
+import { supabase } from "./supabaseClient";
+
+export type UserRoleRecord = {
+  role: UserRole;
+  disabled: boolean;
+};
+
+// 讀取目前使用者的角色；查無資料或讀取失敗時回傳 null（視為無任何權限）
+export async function fetchUserRole(
+  userId: string
+): Promise<UserRoleRecord | null> {
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("role, disabled")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("讀取 user_roles 失敗：", error.message);
+    return null;
+  }
+  if (!data || !USER_ROLES.includes(data.role as UserRole)) return null;
+
+  return {
+    role: data.role as UserRole,
+    disabled: !!data.disabled,
+  };
+}
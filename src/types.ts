@@ -1,8 +1,88 @@
+// 檢驗項目：id 建立後不再變動，照片 / 判定 / 量測 / 儲存路徑皆以 id 為 key
+export type InspectionItem = {
+  id: string;
+  name: string;
+};
+
 export type Process = {
+  id?: number;
+  // 目前生效的版本號（process_revisions.rev）
+  rev?: number;
   name: string;
   code: string;
   model: string;
-  items: string[];
+  items: InspectionItem[];
+  // 量測型項目的規格（key 為項目 id），未設定者為一般拍照項目
+  specs?: Record<string, MeasurementSpec>;
+  // 照片浮水印設定（舊製程沒有設定，視為不加浮水印）
+  watermark?: WatermarkConfig;
+  // 照片時效：拍攝時間早於開始填寫報告太久時提醒或禁止（舊製程不檢查）
+  photo_age_policy?: PhotoAgePolicy;
+};
+
+// 產品型號設定：序號格式（遮罩或 /正規表示式/，空字串表示不檢查）
+export type ProductModel = {
+  model: string;
+  serial_pattern: string;
+};
+
+// 製程版本：每次更新製程都新增一筆，既有版本不再修改
+export type ProcessRevision = {
+  process_id: number;
+  rev: number;
+  name: string;
+  code: string;
+  model: string;
+  items: InspectionItem[];
+  specs: Record<string, MeasurementSpec>;
+  watermark?: WatermarkConfig;
+  photo_age_policy?: PhotoAgePolicy;
+  effective_at: string;
+  author: string;
+  changelog: string;
+};
+
+// 照片浮水印可顯示的欄位
+export type WatermarkField =
+  | "report_id"
+  | "serial"
+  | "model"
+  | "item"
+  | "inspector"
+  | "captured_at";
+
+// 製程的照片浮水印：啟用時於照片下方加上資訊列，依 fields 順序顯示
+export type WatermarkConfig = {
+  enabled: boolean;
+  fields: WatermarkField[];
+};
+
+// 照片時效：off 不檢查、warn 提醒但可使用、block 不可使用
+export type PhotoAgePolicy = {
+  mode: "off" | "warn" | "block";
+  maxHours: number;
+};
+
+// 量測型項目：單位、上下限（可只設一邊）與小數位數
+export type MeasurementSpec = {
+  unit: string;
+  lower: number | null;
+  upper: number | null;
+  precision: number;
+};
+
+// 單一檢驗項目的判定：合格 / 不合格 / 不適用 / 未判定
+export type ItemVerdict = "ok" | "ng" | "na" | "pending";
+
+// 寫入 reports.verdicts 的判定（N/A 仍沿用 images 的 NA_SENTINEL）
+export type PassFail = "ok" | "ng";
+
+// 單張照片的附加資訊
+// - original：標註照片的原圖（未標註）路徑
+// - captured_at：拍攝時間（EXIF，沒有則為檔案修改時間），ISO 字串
+export type PhotoMeta = {
+  original?: string;
+  captured_at?: string;
 };
 
 export type Report = {
@@ -11,6 +91,36 @@ export type Report = {
   model: string;
   process: string;
   edited_by?: string;
+  // 建立者帳號（舊報告沒有記錄）
+  created_by?: string;
+  // 資料庫建立時間（僅讀取，新增時由資料庫填入）
+  created_at?: string;
+  // 以下各 map 的 key 皆為項目 id
   images: Record<string, string[] | string>;
-  expected_items: string[];
+  expected_items: InspectionItem[];
+  // 建立報告時依據的製程版本（舊報告沒有記錄）
+  process_id?: number | null;
+  process_rev?: number | null;
+  // 舊報告沒有此欄位（undefined），沿用「有照片即完成」的判斷
+  verdicts?: Record<string, PassFail>;
+  // 建立報告時的量測規格快照與量測值
+  expected_specs?: Record<string, MeasurementSpec>;
+  measurements?: Record<string, number>;
+  // 照片附加資訊（key 為照片的 Storage 路徑）
+  photo_meta?: Record<string, PhotoMeta>;
+  // 複檢：原報告的表單 ID
+  reinspection_of?: string | null;
 };
+
+// 使用者角色（user_roles.role）
+export type UserRole = "inspector" | "supervisor" | "qa" | "admin";
+
+// 編輯報告時對既有照片的變更（以 Storage 路徑為 key）
+// - delete：移除該照片
+// - replace：以新拍攝的照片取代，儲存後沿用原本的排列位置
+export type ExistingPhotoChange =
+  | { itemId: string; action: "delete" }
+  | { itemId: string; action: "replace"; file: File; previewUrl: string };
+
+// 編輯時顯示的既有照片（Storage 路徑與 signed URL）
+export type ExistingPhoto = { path: string; url: string };
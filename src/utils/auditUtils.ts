@@ -0,0 +1,59 @@
+import type { AuditAction, AuditLogEntry } from "../services/auditService";
+import type { UserRole } from "../types";
+import { ROLE_LABEL } from "./permissionUtils";
+import { summarizeReportDiff, type ReportDiff } from "./reportDiff";
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "login",
+  "report_create",
+  "report_update",
+  "upload_photo_batch",
+  "photo_delete",
+  "user_admin",
+];
+
+export const AUDIT_ACTION_LABEL: Record<AuditAction, string> = {
+  login: "登入",
+  report_create: "建立報告",
+  report_update: "修改報告",
+  upload_photo_batch: "上傳照片",
+  photo_delete: "刪除照片",
+  user_admin: "帳號管理",
+};
+
+const USER_ADMIN_OP_LABEL: Record<string, string> = {
+  create: "建立帳號",
+  set_role: "變更角色",
+  set_disabled: "停用 / 啟用",
+  reset_password: "重設密碼",
+};
+
+// 稽核紀錄的補充說明（依 action 解讀 meta）
+export const describeAuditMeta = (entry: AuditLogEntry): string => {
+  const meta = entry.meta || {};
+  switch (entry.action) {
+    case "report_create":
+      return meta.reinspection_of ? `複檢，原報告 ${meta.reinspection_of}` : "";
+    case "report_update":
+      return meta.diff ? summarizeReportDiff(meta.diff as ReportDiff) : "";
+    case "photo_delete":
+      return Array.isArray(meta.photos)
+        ? `移除 ${meta.photos.length} 張${meta.replaced ? `（其中替換 ${meta.replaced} 張）` : ""}`
+        : "";
+    case "upload_photo_batch":
+      return typeof meta.addedCount === "number"
+        ? `新增照片 ${meta.addedCount} 張`
+        : "";
+    case "user_admin": {
+      const op = USER_ADMIN_OP_LABEL[String(meta.op)] || String(meta.op || "");
+      if (meta.op === "create") return `${op}：${meta.username ?? ""}`;
+      if (meta.op === "set_role") {
+        return `${op}：${ROLE_LABEL[meta.role as UserRole] ?? meta.role}`;
+      }
+      if (meta.op === "set_disabled") return meta.disabled ? "停用帳號" : "啟用帳號";
+      return op;
+    }
+    default:
+      return "";
+  }
+};
@@ -0,0 +1,25 @@
+import type { Report } from "../types";
+
+// 表單 ID 格式為「製程代號-YYYYMMDDNNN」，取出日期（YYYY-MM-DD）
+export const formatReportDate = (reportId?: string) => {
+  if (!reportId) return null;
+  const match = reportId.match(/-(\d{8})/);
+  if (!match) return null;
+  const raw = match[1];
+  const year = raw.slice(0, 4);
+  const month = raw.slice(4, 6);
+  const day = raw.slice(6, 8);
+  if (!year || !month || !day) return null;
+  return `${year}-${month}-${day}`;
+};
+
+// 同一型號 / 序號 / 製程有多份報告時，取表單日期最新的一份
+// 同一天（如當天複檢）再以建立時間判斷
+export const pickLatestReport = (reports: Report[]) =>
+  reports.reduce<Report | null>((current, next) => {
+    if (!current) return next;
+    const currentDate = formatReportDate(current.id) ?? "";
+    const nextDate = formatReportDate(next.id) ?? "";
+    if (nextDate !== currentDate) return nextDate > currentDate ? next : current;
+    return (next.created_at ?? "") > (current.created_at ?? "") ? next : current;
+  }, null);
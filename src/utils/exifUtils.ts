@@ -0,0 +1,99 @@
+// =============================
+//  EXIF 拍攝時間：只解析 JPEG 的 APP1（Exif）區段，不需額外套件
+// =============================
+
+// Exif 區段位於檔案開頭，只讀前 128KB
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TYPE_ASCII = 2;
+
+type IfdEntries = Map<number, { type: number; count: number; valueOffset: number }>;
+
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean) => {
+  const entries: IfdEntries = new Map();
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return entries;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      // 超過 4 bytes 的值存放位置（相對 TIFF 開頭）
+      valueOffset: view.getUint32(entry + 8, little),
+    });
+  }
+  return entries;
+};
+
+const readAscii = (
+  view: DataView,
+  tiff: number,
+  entry?: { type: number; count: number; valueOffset: number }
+) => {
+  if (!entry || entry.type !== TYPE_ASCII || entry.count < 19) return "";
+  const start = tiff + entry.valueOffset;
+  if (start + 19 > view.byteLength) return "";
+  let text = "";
+  for (let i = 0; i < 19; i++) text += String.fromCharCode(view.getUint8(start + i));
+  return text;
+};
+
+// "YYYY:MM:DD HH:MM:SS"（相機本機時間）→ epoch ms
+const parseExifDate = (text: string) => {
+  const match = text.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const time = new Date(y, mo - 1, d, h, mi, s).getTime();
+  return Number.isFinite(time) && y > 1970 ? time : null;
+};
+
+const findExifDate = (view: DataView): number | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // 影像資料開始（SOS）後不會再有 Exif
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return null;
+
+    const isExif =
+      marker === 0xffe1 &&
+      offset + 10 <= view.byteLength &&
+      view.getUint32(offset + 4) === 0x45786966 && // "Exif"
+      view.getUint16(offset + 8) === 0;
+    if (isExif) {
+      const tiff = offset + 10;
+      if (tiff + 8 > view.byteLength) return null;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+      const exifPointer = ifd0.get(TAG_EXIF_IFD);
+      const exifIfd = exifPointer
+        ? readIfd(view, tiff, exifPointer.valueOffset, little)
+        : new Map();
+      return (
+        parseExifDate(readAscii(view, tiff, exifIfd.get(TAG_DATE_TIME_ORIGINAL))) ??
+        parseExifDate(readAscii(view, tiff, exifIfd.get(TAG_DATE_TIME_DIGITIZED))) ??
+        parseExifDate(readAscii(view, tiff, ifd0.get(TAG_DATE_TIME)))
+      );
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// 讀取照片的 EXIF 拍攝時間；非 JPEG 或沒有 EXIF 回傳 null
+export async function readExifCaptureTime(file: Blob): Promise<number | null> {
+  try {
+    const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer();
+    return findExifDate(new DataView(buffer));
+  } catch {
+    return null;
+  }
+}
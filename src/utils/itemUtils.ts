@@ -0,0 +1,65 @@
+import type { InspectionItem } from "../types";
+
+// 新項目 id：建立後不隨改名 / 排序變動
+export const createItemId = () => {
+  const raw =
+    typeof crypto !== "undefined" && "randomUUID" in crypto
+      ? crypto.randomUUID().replace(/-/g, "")
+      : `${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+  return `i${raw.slice(0, 12)}`;
+};
+
+// 解析 items / expected_items 欄位
+// 舊資料為字串陣列（尚未執行項目 id 移轉）時，暫以名稱作為 id，與舊的 images key 一致
+export const normalizeItemsList = (raw: unknown): InspectionItem[] => {
+  let list: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      list = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(list)) return [];
+
+  return list
+    .map((entry): InspectionItem | null => {
+      if (typeof entry === "string") return { id: entry, name: entry };
+      if (entry && typeof entry === "object") {
+        const { id, name } = entry as { id?: unknown; name?: unknown };
+        if (typeof id === "string" && id) {
+          return { id, name: typeof name === "string" ? name : id };
+        }
+      }
+      return null;
+    })
+    .filter((item): item is InspectionItem => item !== null);
+};
+
+export const getItemName = (items: InspectionItem[], id: string) =>
+  items.find((item) => item.id === id)?.name ?? id;
+
+// 舊草稿以項目名稱為 key：對應到目前項目的 id，找不到者捨棄
+export const remapKeysToItemIds = <T,>(
+  map: Record<string, T> | undefined,
+  items: InspectionItem[]
+) => {
+  const next: Record<string, T> = {};
+  Object.entries(map || {}).forEach(([key, value]) => {
+    const item =
+      items.find((it) => it.id === key) ?? items.find((it) => it.name === key);
+    if (item) next[item.id] = value;
+  });
+  return next;
+};
+
+// 儲存路徑只接受英數字；未移轉的舊項目（id 為中文名稱）改用雜湊
+export const toStorageItemKey = (id: string) => {
+  if (/^[A-Za-z0-9_-]+$/.test(id)) return id;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < id.length; i++) {
+    hash ^= id.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `h${(hash >>> 0).toString(16).padStart(8, "0")}`;
+};
@@ -0,0 +1,125 @@
+import type { InspectionItem, MeasurementSpec, PassFail } from "../types";
+
+const toFiniteOrNull = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+};
+
+export const normalizeSpec = (raw: any): MeasurementSpec | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const precision = Number(raw.precision);
+  return {
+    unit: typeof raw.unit === "string" ? raw.unit : "",
+    lower: toFiniteOrNull(raw.lower),
+    upper: toFiniteOrNull(raw.upper),
+    precision:
+      Number.isInteger(precision) && precision >= 0 ? Math.min(precision, 6) : 0,
+  };
+};
+
+export const normalizeSpecsMap = (raw?: Record<string, unknown> | null) => {
+  const next: Record<string, MeasurementSpec> = {};
+  Object.entries(raw || {}).forEach(([item, value]) => {
+    const spec = normalizeSpec(value);
+    if (spec) next[item] = spec;
+  });
+  return next;
+};
+
+export const normalizeMeasurementsMap = (raw?: Record<string, unknown> | null) => {
+  const next: Record<string, number> = {};
+  Object.entries(raw || {}).forEach(([item, value]) => {
+    const n = toFiniteOrNull(value);
+    if (n !== null) next[item] = n;
+  });
+  return next;
+};
+
+// processes / reports 欄位可能是 JSON 字串或 jsonb 物件
+export const parseSpecsColumn = (raw: unknown) => {
+  if (!raw) return {};
+  if (typeof raw === "string") {
+    try {
+      return normalizeSpecsMap(JSON.parse(raw));
+    } catch {
+      return {};
+    }
+  }
+  return normalizeSpecsMap(raw as Record<string, unknown>);
+};
+
+// 依小數位數四捨五入；空白或非數字回傳 null
+export const parseMeasurementInput = (raw: string, spec: MeasurementSpec) => {
+  const trimmed = raw.trim();
+  if (!trimmed) return null;
+  const n = Number(trimmed);
+  if (!Number.isFinite(n)) return null;
+  const factor = 10 ** spec.precision;
+  return Math.round(n * factor) / factor;
+};
+
+export const formatMeasurement = (value: number, spec: MeasurementSpec) =>
+  value.toFixed(spec.precision);
+
+export const isWithinSpec = (value: number, spec: MeasurementSpec) => {
+  if (spec.lower !== null && value < spec.lower) return false;
+  if (spec.upper !== null && value > spec.upper) return false;
+  return true;
+};
+
+export const judgeMeasurement = (
+  value: number,
+  spec: MeasurementSpec
+): PassFail => (isWithinSpec(value, spec) ? "ok" : "ng");
+
+// 規格顯示文字，例如「2.0 ~ 3.5 bar」、「≥ 10 MΩ」
+export const describeSpec = (spec: MeasurementSpec) => {
+  const fmt = (n: number) => n.toFixed(spec.precision);
+  const unit = spec.unit ? ` ${spec.unit}` : "";
+  if (spec.lower !== null && spec.upper !== null) {
+    return `${fmt(spec.lower)} ~ ${fmt(spec.upper)}${unit}`;
+  }
+  if (spec.lower !== null) return `≥ ${fmt(spec.lower)}${unit}`;
+  if (spec.upper !== null) return `≤ ${fmt(spec.upper)}${unit}`;
+  return spec.unit ? `單位：${spec.unit}` : "無規格限制";
+};
+
+// 將輸入框的字串整理成量測值；N/A 項目略過，無法解析者列入 invalidItems（皆以項目 id 為 key）
+export const collectMeasurements = (
+  itemIds: string[],
+  specs: Record<string, MeasurementSpec>,
+  inputs: Record<string, string>,
+  naState: Record<string, boolean>
+) => {
+  const measurements: Record<string, number> = {};
+  const judged: Record<string, PassFail> = {};
+  const invalidItems: string[] = [];
+
+  itemIds.forEach((item) => {
+    const spec = specs[item];
+    const raw = inputs[item];
+    if (!spec || naState[item] || !raw?.trim()) return;
+    const value = parseMeasurementInput(raw, spec);
+    if (value === null) {
+      invalidItems.push(item);
+      return;
+    }
+    measurements[item] = value;
+    judged[item] = judgeMeasurement(value, spec);
+  });
+
+  return { measurements, judged, invalidItems };
+};
+
+// 報告中量測值超出規格的項目
+export const getOutOfSpecItems = (report: {
+  expected_items: InspectionItem[];
+  expected_specs?: Record<string, MeasurementSpec>;
+  measurements?: Record<string, number>;
+}) =>
+  (report.expected_items || []).filter((item) => {
+    const spec = report.expected_specs?.[item.id];
+    const value = report.measurements?.[item.id];
+    return !!spec && value !== undefined && !isWithinSpec(value, spec);
+  });
@@ -0,0 +1,61 @@
+import type { Report, UserRole } from "../types";
+
+// =============================
+//  角色權限：前端依此顯示 / 隱藏功能，資料庫 RLS 另行把關
+// =============================
+
+export type Permission =
+  | "report.create"
+  | "report.edit_own"
+  | "report.edit_others"
+  | "report.mark_na"
+  | "process.manage"
+  | "user.manage"
+  | "audit.view";
+
+export const USER_ROLES: UserRole[] = ["inspector", "supervisor", "qa", "admin"];
+
+export const ROLE_LABEL: Record<UserRole, string> = {
+  inspector: "檢驗員",
+  supervisor: "組長",
+  qa: "品保",
+  admin: "管理員",
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  inspector: ["report.create", "report.edit_own"],
+  supervisor: [
+    "report.create",
+    "report.edit_own",
+    "report.edit_others",
+    "report.mark_na",
+    "audit.view",
+  ],
+  qa: ["audit.view"],
+  admin: [
+    "report.create",
+    "report.edit_own",
+    "report.edit_others",
+    "report.mark_na",
+    "process.manage",
+    "user.manage",
+    "audit.view",
+  ],
+};
+
+export const can = (role: UserRole | null, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+// 報告建立者：舊報告沒有 created_by，以最後編輯者判斷
+const getReportOwner = (report: Report) =>
+  (report.created_by || report.edited_by || "").toLowerCase();
+
+export const canEditReport = (
+  role: UserRole | null,
+  username: string,
+  report: Report
+) =>
+  can(role, "report.edit_others") ||
+  (can(role, "report.edit_own") &&
+    !!username &&
+    getReportOwner(report) === username.toLowerCase());
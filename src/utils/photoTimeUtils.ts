@@ -0,0 +1,60 @@
+import type { PhotoAgePolicy } from "../types";
+import { readExifCaptureTime } from "./exifUtils";
+import { formatCaptureTime } from "./watermarkUtils";
+
+export const PHOTO_AGE_MODES: PhotoAgePolicy["mode"][] = ["off", "warn", "block"];
+
+export const PHOTO_AGE_MODE_LABEL: Record<PhotoAgePolicy["mode"], string> = {
+  off: "不檢查",
+  warn: "提醒",
+  block: "禁止使用",
+};
+
+export const DEFAULT_PHOTO_AGE_POLICY: PhotoAgePolicy = {
+  mode: "off",
+  maxHours: 24,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const normalizePhotoAgePolicy = (
+  raw: unknown
+): PhotoAgePolicy | undefined => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const { mode, maxHours } = raw as { mode?: unknown; maxHours?: unknown };
+  const hours = Number(maxHours);
+  return {
+    mode: PHOTO_AGE_MODES.includes(mode as PhotoAgePolicy["mode"])
+      ? (mode as PhotoAgePolicy["mode"])
+      : "off",
+    maxHours: Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_PHOTO_AGE_POLICY.maxHours,
+  };
+};
+
+export const describePhotoAgePolicy = (policy?: PhotoAgePolicy) =>
+  !policy || policy.mode === "off"
+    ? PHOTO_AGE_MODE_LABEL.off
+    : `早於開始填寫 ${policy.maxHours} 小時的照片${PHOTO_AGE_MODE_LABEL[policy.mode]}`;
+
+// 拍攝時間早於報告開始時間超過上限
+export const isStalePhoto = (
+  capturedAt: number,
+  startedAt: number,
+  policy?: PhotoAgePolicy
+) =>
+  !!policy &&
+  policy.mode !== "off" &&
+  startedAt - capturedAt > policy.maxHours * HOUR_MS;
+
+// 拍攝時間：優先使用 EXIF，沒有則用檔案修改時間
+export async function readCaptureTime(file: File): Promise<number> {
+  return (await readExifCaptureTime(file)) ?? (file.lastModified || Date.now());
+}
+
+// 拍攝時間（epoch ms 或照片附加資訊的 ISO 字串）→ 顯示用文字
+export const describeCapturedAt = (value?: number | string) => {
+  const ms = typeof value === "string" ? Date.parse(value) : value;
+  return ms !== undefined && Number.isFinite(ms)
+    ? `拍攝時間 ${formatCaptureTime(ms)}`
+    : "";
+};
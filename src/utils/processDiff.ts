@@ -0,0 +1,100 @@
+import type {
+  InspectionItem,
+  MeasurementSpec,
+  PhotoAgePolicy,
+  WatermarkConfig,
+} from "../types";
+import { describeSpec } from "./measurementUtils";
+import { describePhotoAgePolicy } from "./photoTimeUtils";
+import { describeWatermark } from "./watermarkUtils";
+
+type ProcessContent = {
+  name: string;
+  code: string;
+  model: string;
+  items: InspectionItem[];
+  specs?: Record<string, MeasurementSpec>;
+  watermark?: WatermarkConfig;
+  photo_age_policy?: PhotoAgePolicy;
+};
+
+export type ProcessDiff = {
+  fields: { label: string; from: string; to: string }[];
+  added: string[];
+  removed: string[];
+  renamed: { from: string; to: string }[];
+  reordered: boolean;
+  specChanged: { item: string; from: string; to: string }[];
+};
+
+const specText = (spec?: MeasurementSpec) =>
+  spec ? describeSpec(spec) : "拍照項目";
+
+// 比較兩個版本的差異（名稱 / 代號 / 型號 / 照片設定、項目增刪、順序、量測規格）
+export const diffProcessContent = (
+  prev: ProcessContent,
+  next: ProcessContent
+): ProcessDiff => {
+  const fields: ProcessDiff["fields"] = [];
+  if (prev.name !== next.name) {
+    fields.push({ label: "製程名稱", from: prev.name, to: next.name });
+  }
+  if (prev.code !== next.code) {
+    fields.push({ label: "製程代號", from: prev.code, to: next.code });
+  }
+  if (prev.model !== next.model) {
+    fields.push({ label: "產品型號", from: prev.model, to: next.model });
+  }
+  const prevWatermark = describeWatermark(prev.watermark);
+  const nextWatermark = describeWatermark(next.watermark);
+  if (prevWatermark !== nextWatermark) {
+    fields.push({ label: "照片浮水印", from: prevWatermark, to: nextWatermark });
+  }
+  const prevAgePolicy = describePhotoAgePolicy(prev.photo_age_policy);
+  const nextAgePolicy = describePhotoAgePolicy(next.photo_age_policy);
+  if (prevAgePolicy !== nextAgePolicy) {
+    fields.push({ label: "照片時效", from: prevAgePolicy, to: nextAgePolicy });
+  }
+
+  // 項目以 id 比對：同 id 不同名稱視為改名
+  const prevById = new Map(prev.items.map((item) => [item.id, item]));
+  const nextById = new Map(next.items.map((item) => [item.id, item]));
+  const added = next.items
+    .filter((item) => !prevById.has(item.id))
+    .map((item) => item.name);
+  const removed = prev.items
+    .filter((item) => !nextById.has(item.id))
+    .map((item) => item.name);
+  const renamed = next.items
+    .filter((item) => {
+      const before = prevById.get(item.id);
+      return !!before && before.name !== item.name;
+    })
+    .map((item) => ({ from: prevById.get(item.id)!.name, to: item.name }));
+
+  const keptPrev = prev.items.filter((item) => nextById.has(item.id));
+  const keptNext = next.items.filter((item) => prevById.has(item.id));
+  const reordered = keptPrev.some((item, idx) => item.id !== keptNext[idx].id);
+
+  const specChanged = keptNext
+    .filter(
+      (item) =>
+        JSON.stringify(prev.specs?.[item.id] ?? null) !==
+        JSON.stringify(next.specs?.[item.id] ?? null)
+    )
+    .map((item) => ({
+      item: item.name,
+      from: specText(prev.specs?.[item.id]),
+      to: specText(next.specs?.[item.id]),
+    }));
+
+  return { fields, added, removed, renamed, reordered, specChanged };
+};
+
+export const isEmptyProcessDiff = (diff: ProcessDiff) =>
+  diff.fields.length === 0 &&
+  diff.added.length === 0 &&
+  diff.removed.length === 0 &&
+  diff.renamed.length === 0 &&
+  !diff.reordered &&
+  diff.specChanged.length === 0;
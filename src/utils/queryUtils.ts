@@ -0,0 +1,3 @@
+// ilike 部分比對：萬用字元（% _）與跳脫字元視為一般字元
+export const toContainsPattern = (term: string) =>
+  `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
@@ -0,0 +1,132 @@
+import type { InspectionItem, ItemVerdict, Report } from "../types";
+import { getItemName } from "./itemUtils";
+import { isNAValue, normalizeImageValue } from "./imageUtils";
+import { VERDICT_LABEL, getItemVerdict } from "./verdictUtils";
+
+// 報告內容快照：寫入 audit_logs（report_update 的 meta.before），用於還原舊版本
+export type ReportSnapshot = Pick<
+  Report,
+  "images" | "verdicts" | "measurements" | "edited_by"
+>;
+
+// 報告修改差異（key 皆為項目 id）
+export type ReportDiff = {
+  editor: string;
+  naAdded: string[];
+  naCleared: string[];
+  photosAdded: Record<string, number>;
+  photosRemoved: Record<string, number>;
+  verdictChanged: { itemId: string; from: ItemVerdict; to: ItemVerdict }[];
+  measurementChanged: {
+    itemId: string;
+    from: number | null;
+    to: number | null;
+  }[];
+};
+
+type ReportContent = Pick<Report, "expected_items"> & ReportSnapshot;
+
+export const toReportSnapshot = (report: Report): ReportSnapshot => ({
+  images: report.images,
+  verdicts: report.verdicts,
+  measurements: report.measurements,
+  edited_by: report.edited_by,
+});
+
+const asReport = (content: ReportContent) => content as Report;
+
+// 比較報告修改前後（N/A 標記 / 取消、照片增刪、判定、量測值）
+export const diffReport = (
+  prev: ReportContent,
+  next: ReportContent
+): ReportDiff => {
+  const diff: ReportDiff = {
+    editor: next.edited_by || "",
+    naAdded: [],
+    naCleared: [],
+    photosAdded: {},
+    photosRemoved: {},
+    verdictChanged: [],
+    measurementChanged: [],
+  };
+
+  (next.expected_items || []).forEach(({ id: itemId }) => {
+    const wasNA = isNAValue(prev.images?.[itemId]);
+    const isNA = isNAValue(next.images?.[itemId]);
+    if (!wasNA && isNA) diff.naAdded.push(itemId);
+    if (wasNA && !isNA) diff.naCleared.push(itemId);
+
+    const prevPaths = new Set(normalizeImageValue(prev.images?.[itemId]));
+    const nextPaths = new Set(normalizeImageValue(next.images?.[itemId]));
+    const added = [...nextPaths].filter((path) => !prevPaths.has(path)).length;
+    const removed = [...prevPaths].filter((path) => !nextPaths.has(path)).length;
+    if (added > 0) diff.photosAdded[itemId] = added;
+    if (removed > 0) diff.photosRemoved[itemId] = removed;
+
+    // N/A 的變動已記錄於 naAdded / naCleared
+    const from = getItemVerdict(asReport(prev), itemId);
+    const to = getItemVerdict(asReport(next), itemId);
+    if (from !== to && from !== "na" && to !== "na") {
+      diff.verdictChanged.push({ itemId, from, to });
+    }
+
+    const fromValue = prev.measurements?.[itemId] ?? null;
+    const toValue = next.measurements?.[itemId] ?? null;
+    if (fromValue !== toValue) {
+      diff.measurementChanged.push({ itemId, from: fromValue, to: toValue });
+    }
+  });
+
+  return diff;
+};
+
+export const isEmptyReportDiff = (diff: ReportDiff) =>
+  diff.naAdded.length === 0 &&
+  diff.naCleared.length === 0 &&
+  Object.keys(diff.photosAdded).length === 0 &&
+  Object.keys(diff.photosRemoved).length === 0 &&
+  diff.verdictChanged.length === 0 &&
+  diff.measurementChanged.length === 0;
+
+const sumCounts = (counts: Record<string, number>) =>
+  Object.values(counts).reduce((total, n) => total + n, 0);
+
+// 差異摘要（一行）：稽核列表使用，不需項目名稱
+export const summarizeReportDiff = (diff: ReportDiff) =>
+  [
+    diff.naAdded.length > 0 && `標記 N/A ${diff.naAdded.length} 項`,
+    diff.naCleared.length > 0 && `取消 N/A ${diff.naCleared.length} 項`,
+    sumCounts(diff.photosAdded) > 0 && `新增照片 ${sumCounts(diff.photosAdded)} 張`,
+    sumCounts(diff.photosRemoved) > 0 &&
+      `移除照片 ${sumCounts(diff.photosRemoved)} 張`,
+    diff.verdictChanged.length > 0 && `判定變更 ${diff.verdictChanged.length} 項`,
+    diff.measurementChanged.length > 0 &&
+      `量測值變更 ${diff.measurementChanged.length} 項`,
+  ]
+    .filter(Boolean)
+    .join("、");
+
+const valueText = (value: number | null) => (value === null ? "未量測" : String(value));
+
+// 差異明細（逐項）：報告歷程使用
+export const describeReportDiff = (diff: ReportDiff, items: InspectionItem[]) => {
+  const name = (itemId: string) => getItemName(items, itemId);
+  return [
+    ...diff.naAdded.map((itemId) => `${name(itemId)}：標記 N/A`),
+    ...diff.naCleared.map((itemId) => `${name(itemId)}：取消 N/A`),
+    ...Object.entries(diff.photosAdded).map(
+      ([itemId, count]) => `${name(itemId)}：新增照片 ${count} 張`
+    ),
+    ...Object.entries(diff.photosRemoved).map(
+      ([itemId, count]) => `${name(itemId)}：移除照片 ${count} 張`
+    ),
+    ...diff.verdictChanged.map(
+      ({ itemId, from, to }) =>
+        `${name(itemId)}：${VERDICT_LABEL[from]} → ${VERDICT_LABEL[to]}`
+    ),
+    ...diff.measurementChanged.map(
+      ({ itemId, from, to }) =>
+        `${name(itemId)}：量測值 ${valueText(from)} → ${valueText(to)}`
+    ),
+  ];
+};
@@ -0,0 +1,111 @@
+import type { Report } from "../types";
+import { hasNGItem, isReportDone } from "./verdictUtils";
+
+// 報告搜尋欄位（由資料庫查詢，見 fetchReportsPage）
+export type ReportSearchFields = {
+  // 序號 / 表單 ID / 型號（部分比對）
+  text: string;
+  // 檢驗人員（edited_by，部分比對）
+  inspector: string;
+  // YYYY-MM-DD（本機時區，含當日）
+  dateFrom: string;
+  dateTo: string;
+};
+
+// 報告列表的查詢條件（按「查詢」後才生效）
+export type ReportQueryFilters = ReportSearchFields & {
+  process: string;
+  model: string;
+  // 完成狀態：done / not / ng，空字串為全部
+  status: string;
+};
+
+export const EMPTY_REPORT_SEARCH: ReportSearchFields = {
+  text: "",
+  inspector: "",
+  dateFrom: "",
+  dateTo: "",
+};
+
+export const EMPTY_REPORT_QUERY: ReportQueryFilters = {
+  ...EMPTY_REPORT_SEARCH,
+  process: "",
+  model: "",
+  status: "",
+};
+
+// 舊草稿沒有搜尋欄位，缺少的補空字串
+export const normalizeReportQuery = (
+  raw: Partial<ReportQueryFilters> | undefined
+): ReportQueryFilters => ({
+  process: raw?.process || "",
+  model: raw?.model || "",
+  status: raw?.status || "",
+  text: raw?.text || "",
+  inspector: raw?.inspector || "",
+  dateFrom: raw?.dateFrom || "",
+  dateTo: raw?.dateTo || "",
+});
+
+export const hasReportQuery = (filters: ReportQueryFilters) =>
+  Object.values(filters).some((value) => value.trim() !== "");
+
+// 日期區間轉為時間範圍：[from, to)
+export const toDateRange = (dateFrom: string, dateTo: string) => {
+  const from = dateFrom ? new Date(`${dateFrom}T00:00:00`) : null;
+  let to: Date | null = null;
+  if (dateTo) {
+    to = new Date(`${dateTo}T00:00:00`);
+    to.setDate(to.getDate() + 1);
+  }
+  return { from, to };
+};
+
+// 搜尋欄位的前端比對（與資料庫查詢條件相同）
+export const matchesReportSearch = (report: Report, search: ReportSearchFields) => {
+  const text = search.text.trim().toLowerCase();
+  if (
+    text &&
+    ![report.serial, report.id, report.model].some((value) =>
+      (value || "").toLowerCase().includes(text)
+    )
+  ) {
+    return false;
+  }
+
+  const inspector = search.inspector.trim().toLowerCase();
+  if (inspector && !(report.edited_by || "").toLowerCase().includes(inspector)) {
+    return false;
+  }
+
+  const { from, to } = toDateRange(search.dateFrom, search.dateTo);
+  if (from || to) {
+    if (!report.created_at) return false;
+    const createdAt = new Date(report.created_at).getTime();
+    if (from && createdAt < from.getTime()) return false;
+    if (to && createdAt >= to.getTime()) return false;
+  }
+  return true;
+};
+
+// 完整條件的前端比對：只用於不是由查詢取得的報告（如還原草稿時補入的單一報告）
+export const matchesReportQuery = (report: Report, filters: ReportQueryFilters) => {
+  if (filters.process && report.process !== filters.process) return false;
+  if (filters.model && report.model !== filters.model) return false;
+  if (!matchesReportSearch(report, filters)) return false;
+  if (filters.status === "done") return isReportDone(report);
+  if (filters.status === "not") return !isReportDone(report);
+  if (filters.status === "ng") return hasNGItem(report);
+  return true;
+};
+
+// 合併分頁載入的報告：同 ID 以新讀取的為準，依建立時間由新到舊
+export const mergeReportPages = (current: Report[], incoming: Report[]) => {
+  const map = new Map(current.map((report) => [report.id, report]));
+  incoming.forEach((report) => map.set(report.id, report));
+  return Array.from(map.values()).sort(
+    (a, b) =>
+      (b.created_at ?? "").localeCompare(a.created_at ?? "") ||
+      b.id.localeCompare(a.id)
+  );
+};
@@ -0,0 +1,77 @@
+// =============================
+//  序號標籤：解析條碼 / QR 內容為序號（與型號）
+// =============================
+
+export type SerialLabel = {
+  serial: string;
+  // 標籤有帶型號且為已知型號時才有值
+  model?: string;
+};
+
+const SERIAL_KEYS = ["sn", "serial", "serialno", "serial_no", "s/n"];
+const MODEL_KEYS = ["model", "pn", "modelno", "model_no", "p/n"];
+
+const findModel = (raw: string | undefined, productModels: string[]) => {
+  const text = raw?.trim().toLowerCase();
+  if (!text) return undefined;
+  return productModels.find((m) => m.trim().toLowerCase() === text);
+};
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+};
+
+// key=value / key:value 形式（如 SN:A123;MODEL:X1、?sn=A123&model=X1）
+const parseKeyValues = (text: string) => {
+  const query = text.includes("?") ? text.slice(text.indexOf("?") + 1) : text;
+  const pairs = new Map<string, string>();
+  query.split(/[;&,\n\r]+/).forEach((part) => {
+    const match = part.match(/^\s*([^=:]+?)\s*[=:]\s*(.*?)\s*$/);
+    if (match) pairs.set(match[1].toLowerCase(), safeDecode(match[2]));
+  });
+  const pick = (keys: string[]) =>
+    keys.map((key) => pairs.get(key)).find((value) => value);
+  return { serial: pick(SERIAL_KEYS), model: pick(MODEL_KEYS) };
+};
+
+// 支援格式：
+// - 純序號（Code128 常見）
+// - JSON：{"serial": "...", "model": "..."}
+// - key/value：SN:A123;MODEL:X1、網址參數 ?sn=A123&model=X1
+// - 型號|序號（分隔符號 | 或 Tab，前段須為已知型號）
+export const parseSerialLabel = (
+  raw: string,
+  productModels: string[]
+): SerialLabel | null => {
+  const text = raw.trim();
+  if (!text) return null;
+
+  if (text.startsWith("{")) {
+    try {
+      const data = JSON.parse(text) as Record<string, unknown>;
+      const serial = String(data.serial ?? data.sn ?? "").trim();
+      if (serial) {
+        return { serial, model: findModel(String(data.model ?? ""), productModels) };
+      }
+    } catch {
+      // 不是 JSON，繼續其他格式
+    }
+  }
+
+  const kv = parseKeyValues(text);
+  if (kv.serial) {
+    return { serial: kv.serial.trim(), model: findModel(kv.model, productModels) };
+  }
+
+  const parts = text.split(/[|\t]/).map((part) => part.trim()).filter(Boolean);
+  if (parts.length === 2) {
+    const model = findModel(parts[0], productModels);
+    if (model) return { serial: parts[1], model };
+  }
+
+  return { serial: text };
+};
@@ -0,0 +1,63 @@
+import type { ProductModel } from "../types";
+
+// 序號格式：
+// - 遮罩：# 數字、@ 英文字母、* 英數字，其餘字元需完全相同（如 SN######## 為 SN 加 8 位數字）
+// - 正規表示式：以 / 包住（如 /^SN\d{8}(-R\d)?$/），比對整個序號
+export const SERIAL_PATTERN_HINT =
+  "遮罩：# 數字、@ 英文字母、* 英數字（如 SN########）；或以 / 包住的正規表示式";
+
+const MASK_TOKENS: Record<string, string> = {
+  "#": "[0-9]",
+  "@": "[A-Z]",
+  "*": "[A-Z0-9]",
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// 序號一律大寫、去除空白後再儲存 / 比對
+export const normalizeSerial = (raw: string) => raw.replace(/\s+/g, "").toUpperCase();
+
+const isRegexPattern = (pattern: string) =>
+  pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/");
+
+// 空白格式回傳 null（不檢查）；正規表示式語法錯誤時拋出例外
+const compileSerialPattern = (pattern: string): RegExp | null => {
+  const trimmed = pattern.trim();
+  if (!trimmed) return null;
+  if (isRegexPattern(trimmed)) {
+    // 序號已轉為大寫，比對時不分大小寫
+    return new RegExp(`^(?:${trimmed.slice(1, -1)})$`, "i");
+  }
+  const body = [...normalizeSerial(trimmed)]
+    .map((char) => MASK_TOKENS[char] ?? escapeRegExp(char))
+    .join("");
+  return new RegExp(`^${body}$`);
+};
+
+// 格式本身是否可用（回傳錯誤訊息，空字串表示可用）
+export const validateSerialPattern = (pattern: string) => {
+  try {
+    compileSerialPattern(pattern);
+    return "";
+  } catch {
+    return "正規表示式格式錯誤";
+  }
+};
+
+export const getSerialPattern = (productModels: ProductModel[], model: string) =>
+  productModels.find((m) => m.model === model)?.serial_pattern.trim() || "";
+
+// 檢查序號（已正規化）；回傳錯誤訊息，空字串表示通過
+export const validateSerial = (serial: string, pattern: string) => {
+  if (!serial) return "";
+  let regex: RegExp | null;
+  try {
+    regex = compileSerialPattern(pattern);
+  } catch {
+    // 格式設定錯誤時不阻擋建立報告
+    console.error("序號格式設定錯誤：", pattern);
+    return "";
+  }
+  if (!regex || regex.test(serial)) return "";
+  return `序號格式不符，應為 ${pattern.trim()}`;
+};
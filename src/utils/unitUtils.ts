@@ -0,0 +1,76 @@
+import type { Process, Report } from "../types";
+import { pickLatestReport } from "./dateUtils";
+import { normalizeSerial } from "./serialPatternUtils";
+import { getReportStatus, type ReportStatus } from "./verdictUtils";
+
+// 機台（型號 + 序號）
+export type UnitGroup = {
+  key: string;
+  model: string;
+  serial: string;
+  // 舊 → 新
+  reports: Report[];
+};
+
+// 製程路線的一站
+export type RouteStep = {
+  process: string;
+  // 同製程的所有報告（含複檢），舊 → 新
+  reports: Report[];
+  latest: Report | null;
+  // 尚無報告時為 null
+  status: ReportStatus | null;
+};
+
+// 序號正規化後比對：格式檢查前的舊報告可能含小寫或空白
+export const toUnitKey = (model: string, serial: string) =>
+  `${model}__${normalizeSerial(serial)}`;
+
+const byCreatedAt = (a: Report, b: Report) =>
+  (a.created_at ?? "").localeCompare(b.created_at ?? "");
+
+// 報告依機台分組，機台依型號、序號排序
+export const groupReportsByUnit = (reports: Report[]): UnitGroup[] => {
+  const map = new Map<string, UnitGroup>();
+  reports.forEach((report) => {
+    const key = toUnitKey(report.model, report.serial);
+    const entry = map.get(key) ?? {
+      key,
+      model: report.model,
+      serial: report.serial,
+      reports: [],
+    };
+    entry.reports.push(report);
+    map.set(key, entry);
+  });
+  const collator = new Intl.Collator("en", { numeric: true, sensitivity: "base" });
+  return Array.from(map.values())
+    .map((unit) => ({ ...unit, reports: [...unit.reports].sort(byCreatedAt) }))
+    .sort(
+      (a, b) =>
+        collator.compare(a.model, b.model) || collator.compare(a.serial, b.serial)
+    );
+};
+
+// 製程路線：該型號的製程（依製程清單順序），再接上報告中出現但已不在清單的製程
+export const buildProcessRoute = (
+  unit: UnitGroup,
+  processes: Process[]
+): RouteStep[] => {
+  const names = processes
+    .filter((p) => p.model === unit.model)
+    .map((p) => p.name);
+  unit.reports.forEach((report) => {
+    if (!names.includes(report.process)) names.push(report.process);
+  });
+  return Array.from(new Set(names)).map((process) => {
+    const list = unit.reports.filter((report) => report.process === process);
+    const latest = pickLatestReport(list);
+    return {
+      process,
+      reports: list,
+      latest,
+      status: latest ? getReportStatus(latest) : null,
+    };
+  });
+};
@@ -0,0 +1,69 @@
+import type { ItemVerdict, PassFail, Report } from "../types";
+import { isNAValue, normalizeImageValue } from "./imageUtils";
+
+export type ReportStatus = "done" | "not" | "ng";
+
+export const VERDICT_LABEL: Record<ItemVerdict, string> = {
+  ok: "合格",
+  ng: "不合格",
+  na: "不適用（N/A）",
+  pending: "未判定",
+};
+
+export const VERDICT_COLOR: Record<ItemVerdict, string> = {
+  ok: "text-green-600",
+  ng: "text-rose-600",
+  na: "text-slate-600",
+  pending: "text-slate-400",
+};
+
+export const REPORT_STATUS_LABEL: Record<ReportStatus, string> = {
+  done: "已完成",
+  not: "未完成",
+  ng: "不合格",
+};
+
+export const isPassFail = (value: unknown): value is PassFail =>
+  value === "ok" || value === "ng";
+
+// 取得單一項目的判定
+// - N/A：images 內為 NA_SENTINEL
+// - 新報告：依 verdicts 判定，沒有紀錄即為未判定
+// - 舊報告（沒有 verdicts 欄位）：有照片視為合格
+export const getItemVerdict = (report: Report, itemId: string): ItemVerdict => {
+  const value = report.images?.[itemId];
+  if (isNAValue(value)) return "na";
+  if (report.verdicts) {
+    const verdict = report.verdicts[itemId];
+    return isPassFail(verdict) ? verdict : "pending";
+  }
+  return normalizeImageValue(value).length > 0 ? "ok" : "pending";
+};
+
+// 全部項目皆已判定（合格 / 不合格 / N/A）才算完成
+export const isReportDone = (report: Report) => {
+  const expected = report.expected_items || [];
+  if (expected.length === 0) return false;
+  return expected.every(
+    (item) => getItemVerdict(report, item.id) !== "pending"
+  );
+};
+
+export const hasNGItem = (report: Report) =>
+  (report.expected_items || []).some(
+    (item) => getItemVerdict(report, item.id) === "ng"
+  );
+
+// 報告整體狀態：有任一不合格即為 ng，其餘依是否全部判定
+export const getReportStatus = (report: Report): ReportStatus => {
+  if (hasNGItem(report)) return "ng";
+  return isReportDone(report) ? "done" : "not";
+};
+
+export const normalizeVerdictsMap = (verdicts?: Record<string, unknown>) => {
+  const next: Record<string, PassFail> = {};
+  Object.entries(verdicts || {}).forEach(([key, value]) => {
+    if (isPassFail(value)) next[key] = value;
+  });
+  return next;
+};
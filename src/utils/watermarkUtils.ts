@@ -0,0 +1,64 @@
+import type { WatermarkConfig, WatermarkField } from "../types";
+
+export const WATERMARK_FIELDS: WatermarkField[] = [
+  "report_id",
+  "serial",
+  "model",
+  "item",
+  "inspector",
+  "captured_at",
+];
+
+export const WATERMARK_FIELD_LABEL: Record<WatermarkField, string> = {
+  report_id: "表單編號",
+  serial: "序號",
+  model: "型號",
+  item: "檢驗項目",
+  inspector: "檢驗人員",
+  captured_at: "拍攝時間",
+};
+
+// 新製程預設不加浮水印，勾選啟用後顯示全部欄位
+export const DEFAULT_WATERMARK: WatermarkConfig = {
+  enabled: false,
+  fields: [...WATERMARK_FIELDS],
+};
+
+// 欄位依固定順序排列，未知欄位略過
+export const normalizeWatermark = (raw: unknown): WatermarkConfig | undefined => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const { enabled, fields } = raw as { enabled?: unknown; fields?: unknown };
+  const picked = Array.isArray(fields) ? fields : [];
+  return {
+    enabled: enabled === true,
+    fields: WATERMARK_FIELDS.filter((field) => picked.includes(field)),
+  };
+};
+
+export const isWatermarkEnabled = (config?: WatermarkConfig) =>
+  !!config?.enabled && config.fields.length > 0;
+
+export const describeWatermark = (config?: WatermarkConfig) =>
+  isWatermarkEnabled(config)
+    ? config!.fields.map((field) => WATERMARK_FIELD_LABEL[field]).join("、")
+    : "不加浮水印";
+
+// 拍攝時間：YYYY-MM-DD HH:mm:ss（本機時間）
+export const formatCaptureTime = (ms: number) => {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(
+    d.getHours()
+  )}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+// 浮水印文字（每個欄位一段）；未啟用回傳 undefined
+export const buildWatermarkSegments = (
+  config: WatermarkConfig | undefined,
+  values: Record<WatermarkField, string>
+) =>
+  isWatermarkEnabled(config)
+    ? config!.fields.map(
+        (field) => `${WATERMARK_FIELD_LABEL[field]}：${values[field] || "—"}`
+      )
+    : undefined;
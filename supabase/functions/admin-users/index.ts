@@ -0,0 +1,202 @@
+// =============================
+//  帳號管理 Edge Function（需 service role，僅管理員可呼叫）
+//  部署：supabase functions deploy admin-users
+// =============================
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+// 帳號沿用「username@local.com」的 email 格式
+const EMAIL_DOMAIN = "local.com";
+const ROLES = ["inspector", "supervisor", "qa", "admin"];
+// 停用帳號：以 ban 阻擋登入（約 100 年）
+const DISABLED_BAN_DURATION = "876000h";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type Body =
+  | { action: "list" }
+  | { action: "create"; username: string; password: string; role: string }
+  | { action: "set_role"; userId: string; role: string }
+  | { action: "set_disabled"; userId: string; disabled: boolean }
+  | { action: "reset_password"; userId: string; password: string };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const fail = (message: string, status = 400) => json({ error: message }, status);
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+    auth: { persistSession: false },
+  });
+
+  // 以呼叫者的 JWT 確認身分與角色
+  const caller = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    auth: { persistSession: false },
+  });
+  const { data: userData } = await caller.auth.getUser();
+  const callerId = userData.user?.id;
+  if (!callerId) return fail("未登入", 401);
+
+  const { data: callerRole } = await admin
+    .from("user_roles")
+    .select("role, disabled")
+    .eq("user_id", callerId)
+    .maybeSingle();
+  if (callerRole?.role !== "admin" || callerRole.disabled) {
+    return fail("僅限管理員使用", 403);
+  }
+
+  let body: Body;
+  try {
+    body = await req.json();
+  } catch {
+    return fail("參數格式錯誤");
+  }
+
+  const audit = (targetId: string, meta: Record<string, unknown>) =>
+    admin.from("audit_logs").insert({
+      user_id: callerId,
+      action: "user_admin",
+      report_id: null,
+      meta: { target_user_id: targetId, ...meta },
+    });
+
+  switch (body.action) {
+    case "list": {
+      const { data: roles, error } = await admin
+        .from("user_roles")
+        .select("user_id, username, role, disabled");
+      if (error) return fail(error.message, 500);
+
+      const users: { id: string; created_at: string }[] = [];
+      for (let page = 1; ; page++) {
+        const { data, error: listError } = await admin.auth.admin.listUsers({
+          page,
+          perPage: 1000,
+        });
+        if (listError) return fail(listError.message, 500);
+        users.push(...data.users);
+        if (data.users.length < 1000) break;
+      }
+
+      const { data: lastLogins } = await admin.rpc("user_last_logins");
+      const { data: locks } = await admin
+        .from("user_login_lock")
+        .select("user_id, updated_at");
+
+      const loginById = new Map(
+        (lastLogins || []).map((row: any) => [row.user_id, row.last_login_at])
+      );
+      const seenById = new Map(
+        (locks || []).map((row: any) => [row.user_id, row.updated_at])
+      );
+      const createdById = new Map(users.map((u) => [u.id, u.created_at]));
+
+      return json({
+        users: (roles || []).map((r: any) => ({
+          id: r.user_id,
+          username: r.username,
+          role: r.role,
+          disabled: r.disabled,
+          created_at: createdById.get(r.user_id) ?? null,
+          last_login_at: loginById.get(r.user_id) ?? null,
+          last_seen_at: seenById.get(r.user_id) ?? null,
+        })),
+      });
+    }
+
+    case "create": {
+      const username = (body.username || "").trim().toLowerCase();
+      if (!/^[a-z0-9._-]+$/.test(username)) {
+        return fail("帳號僅可使用英數字與 . _ -");
+      }
+      if (!ROLES.includes(body.role)) return fail("角色不正確");
+      if ((body.password || "").length < 6) return fail("密碼至少 6 個字元");
+
+      const { data, error } = await admin.auth.admin.createUser({
+        email: `${username}@${EMAIL_DOMAIN}`,
+        password: body.password,
+        email_confirm: true,
+      });
+      if (error || !data.user) return fail(error?.message || "建立帳號失敗");
+
+      const { error: roleError } = await admin.from("user_roles").insert({
+        user_id: data.user.id,
+        username,
+        role: body.role,
+      });
+      if (roleError) {
+        await admin.auth.admin.deleteUser(data.user.id);
+        return fail(roleError.message, 500);
+      }
+      await audit(data.user.id, { op: "create", username, role: body.role });
+      return json({ ok: true, id: data.user.id });
+    }
+
+    case "set_role": {
+      if (!ROLES.includes(body.role)) return fail("角色不正確");
+      if (body.userId === callerId && body.role !== "admin") {
+        return fail("不可移除自己的管理員角色");
+      }
+      const { error } = await admin
+        .from("user_roles")
+        .update({ role: body.role, updated_at: new Date().toISOString() })
+        .eq("user_id", body.userId);
+      if (error) return fail(error.message, 500);
+      await audit(body.userId, { op: "set_role", role: body.role });
+      return json({ ok: true });
+    }
+
+    case "set_disabled": {
+      if (body.userId === callerId) return fail("不可停用自己的帳號");
+      const { error: banError } = await admin.auth.admin.updateUserById(body.userId, {
+        ban_duration: body.disabled ? DISABLED_BAN_DURATION : "none",
+      });
+      if (banError) return fail(banError.message, 500);
+
+      const { error } = await admin
+        .from("user_roles")
+        .update({ disabled: body.disabled, updated_at: new Date().toISOString() })
+        .eq("user_id", body.userId);
+      if (error) return fail(error.message, 500);
+
+      // 停用時改寫登入鎖，使既有工作階段於下次檢查時登出
+      if (body.disabled) {
+        await admin.from("user_login_lock").upsert({
+          user_id: body.userId,
+          session_id: "disabled",
+          updated_at: new Date().toISOString(),
+        });
+      }
+      await audit(body.userId, { op: "set_disabled", disabled: body.disabled });
+      return json({ ok: true });
+    }
+
+    case "reset_password": {
+      if ((body.password || "").length < 6) return fail("密碼至少 6 個字元");
+      const { error } = await admin.auth.admin.updateUserById(body.userId, {
+        password: body.password,
+      });
+      if (error) return fail(error.message, 500);
+      await audit(body.userId, { op: "reset_password" });
+      return json({ ok: true });
+    }
+
+    default:
+      return fail("未知的操作");
+  }
+});
@@ -0,0 +1,4 @@
+-- 每個檢驗項目的判定（ok / ng），N/A 仍記錄於 images 的 "__NA__"
+-- 舊報告維持 NULL，前端沿用「有照片即合格」的判斷
+alter table public.reports
+  add column if not exists verdicts jsonb;
@@ -0,0 +1,8 @@
+-- 量測型檢驗項目：製程規格（JSON 字串，與 items 相同格式）
+alter table public.processes
+  add column if not exists specs text;
+
+-- 報告：建立當下的規格快照與量測值
+alter table public.reports
+  add column if not exists expected_specs jsonb,
+  add column if not exists measurements jsonb;
@@ -0,0 +1,38 @@
+-- 製程版本：每次更新製程新增一筆，既有版本不可修改
+create table if not exists public.process_revisions (
+  id bigserial primary key,
+  process_id bigint not null,
+  rev integer not null,
+  name text not null,
+  code text not null,
+  model text not null,
+  items text not null,
+  specs text,
+  effective_at timestamptz not null default now(),
+  author text,
+  changelog text,
+  unique (process_id, rev)
+);
+
+alter table public.processes
+  add column if not exists current_rev integer not null default 1;
+
+-- 既有製程建立 rev 1
+insert into public.process_revisions (process_id, rev, name, code, model, items, specs, author, changelog)
+select p.id, 1, p.name, p.code, p.model, coalesce(p.items, '[]'), p.specs, null, '初始版本（系統移轉）'
+from public.processes p
+on conflict (process_id, rev) do nothing;
+
+-- 報告記錄依據的製程版本
+alter table public.reports
+  add column if not exists process_id bigint,
+  add column if not exists process_rev integer;
+
+-- 版本僅可新增
+alter table public.process_revisions enable row level security;
+
+create policy "process_revisions_select" on public.process_revisions
+  for select to authenticated using (true);
+
+create policy "process_revisions_insert" on public.process_revisions
+  for insert to authenticated with check (true);
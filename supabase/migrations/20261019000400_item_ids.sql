@@ -0,0 +1,53 @@
+-- 檢驗項目改用固定 id：items 由字串陣列改為 [{ id, name }]
+-- images / verdicts / measurements / specs 的 key 由項目名稱改為項目 id
+-- 舊項目 id 由名稱雜湊產生，製程、版本與報告快照中同名項目會得到相同 id
+create or replace function pg_temp.item_id(name text) returns text
+  language sql immutable as $$
+  select 'i' || left(md5(name), 12)
+$$;
+
+create or replace function pg_temp.rekey_items(items text) returns text
+  language sql immutable as $$
+  select coalesce(
+    jsonb_agg(
+      case
+        when jsonb_typeof(e) = 'string'
+          then jsonb_build_object('id', pg_temp.item_id(e #>> '{}'), 'name', e #>> '{}')
+        else e
+      end
+      order by ord
+    )::text,
+    '[]'
+  )
+  from jsonb_array_elements(coalesce(nullif(items, ''), '[]')::jsonb) with ordinality as t(e, ord)
+$$;
+
+create or replace function pg_temp.rekey_map(m jsonb) returns jsonb
+  language sql immutable strict as $$
+  select coalesce(jsonb_object_agg(pg_temp.item_id(key), value), '{}'::jsonb)
+  from jsonb_each(m)
+$$;
+
+create or replace function pg_temp.is_legacy_items(items text) returns boolean
+  language sql immutable as $$
+  select coalesce(jsonb_typeof(nullif(items, '')::jsonb -> 0) = 'string', false)
+$$;
+
+update public.processes
+set items = pg_temp.rekey_items(items),
+    specs = pg_temp.rekey_map(nullif(specs, '')::jsonb)::text
+where pg_temp.is_legacy_items(items);
+
+update public.process_revisions
+set items = pg_temp.rekey_items(items),
+    specs = pg_temp.rekey_map(nullif(specs, '')::jsonb)::text
+where pg_temp.is_legacy_items(items);
+
+-- 照片路徑不變，只調整 key
+update public.reports
+set expected_items = pg_temp.rekey_items(expected_items),
+    images = pg_temp.rekey_map(images),
+    verdicts = pg_temp.rekey_map(verdicts),
+    measurements = pg_temp.rekey_map(measurements),
+    expected_specs = pg_temp.rekey_map(expected_specs)
+where pg_temp.is_legacy_items(expected_items);
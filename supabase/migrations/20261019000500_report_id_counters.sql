@@ -0,0 +1,63 @@
+-- 表單編號配發：每個製程代號 + 日期一個計數器，由資料庫原子遞增
+-- 格式維持「製程代號-YYYYMMDDNNN」，序號超過 999 時自然延伸為 4 位數以上
+create table if not exists public.report_id_counters (
+  proc_code text not null,
+  ymd text not null,
+  last_seq integer not null default 0,
+  primary key (proc_code, ymd)
+);
+
+-- 以既有報告的最大序號初始化
+insert into public.report_id_counters (proc_code, ymd, last_seq)
+select m[1], m[2], max(m[3]::integer)
+from (
+  select regexp_match(id, '^(.+)-(\d{8})(\d{3,})$') as m
+  from public.reports
+) parsed
+where m is not null
+group by m[1], m[2]
+on conflict (proc_code, ymd) do update
+  set last_seq = greatest(public.report_id_counters.last_seq, excluded.last_seq);
+
+alter table public.report_id_counters enable row level security;
+-- 不開放直接讀寫，只能透過 allocate_report_id 取號
+
+create or replace function public.allocate_report_id(p_proc_code text, p_ymd text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_prefix text;
+  v_existing integer;
+  v_seq integer;
+begin
+  if coalesce(p_proc_code, '') = '' or p_ymd !~ '^\d{8}$' then
+    raise exception 'invalid report id prefix: %-%', p_proc_code, p_ymd;
+  end if;
+
+  v_prefix := p_proc_code || '-' || p_ymd;
+
+  -- 舊版前端可能未經計數器直接寫入，取號時一併參考現有最大序號
+  select max(substring(id from length(v_prefix) + 1)::integer)
+    into v_existing
+  from public.reports
+  where id like v_prefix || '%'
+    and substring(id from length(v_prefix) + 1) ~ '^\d{3,}$';
+
+  insert into public.report_id_counters as c (proc_code, ymd, last_seq)
+  values (p_proc_code, p_ymd, coalesce(v_existing, 0) + 1)
+  on conflict (proc_code, ymd) do update
+    set last_seq = greatest(c.last_seq, coalesce(v_existing, 0)) + 1
+  returning last_seq into v_seq;
+
+  return v_prefix || case
+    when v_seq < 1000 then lpad(v_seq::text, 3, '0')
+    else v_seq::text
+  end;
+end;
+$$;
+
+revoke all on function public.allocate_report_id(text, text) from public;
+grant execute on function public.allocate_report_id(text, text) to authenticated;
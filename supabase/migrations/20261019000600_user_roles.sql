@@ -0,0 +1,231 @@
+-- 角色權限：取代「帳號名稱為 admin 即為管理員」的判斷
+-- inspector 檢驗員 / supervisor 組長 / qa 品保 / admin 管理員
+create table if not exists public.user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  username text not null unique,
+  role text not null default 'inspector'
+    check (role in ('inspector', 'supervisor', 'qa', 'admin')),
+  disabled boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+-- 既有帳號：admin 維持管理員，其餘預設為檢驗員
+insert into public.user_roles (user_id, username, role)
+select u.id,
+       lower(split_part(u.email, '@', 1)),
+       case when lower(split_part(u.email, '@', 1)) = 'admin' then 'admin' else 'inspector' end
+from auth.users u
+where u.email is not null
+on conflict (user_id) do nothing;
+
+-- 目前登入者的角色 / 帳號（停用或未設定角色時為 NULL）
+create or replace function public.current_app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.user_roles
+  where user_id = auth.uid() and not disabled
+$$;
+
+create or replace function public.current_app_username()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select username from public.user_roles
+  where user_id = auth.uid() and not disabled
+$$;
+
+grant execute on function public.current_app_role() to authenticated;
+grant execute on function public.current_app_username() to authenticated;
+
+alter table public.user_roles enable row level security;
+
+create policy "user_roles_select" on public.user_roles
+  for select to authenticated
+  using (user_id = auth.uid() or public.current_app_role() = 'admin');
+
+create policy "user_roles_admin_write" on public.user_roles
+  for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+-- ===== 報告：記錄建立者，用於「只能編輯自己的報告」 =====
+alter table public.reports
+  add column if not exists created_by text;
+
+-- 舊報告沒有建立者，以最後編輯者代替
+update public.reports
+set created_by = lower(edited_by)
+where created_by is null and coalesce(edited_by, '') <> '';
+
+-- 建立者一律由資料庫填入，避免前端冒用
+create or replace function public.set_report_created_by()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.created_by := coalesce(public.current_app_username(), new.created_by);
+  return new;
+end;
+$$;
+
+drop trigger if exists reports_set_created_by on public.reports;
+create trigger reports_set_created_by
+  before insert on public.reports
+  for each row execute function public.set_report_created_by();
+
+-- 以下權限以 restrictive policy 實作，與既有 policy 併用（AND）
+-- 表格原本未啟用 RLS 時，另建 permissive policy 作為基礎，避免全部被擋；
+-- 已啟用者沿用原有的 policy，不額外放寬
+create or replace function pg_temp.enable_rls_with_base(p_table text)
+returns void
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from pg_class
+    where oid = format('public.%I', p_table)::regclass and relrowsecurity
+  ) then
+    return;
+  end if;
+  execute format('alter table public.%I enable row level security', p_table);
+  execute format(
+    'create policy %I on public.%I for all to authenticated using (true) with check (true)',
+    p_table || '_base',
+    p_table
+  );
+end;
+$$;
+
+select pg_temp.enable_rls_with_base('reports');
+
+create policy "reports_role_select" on public.reports
+  as restrictive for select to authenticated
+  using (public.current_app_role() is not null);
+
+create policy "reports_role_insert" on public.reports
+  as restrictive for insert to authenticated
+  with check (public.current_app_role() in ('inspector', 'supervisor', 'admin'));
+
+create policy "reports_role_update" on public.reports
+  as restrictive for update to authenticated
+  using (
+    public.current_app_role() in ('supervisor', 'admin')
+    or (
+      public.current_app_role() = 'inspector'
+      and lower(created_by) = public.current_app_username()
+    )
+  );
+
+create policy "reports_role_delete" on public.reports
+  as restrictive for delete to authenticated
+  using (public.current_app_role() = 'admin');
+
+-- N/A 標記：僅組長 / 管理員可新增（N/A 記錄於 images 內容，以 trigger 比對新舊值）
+-- 已是 N/A 的項目維持不變不受限制，檢驗員仍可編輯含 N/A 的報告
+-- 沒有登入者（service role / 維護作業）不檢查
+create or replace function public.check_report_na()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_key text;
+begin
+  if auth.uid() is null
+    or public.current_app_role() in ('supervisor', 'admin') then
+    return new;
+  end if;
+
+  for v_key in
+    select key from jsonb_each(coalesce(to_jsonb(new.images), '{}'::jsonb))
+    where value = '"__NA__"'::jsonb
+  loop
+    if tg_op = 'INSERT'
+      or to_jsonb(old.images) -> v_key is distinct from '"__NA__"'::jsonb then
+      raise exception 'permission denied: mark N/A' using errcode = '42501';
+    end if;
+  end loop;
+  return new;
+end;
+$$;
+
+drop trigger if exists reports_check_na on public.reports;
+create trigger reports_check_na
+  before insert or update of images on public.reports
+  for each row execute function public.check_report_na();
+
+-- ===== 照片（Storage photos bucket）：與報告相同的角色限制 =====
+-- 只限制 photos bucket，其他 bucket 不受影響
+create policy "photos_role_select" on storage.objects
+  as restrictive for select to authenticated
+  using (bucket_id <> 'photos' or public.current_app_role() is not null);
+
+create policy "photos_role_insert" on storage.objects
+  as restrictive for insert to authenticated
+  with check (
+    bucket_id <> 'photos'
+    or public.current_app_role() in ('inspector', 'supervisor', 'admin')
+  );
+
+-- 移到垃圾桶（move）為 update；清除上傳殘留檔為 delete
+create policy "photos_role_update" on storage.objects
+  as restrictive for update to authenticated
+  using (
+    bucket_id <> 'photos'
+    or public.current_app_role() in ('inspector', 'supervisor', 'admin')
+  );
+
+create policy "photos_role_delete" on storage.objects
+  as restrictive for delete to authenticated
+  using (
+    bucket_id <> 'photos'
+    or public.current_app_role() in ('inspector', 'supervisor', 'admin')
+  );
+
+-- ===== 製程：僅管理員可新增 / 修改 / 刪除 =====
+select pg_temp.enable_rls_with_base('processes');
+
+create policy "processes_role_insert" on public.processes
+  as restrictive for insert to authenticated
+  with check (public.current_app_role() = 'admin');
+
+create policy "processes_role_update" on public.processes
+  as restrictive for update to authenticated
+  using (public.current_app_role() = 'admin');
+
+create policy "processes_role_delete" on public.processes
+  as restrictive for delete to authenticated
+  using (public.current_app_role() = 'admin');
+
+create policy "process_revisions_role_insert" on public.process_revisions
+  as restrictive for insert to authenticated
+  with check (public.current_app_role() = 'admin');
+
+-- ===== 稽核紀錄：所有人可寫入自己的紀錄，僅組長 / 品保 / 管理員可查看 =====
+select pg_temp.enable_rls_with_base('audit_logs');
+
+create policy "audit_logs_role_select" on public.audit_logs
+  as restrictive for select to authenticated
+  using (public.current_app_role() in ('supervisor', 'qa', 'admin'));
+
+create policy "audit_logs_own_insert" on public.audit_logs
+  as restrictive for insert to authenticated
+  with check (user_id = auth.uid());
+
+create policy "audit_logs_no_update" on public.audit_logs
+  as restrictive for update to authenticated
+  using (false);
+
+create policy "audit_logs_no_delete" on public.audit_logs
+  as restrictive for delete to authenticated
+  using (false);
@@ -0,0 +1,20 @@
+-- 帳號管理：各帳號最後登入時間（audit_logs 的 login 事件）
+-- 僅供 admin-users Edge Function（service role）呼叫
+create or replace function public.user_last_logins()
+returns table (user_id uuid, last_login_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select a.user_id, max(a.created_at)
+  from public.audit_logs a
+  where a.action = 'login'
+  group by a.user_id
+$$;
+
+revoke all on function public.user_last_logins() from public, anon, authenticated;
+grant execute on function public.user_last_logins() to service_role;
+
+create index if not exists audit_logs_action_user_idx
+  on public.audit_logs (action, user_id, created_at desc);
@@ -0,0 +1,34 @@
+-- 稽核紀錄查詢：記錄操作者帳號，查詢時不需再對照 user_roles
+alter table public.audit_logs
+  add column if not exists username text;
+
+update public.audit_logs a
+set username = r.username
+from public.user_roles r
+where a.username is null and r.user_id = a.user_id;
+
+create or replace function public.set_audit_log_username()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.username := coalesce(
+    (select username from public.user_roles where user_id = new.user_id),
+    new.username
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists audit_logs_set_username on public.audit_logs;
+create trigger audit_logs_set_username
+  before insert on public.audit_logs
+  for each row execute function public.set_audit_log_username();
+
+-- 稽核頁依時間 / 報告查詢
+create index if not exists audit_logs_created_at_idx
+  on public.audit_logs (created_at desc);
+create index if not exists audit_logs_report_id_idx
+  on public.audit_logs (report_id, created_at);
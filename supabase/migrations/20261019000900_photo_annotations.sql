@@ -0,0 +1,5 @@
+-- 照片附加資訊：key 為照片的 Storage 路徑
+-- 例：{"PT/TC1288/SN001/PT-20261019001/item-a1-1.jpg": {"original": "PT/.../item-a1-1.orig.jpg"}}
+-- original：標註照片的原圖（未標註），與標註照片存於同一資料夾
+alter table public.reports
+  add column if not exists photo_meta jsonb not null default '{}'::jsonb;
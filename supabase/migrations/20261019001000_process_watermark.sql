@@ -0,0 +1,7 @@
+-- 製程的照片浮水印設定：{"enabled": true, "fields": ["report_id", "serial", ...]}
+-- 與其他製程內容相同，每個版本各自保存
+alter table public.processes
+  add column if not exists watermark jsonb;
+
+alter table public.process_revisions
+  add column if not exists watermark jsonb;
@@ -0,0 +1,7 @@
+-- 製程的照片時效：{"mode": "off" | "warn" | "block", "maxHours": 24}
+-- 拍攝時間（EXIF）早於開始填寫報告超過 maxHours 的照片，提醒或不允許使用
+alter table public.processes
+  add column if not exists photo_age_policy jsonb;
+
+alter table public.process_revisions
+  add column if not exists photo_age_policy jsonb;
@@ -0,0 +1,19 @@
+-- 產品型號設定：序號格式（遮罩如 SN########，或 /正規表示式/）
+-- 型號本身仍由製程的 model 欄位決定，此表只存放各型號的設定
+create table if not exists public.product_models (
+  model text primary key,
+  serial_pattern text not null default '',
+  updated_at timestamptz not null default now(),
+  updated_by text
+);
+
+alter table public.product_models enable row level security;
+
+create policy "product_models_select" on public.product_models
+  for select to authenticated using (true);
+
+-- 與製程相同，僅管理員可修改
+create policy "product_models_admin_write" on public.product_models
+  for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
@@ -0,0 +1,10 @@
+-- 複檢：同一型號 + 序號 + 製程再次檢驗時，連結到原報告
+alter table public.reports
+  add column if not exists reinspection_of text references public.reports (id) on delete set null;
+
+create index if not exists reports_reinspection_of_idx
+  on public.reports (reinspection_of);
+
+-- 建立報告前查詢同一台機器、同一製程的既有報告
+create index if not exists reports_unit_process_idx
+  on public.reports (model, serial, process);
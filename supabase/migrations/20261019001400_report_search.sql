@@ -0,0 +1,18 @@
+-- 報告搜尋：序號 / 表單 ID / 型號部分比對、檢驗人員、日期區間改由資料庫查詢
+create extension if not exists pg_trgm;
+
+-- ilike '%關鍵字%' 需 trigram 索引才能避免全表掃描
+create index if not exists reports_serial_trgm_idx
+  on public.reports using gin (serial gin_trgm_ops);
+
+create index if not exists reports_id_trgm_idx
+  on public.reports using gin (id gin_trgm_ops);
+
+create index if not exists reports_model_trgm_idx
+  on public.reports using gin (model gin_trgm_ops);
+
+create index if not exists reports_edited_by_trgm_idx
+  on public.reports using gin (edited_by gin_trgm_ops);
+
+create index if not exists reports_created_at_idx
+  on public.reports (created_at);
@@ -0,0 +1,111 @@
+-- 報告列表分頁：依 (created_at, id) 由新到舊以游標分頁，狀態篩選改由資料庫過濾
+-- 狀態依 expected_items / images / verdicts 計算，規則與前端 verdictUtils 相同：
+-- - N/A：images 內為 "__NA__"
+-- - 新報告：依 verdicts 判定（ok / ng），沒有紀錄即為未判定
+-- - 舊報告（verdicts 為 NULL）：有照片視為合格
+alter table public.reports
+  add column if not exists is_done boolean not null default false,
+  add column if not exists has_ng boolean not null default false;
+
+create or replace function public.compute_report_status(
+  p_items jsonb,
+  p_images jsonb,
+  p_verdicts jsonb,
+  out is_done boolean,
+  out has_ng boolean
+)
+language plpgsql
+immutable
+as $$
+declare
+  v_items jsonb := p_items;
+  v_entry jsonb;
+  v_id text;
+  v_image jsonb;
+  v_verdict text;
+  v_count integer := 0;
+  v_judged integer := 0;
+begin
+  has_ng := false;
+
+  -- expected_items 以 JSON 字串儲存
+  if jsonb_typeof(v_items) = 'string' then
+    begin
+      v_items := (v_items #>> '{}')::jsonb;
+    exception when others then
+      v_items := null;
+    end;
+  end if;
+  if v_items is null or jsonb_typeof(v_items) <> 'array' then
+    is_done := false;
+    return;
+  end if;
+
+  for v_entry in select value from jsonb_array_elements(v_items) loop
+    -- 舊格式為項目名稱字串，新格式為 { id, name }
+    v_id := case jsonb_typeof(v_entry)
+      when 'string' then v_entry #>> '{}'
+      when 'object' then v_entry ->> 'id'
+    end;
+    if coalesce(v_id, '') = '' then
+      continue;
+    end if;
+    v_count := v_count + 1;
+
+    v_image := p_images -> v_id;
+    if v_image = '"__NA__"'::jsonb then
+      v_judged := v_judged + 1;
+    elsif p_verdicts is not null then
+      v_verdict := p_verdicts ->> v_id;
+      if v_verdict in ('ok', 'ng') then
+        v_judged := v_judged + 1;
+      end if;
+      if v_verdict = 'ng' then
+        has_ng := true;
+      end if;
+    elsif (jsonb_typeof(v_image) = 'string' and v_image #>> '{}' <> '')
+      or (jsonb_typeof(v_image) = 'array' and jsonb_array_length(v_image) > 0) then
+      v_judged := v_judged + 1;
+    end if;
+  end loop;
+
+  is_done := v_count > 0 and v_judged = v_count;
+end;
+$$;
+
+create or replace function public.reports_set_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  select s.is_done, s.has_ng
+    into new.is_done, new.has_ng
+  from public.compute_report_status(
+    to_jsonb(new.expected_items),
+    to_jsonb(new.images),
+    to_jsonb(new.verdicts)
+  ) s;
+  return new;
+end;
+$$;
+
+drop trigger if exists reports_set_status on public.reports;
+create trigger reports_set_status
+  before insert or update of expected_items, images, verdicts on public.reports
+  for each row execute function public.reports_set_status();
+
+-- 既有報告補上狀態
+update public.reports r
+set is_done = s.is_done, has_ng = s.has_ng
+from public.reports src
+cross join lateral public.compute_report_status(
+  to_jsonb(src.expected_items),
+  to_jsonb(src.images),
+  to_jsonb(src.verdicts)
+) s
+where src.id = r.id;
+
+-- 游標分頁（新 → 舊），取代單欄的 created_at 索引
+drop index if exists public.reports_created_at_idx;
+create index if not exists reports_created_at_id_idx
+  on public.reports (created_at desc, id desc);
@@ -0,0 +1,116 @@
+-- 製程版本改由 RPC 寫入：processes 與 process_revisions 在同一交易內更新
+-- 避免版本已新增但製程更新失敗，留下孤立版本導致之後的版本號永遠衝突
+
+-- 版本不可變：報告仍以 process_id / process_rev 參照，製程改為封存而不刪除
+alter table public.processes
+  add column if not exists archived boolean not null default false;
+
+-- 已刪除製程留下的版本仍保留（not valid：只檢查之後新增的資料）
+alter table public.process_revisions
+  drop constraint if exists process_revisions_process_id_fkey;
+alter table public.process_revisions
+  add constraint process_revisions_process_id_fkey
+  foreign key (process_id) references public.processes (id) on delete restrict
+  not valid;
+
+-- 不再開放直接新增版本（含冒用 author），只能透過下方 RPC
+drop policy if exists "process_revisions_insert" on public.process_revisions;
+drop policy if exists "process_revisions_role_insert" on public.process_revisions;
+
+-- 新增製程：建立 processes 與 rev 1
+create or replace function public.create_process(
+  p_name text,
+  p_code text,
+  p_model text,
+  p_items text,
+  p_specs text,
+  p_watermark jsonb,
+  p_photo_age_policy jsonb,
+  p_changelog text
+)
+returns setof public.processes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.processes;
+begin
+  if public.current_app_role() is distinct from 'admin' then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  insert into public.processes
+    (name, code, model, items, specs, watermark, photo_age_policy, current_rev)
+  values
+    (p_name, p_code, p_model, p_items, p_specs, p_watermark, p_photo_age_policy, 1)
+  returning * into v_row;
+
+  insert into public.process_revisions
+    (process_id, rev, name, code, model, items, specs, watermark, photo_age_policy, author, changelog)
+  values
+    (v_row.id, 1, p_name, p_code, p_model, p_items, p_specs, p_watermark, p_photo_age_policy,
+     public.current_app_username(), p_changelog);
+
+  return next v_row;
+end;
+$$;
+
+-- 更新製程：current_rev 仍為 p_expected_rev 時才建立下一個版本
+-- 已被其他人更新或已封存則不回傳任何資料
+create or replace function public.revise_process(
+  p_process_id bigint,
+  p_expected_rev integer,
+  p_name text,
+  p_code text,
+  p_model text,
+  p_items text,
+  p_specs text,
+  p_watermark jsonb,
+  p_photo_age_policy jsonb,
+  p_changelog text
+)
+returns setof public.processes
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.processes;
+begin
+  if public.current_app_role() is distinct from 'admin' then
+    raise exception 'permission denied' using errcode = '42501';
+  end if;
+
+  update public.processes
+  set name = p_name,
+      code = p_code,
+      model = p_model,
+      items = p_items,
+      specs = p_specs,
+      watermark = p_watermark,
+      photo_age_policy = p_photo_age_policy,
+      current_rev = current_rev + 1
+  where id = p_process_id
+    and current_rev = p_expected_rev
+    and not archived
+  returning * into v_row;
+
+  if not found then
+    return;
+  end if;
+
+  insert into public.process_revisions
+    (process_id, rev, name, code, model, items, specs, watermark, photo_age_policy, author, changelog)
+  values
+    (v_row.id, v_row.current_rev, p_name, p_code, p_model, p_items, p_specs, p_watermark,
+     p_photo_age_policy, public.current_app_username(), p_changelog);
+
+  return next v_row;
+end;
+$$;
+
+revoke execute on function public.create_process(text, text, text, text, text, jsonb, jsonb, text) from public;
+revoke execute on function public.revise_process(bigint, integer, text, text, text, text, text, jsonb, jsonb, text) from public;
+grant execute on function public.create_process(text, text, text, text, text, jsonb, jsonb, text) to authenticated;
+grant execute on function public.revise_process(bigint, integer, text, text, text, text, text, jsonb, jsonb, text) to authenticated;
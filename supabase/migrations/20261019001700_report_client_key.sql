@@ -0,0 +1,7 @@
+-- 離線上傳佇列的冪等鍵：每筆佇列（localId）最多只會建立一份報告
+-- 寫入成功但回應遺失、或多個分頁同時上傳同一筆時，可由此判斷報告是否已存在
+alter table public.reports
+  add column if not exists client_key text;
+
+create unique index if not exists reports_client_key_key
+  on public.reports (client_key);
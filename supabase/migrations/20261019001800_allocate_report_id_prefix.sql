@@ -0,0 +1,42 @@
+-- 取號參考現有最大序號時，製程代號中的 _ 與 % 不可視為 like 萬用字元
+-- 改以位元組順序（C collation）的範圍比對前綴：序號只有數字，皆落在 [前綴, 前綴 || ':') 內
+create index if not exists reports_id_c_idx
+  on public.reports ((id collate "C"));
+
+create or replace function public.allocate_report_id(p_proc_code text, p_ymd text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_prefix text;
+  v_existing integer;
+  v_seq integer;
+begin
+  if coalesce(p_proc_code, '') = '' or p_ymd !~ '^\d{8}$' then
+    raise exception 'invalid report id prefix: %-%', p_proc_code, p_ymd;
+  end if;
+
+  v_prefix := p_proc_code || '-' || p_ymd;
+
+  -- 舊版前端可能未經計數器直接寫入，取號時一併參考現有最大序號
+  select max(substring(id from length(v_prefix) + 1)::integer)
+    into v_existing
+  from public.reports
+  where (id collate "C") >= v_prefix
+    and (id collate "C") < v_prefix || ':'
+    and substring(id from length(v_prefix) + 1) ~ '^\d{3,}$';
+
+  insert into public.report_id_counters as c (proc_code, ymd, last_seq)
+  values (p_proc_code, p_ymd, coalesce(v_existing, 0) + 1)
+  on conflict (proc_code, ymd) do update
+    set last_seq = greatest(c.last_seq, coalesce(v_existing, 0)) + 1
+  returning last_seq into v_seq;
+
+  return v_prefix || case
+    when v_seq < 1000 then lpad(v_seq::text, 3, '0')
+    else v_seq::text
+  end;
+end;
+$$;
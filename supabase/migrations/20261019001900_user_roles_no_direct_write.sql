@@ -0,0 +1,3 @@
+-- 角色 / 停用只能透過 admin-users Edge Function 修改（service role，不受 RLS 限制）
+-- 直接寫入會略過不可降級 / 停用自己的檢查與 user_admin 稽核紀錄
+drop policy if exists "user_roles_admin_write" on public.user_roles;
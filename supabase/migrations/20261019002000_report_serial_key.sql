@@ -0,0 +1,13 @@
+-- 序號比對鍵：大寫、去除空白（與前端 normalizeSerial 相同）
+-- 序號格式檢查前建立的報告可能含小寫或空白，報告本身的序號（與照片路徑）維持不變，
+-- 重複檢查與機台履歷改以此欄位比對
+alter table public.reports
+  add column if not exists serial_key text
+  generated always as (upper(regexp_replace(coalesce(serial, ''), '\s', '', 'g'))) stored;
+
+drop index if exists public.reports_unit_process_idx;
+create index if not exists reports_unit_process_idx
+  on public.reports (model, serial_key, process);
+
+create index if not exists reports_serial_key_trgm_idx
+  on public.reports using gin (serial_key gin_trgm_ops);